@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { buildColumnFiltersPredicate, describeColumnFilter, getColumnFilterValues, isColumnFilterActive } from '../utils/columnFilters';
+import { makeIssue } from './fixtures';
+
+const crash = makeIssue({
+    number: 1,
+    title: 'Crash in useEffect',
+    labels: ['bug', 'React Core'],
+    milestone: '19.1',
+    // Local time, so day comparisons hold in any time zone
+    created_at: '2024-03-15T12:00:00'
+});
+const docs = makeIssue({ number: 2, title: 'Docs: typo', labels: ['documentation'], created_at: '2024-05-01T12:00:00' });
+
+const matching = (filters: Parameters<typeof buildColumnFiltersPredicate>[0]) => {
+    const predicate = buildColumnFiltersPredicate(filters);
+    return predicate ? [crash, docs].filter(predicate).map(issue => issue.number) : null;
+};
+
+describe('getColumnFilterValues', () => {
+    it('reads names of nested and multi-valued columns', () => {
+        expect(getColumnFilterValues(crash, 'user')).toEqual(['octocat']);
+        expect(getColumnFilterValues(crash, 'labels')).toEqual(['bug', 'React Core']);
+        expect(getColumnFilterValues(crash, 'milestone')).toEqual(['19.1']);
+        expect(getColumnFilterValues(docs, 'milestone')).toEqual([]);
+        expect(getColumnFilterValues(crash, 'number')).toEqual(['1']);
+    });
+});
+
+describe('isColumnFilterActive', () => {
+    it('ignores blank text, invalid patterns, empty selections and open ranges', () => {
+        expect(isColumnFilterActive({ type: 'text', operator: 'contains', value: '  ' })).toBe(false);
+        expect(isColumnFilterActive({ type: 'text', operator: 'regex', value: '(' })).toBe(false);
+        expect(isColumnFilterActive({ type: 'dropdown', values: [] })).toBe(false);
+        expect(isColumnFilterActive({ type: 'dateRange', range: {} })).toBe(false);
+        expect(isColumnFilterActive({ type: 'text', operator: 'regex', value: '^Crash' })).toBe(true);
+    });
+});
+
+describe('buildColumnFiltersPredicate', () => {
+    it('is null without active filters', () => {
+        expect(matching({})).toBeNull();
+        expect(matching({ title: { type: 'text', operator: 'contains', value: '' } })).toBeNull();
+    });
+
+    it('matches text case-insensitively by operator', () => {
+        expect(matching({ title: { type: 'text', operator: 'contains', value: 'CRASH' } })).toEqual([1]);
+        expect(matching({ labels: { type: 'text', operator: 'equals', value: 'react core' } })).toEqual([1]);
+        expect(matching({ title: { type: 'text', operator: 'regex', value: '^docs:' } })).toEqual([2]);
+    });
+
+    it('matches any selected value and ANDs columns', () => {
+        expect(matching({ labels: { type: 'dropdown', values: ['bug', 'documentation'] } })).toEqual([1, 2]);
+        expect(matching({
+            labels: { type: 'dropdown', values: ['bug', 'documentation'] },
+            milestone: { type: 'dropdown', values: ['19.1'] }
+        })).toEqual([1]);
+    });
+
+    it('compares dates by whole days', () => {
+        const day = new Date(2024, 2, 15);
+        expect(matching({ created_at: { type: 'date', operator: 'on', date: day } })).toEqual([1]);
+        expect(matching({ created_at: { type: 'date', operator: 'before', date: day } })).toEqual([]);
+        expect(matching({ created_at: { type: 'date', operator: 'after', date: day } })).toEqual([2]);
+        expect(matching({ created_at: { type: 'dateRange', range: { from: new Date(2024, 3, 1) } } })).toEqual([2]);
+    });
+});
+
+describe('describeColumnFilter', () => {
+    it('summarizes each filter type for its chip', () => {
+        expect(describeColumnFilter({ type: 'text', operator: 'contains', value: ' crash ' })).toBe('contains "crash"');
+        expect(describeColumnFilter({ type: 'text', operator: 'regex', value: '^a' })).toBe('matches /^a/');
+        expect(describeColumnFilter({ type: 'dropdown', values: ['a', 'b', 'c', 'd'] })).toBe('is a, b +2');
+        expect(describeColumnFilter({ type: 'date', operator: 'after', date: new Date(2024, 0, 1) })).toBe('after Jan 01, 2024');
+        expect(describeColumnFilter({ type: 'dateRange', range: { to: new Date(2024, 0, 31) } })).toBe('until Jan 31, 2024');
+    });
+});
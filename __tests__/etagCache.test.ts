@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { apiClient } from '../config/axiosConfig';
+import { etagCache } from '../config/etagCache';
+import { MockResponse, mockAdapter } from './fixtures';
+
+const ISSUES_URL = '/repos/facebook/react/issues';
+
+beforeEach(() => {
+    etagCache.clear();
+});
+
+describe('etagCache', () => {
+    it('evicts the least recently used entry', () => {
+        for (let page = 1; page <= 200; page++) {
+            etagCache.set(`${ISSUES_URL}?page=${page}`, { etag: `"${page}"`, data: page, headers: {} });
+        }
+        etagCache.get(`${ISSUES_URL}?page=1`);
+        etagCache.set(`${ISSUES_URL}?page=201`, { etag: '"201"', data: 201, headers: {} });
+
+        expect(etagCache.size).toBe(200);
+        expect(etagCache.get(`${ISSUES_URL}?page=1`)).toBeDefined();
+        expect(etagCache.get(`${ISSUES_URL}?page=2`)).toBeUndefined();
+    });
+
+    it('invalidates entries by URL prefix', () => {
+        etagCache.set(`${ISSUES_URL}?page=1`, { etag: '"a"', data: [], headers: {} });
+        etagCache.set('/repos/facebook/react/labels', { etag: '"b"', data: [], headers: {} });
+
+        etagCache.invalidate(ISSUES_URL);
+
+        expect(etagCache.get(`${ISSUES_URL}?page=1`)).toBeUndefined();
+        expect(etagCache.get('/repos/facebook/react/labels')).toBeDefined();
+    });
+});
+
+describe('apiClient conditional requests', () => {
+    it('revalidates with the stored ETag and serves the cached body on 304', async () => {
+        const adapter = mockAdapter((config): MockResponse => config.headers['If-None-Match'] === '"v1"'
+            ? { status: 304, headers: { 'x-ratelimit-remaining': '4999' } }
+            : { status: 200, data: [{ number: 1 }], headers: { etag: '"v1"', link: '<next>; rel="next"' } });
+
+        await apiClient.get(ISSUES_URL, { params: { page: 1 }, adapter });
+        const response = await apiClient.get(ISSUES_URL, { params: { page: 1 }, adapter });
+
+        expect(adapter).toHaveBeenCalledTimes(2);
+        expect(response).toMatchObject({ status: 200, data: [{ number: 1 }] });
+        // Cached headers such as Link survive, fresh rate-limit headers come from the 304
+        expect(response.headers['link']).toBe('<next>; rel="next"');
+        expect(response.headers['x-ratelimit-remaining']).toBe('4999');
+    });
+
+    it('falls back to Last-Modified without an ETag', async () => {
+        const adapter = mockAdapter((config): MockResponse => config.headers['If-Modified-Since']
+            ? { status: 304 }
+            : { status: 200, data: ['label'], headers: { 'last-modified': 'Wed, 01 May 2024 10:00:00 GMT' } });
+
+        await apiClient.get('/repos/facebook/react/labels', { adapter });
+        const response = await apiClient.get('/repos/facebook/react/labels', { adapter });
+
+        expect(adapter.mock.calls[1][0].headers['If-Modified-Since']).toBe('Wed, 01 May 2024 10:00:00 GMT');
+        expect(response.data).toEqual(['label']);
+    });
+
+    it('refetches unconditionally when the entry was evicted during the request', async () => {
+        let version = 1;
+        const adapter = mockAdapter(config => {
+            if (config.headers['If-None-Match']) {
+                // Evicted while the conditional request was in flight
+                etagCache.clear();
+                return { status: 304 };
+            }
+            return { status: 200, data: { version: version++ }, headers: { etag: `"v${version}"` } };
+        });
+
+        await apiClient.get(ISSUES_URL, { adapter });
+        const response = await apiClient.get(ISSUES_URL, { adapter });
+
+        expect(adapter).toHaveBeenCalledTimes(3);
+        expect(adapter.mock.calls[2][0].headers['If-None-Match']).toBeUndefined();
+        expect(response).toMatchObject({ status: 200, data: { version: 2 } });
+    });
+
+    it('caches GETs only and keys them by query params', async () => {
+        const adapter = mockAdapter(() => ({ status: 200, data: {}, headers: { etag: '"x"' } }));
+
+        await apiClient.patch(`${ISSUES_URL}/1`, { state: 'closed' }, { adapter });
+        await apiClient.get(ISSUES_URL, { params: { state: 'open' }, adapter });
+        await apiClient.get(ISSUES_URL, { params: { state: 'closed' }, adapter });
+
+        expect(etagCache.size).toBe(2);
+        expect(adapter.mock.calls[2][0].headers['If-None-Match']).toBeUndefined();
+    });
+});
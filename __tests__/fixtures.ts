@@ -0,0 +1,101 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { vi } from 'vitest';
+import { GitHubIssue } from '../utils/types';
+
+type IssueOverrides = Omit<Partial<GitHubIssue>, 'labels' | 'assignees' | 'milestone'> & {
+    labels?: string[];
+    assignees?: string[];
+    milestone?: string | null;
+};
+
+const user = (login: string, id = 1) => ({
+    id,
+    login,
+    avatar_url: `https://avatars.githubusercontent.com/${login}`,
+    html_url: `https://github.com/${login}`
+});
+
+/**
+ * Issue fixture for tests; labels, assignees and milestone are given by name
+ */
+export const makeIssue = ({ labels = [], assignees = [], milestone = null, ...overrides }: IssueOverrides = {}): GitHubIssue => {
+    const number = overrides.number ?? 1;
+    return {
+        id: number,
+        node_id: `I_${number}`,
+        number,
+        title: 'Issue title',
+        body: null,
+        state: 'open',
+        locked: false,
+        created_at: '2024-01-01T12:00:00Z',
+        updated_at: '2024-01-01T12:00:00Z',
+        closed_at: null,
+        user: { ...user('octocat'), type: 'User', site_admin: false },
+        assignee: assignees[0] ? user(assignees[0]) : null,
+        assignees: assignees.map((login, index) => user(login, index + 1)),
+        labels: labels.map((name, index) => ({
+            id: index + 1,
+            node_id: `L_${index + 1}`,
+            name,
+            color: 'ededed',
+            default: false,
+            description: null
+        })),
+        milestone: milestone === null ? null : {
+            id: 1,
+            number: 1,
+            title: milestone,
+            description: null,
+            state: 'open',
+            open_issues: 1,
+            closed_issues: 0,
+            html_url: 'https://github.com/octocat/hello/milestone/1',
+            created_at: '2024-01-01T00:00:00Z',
+            updated_at: '2024-01-01T00:00:00Z',
+            due_on: null
+        },
+        comments: 0,
+        html_url: `https://github.com/octocat/hello/issues/${number}`,
+        author_association: 'OWNER',
+        reactions: {
+            total_count: 0,
+            '+1': 0,
+            '-1': 0,
+            laugh: 0,
+            hooray: 0,
+            confused: 0,
+            heart: 0,
+            rocket: 0,
+            eyes: 0
+        },
+        ...overrides
+    };
+};
+
+export interface MockResponse {
+    status: number;
+    data?: unknown;
+    headers?: Record<string, string>;
+}
+
+/**
+ * axios adapter answering from a handler, so apiClient's interceptors run without a network.
+ * Statuses the request's validateStatus rejects fail like real error responses; a handler
+ * throwing an AxiosError without a response stands in for a network failure.
+ */
+export const mockAdapter = (handler: (config: InternalAxiosRequestConfig) => MockResponse) =>
+    vi.fn<AxiosAdapter>(async config => {
+        const { status, data = {}, headers = {} } = handler(config);
+        const response: AxiosResponse = {
+            status,
+            statusText: '',
+            data,
+            headers: new AxiosHeaders(headers),
+            config
+        };
+        if (config.validateStatus && !config.validateStatus(status)) {
+            throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, null, response);
+        }
+        return response;
+    });
@@ -0,0 +1,103 @@
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { describe, expect, it } from 'vitest';
+import {
+    GitHubApiError,
+    GitHubAuthError,
+    GitHubNetworkError,
+    GitHubNotFoundError,
+    GitHubRateLimitError,
+    GitHubSecondaryRateLimitError,
+    GitHubServerError,
+    GitHubValidationError,
+    parseRetryAfter,
+    PROXY_ERROR_HEADER,
+    toGitHubApiError
+} from '../utils/githubApiError';
+
+const config: InternalAxiosRequestConfig = {
+    url: '/repos/facebook/react/issues',
+    params: { state: 'open' },
+    headers: new AxiosHeaders()
+};
+
+// An apiClient failure as axios rejects it; without a status there is no response
+const axiosError = (status?: number, data: object = {}, headers: Record<string, string> = {}) =>
+    new AxiosError('Request failed', undefined, config, undefined, status === undefined ? undefined : {
+        status,
+        statusText: '',
+        data,
+        headers,
+        config
+    });
+
+describe('toGitHubApiError', () => {
+    it('maps statuses to their error classes', () => {
+        expect(toGitHubApiError(axiosError(401))).toBeInstanceOf(GitHubAuthError);
+        expect(toGitHubApiError(axiosError(403))).toBeInstanceOf(GitHubAuthError);
+        expect(toGitHubApiError(axiosError(404))).toBeInstanceOf(GitHubNotFoundError);
+        expect(toGitHubApiError(axiosError(502))).toBeInstanceOf(GitHubServerError);
+        expect(toGitHubApiError(axiosError(418))).toMatchObject({ kind: 'unknown', retryable: false });
+    });
+
+    it('keeps the status, request URL and documentation URL', () => {
+        const error = toGitHubApiError(axiosError(404, { message: 'Not Found', documentation_url: 'https://docs.github.com/rest' }));
+
+        expect(error).toMatchObject({
+            status: 404,
+            url: '/repos/facebook/react/issues?state=open',
+            documentationUrl: 'https://docs.github.com/rest'
+        });
+    });
+
+    it('carries validation errors', () => {
+        const errors = [{ resource: 'Issue', field: 'title', code: 'missing_field' }];
+        const error = toGitHubApiError(axiosError(422, { message: 'Validation Failed', errors }));
+
+        expect(error).toBeInstanceOf(GitHubValidationError);
+        expect((error as GitHubValidationError).errors).toEqual(errors);
+        expect(error.message).toBe('Invalid request parameters: Validation Failed');
+    });
+
+    it('tells the primary rate limit from secondary ones', () => {
+        const primary = toGitHubApiError(axiosError(403, {}, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' }));
+        expect(primary).toBeInstanceOf(GitHubRateLimitError);
+        expect((primary as GitHubRateLimitError).resetAt).toBe(1700000000 * 1000);
+
+        const secondary = toGitHubApiError(axiosError(403, {}, { 'retry-after': '30' }));
+        expect(secondary).toBeInstanceOf(GitHubSecondaryRateLimitError);
+        expect((secondary as GitHubSecondaryRateLimitError).retryAfter).toBe(30 * 1000);
+
+        const byMessage = toGitHubApiError(axiosError(403, { message: 'You have exceeded a secondary rate limit' }));
+        expect(byMessage).toBeInstanceOf(GitHubSecondaryRateLimitError);
+    });
+
+    it('treats a missing response and the proxy failing to reach GitHub as network errors', () => {
+        expect(toGitHubApiError(axiosError())).toBeInstanceOf(GitHubNetworkError);
+        expect(toGitHubApiError(axiosError(502, {}, { [PROXY_ERROR_HEADER]: 'network' }))).toMatchObject({
+            kind: 'network',
+            retryable: true
+        });
+    });
+
+    it('wraps non-axios errors and passes typed ones through', () => {
+        const typed = new GitHubNotFoundError('gone', { status: 404 });
+        expect(toGitHubApiError(typed)).toBe(typed);
+
+        const wrapped = toGitHubApiError(new Error('boom'));
+        expect(wrapped).toBeInstanceOf(GitHubApiError);
+        expect(wrapped.message).toBe('Request error: boom');
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('reads seconds and HTTP dates as milliseconds', () => {
+        expect(parseRetryAfter('120')).toBe(120 * 1000);
+        expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    });
+
+    it('ignores missing and malformed values', () => {
+        expect(parseRetryAfter(undefined)).toBeUndefined();
+        expect(parseRetryAfter('')).toBeUndefined();
+        expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+});
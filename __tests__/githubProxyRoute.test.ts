@@ -0,0 +1,133 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+import { DELETE, GET, PATCH, POST, PUT } from '../app/api/github/[...path]/route';
+import { PROXY_ERROR_HEADER } from '../utils/githubApiError';
+
+const ORIGIN = 'http://localhost:3000';
+const handlers = { GET, POST, PATCH, PUT, DELETE };
+
+type Method = keyof typeof handlers;
+
+// Calls the route like Next does: path segments arrive decoded, one per URL segment
+const proxy = (method: Method, path: string[], headers: Record<string, string> = { 'sec-fetch-site': 'same-origin' }) => {
+    const url = `${ORIGIN}/api/github/${path.map(encodeURIComponent).join('/')}`;
+    const request = new NextRequest(url, {
+        method,
+        headers,
+        body: method === 'GET' ? undefined : '{}'
+    });
+    return handlers[method](request, { params: Promise.resolve({ path }) });
+};
+
+let upstream: Mock<typeof fetch>;
+
+beforeEach(() => {
+    upstream = vi.fn<typeof fetch>(async () => Response.json({ ok: true }, { headers: { etag: '"abc"' } }));
+    vi.stubGlobal('fetch', upstream);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('GitHub proxy endpoint allowlist', () => {
+    it.each<[Method, string]>([
+        ['GET', 'repos/facebook/react/issues'],
+        ['GET', 'repos/facebook/react/issues/42/timeline'],
+        ['GET', 'repositories/10270250/issues'],
+        ['GET', 'repos/facebook/react/contents/.github/ISSUE_TEMPLATE/bug.yml'],
+        ['GET', 'search/issues'],
+        ['POST', 'repos/facebook/react/issues'],
+        ['POST', 'repos/facebook/react/issues/42/labels'],
+        ['PATCH', 'repos/facebook/react/issues/42'],
+        ['PUT', 'repos/facebook/react/issues/42/lock'],
+        ['DELETE', 'repos/facebook/react/issues/42/labels/needs triage']
+    ])('forwards %s %s', async (method, path) => {
+        const response = await proxy(method, path.split('/'));
+
+        expect(response.status).toBe(200);
+        expect(upstream).toHaveBeenCalledOnce();
+        expect(upstream.mock.calls[0][1]?.method).toBe(method);
+    });
+
+    it.each<[Method, string]>([
+        ['GET', 'user'],
+        ['GET', 'repos/facebook/react'],
+        ['GET', 'repos/facebook/react/actions/secrets'],
+        ['GET', 'orgs/facebook/members'],
+        ['POST', 'repos/facebook/react/issues/42/comments'],
+        ['POST', 'repos/facebook/react/forks'],
+        ['PATCH', 'repos/facebook/react'],
+        ['PUT', 'repos/facebook/react/issues/42/labels'],
+        ['DELETE', 'repos/facebook/react/issues/42'],
+        ['DELETE', 'repos/facebook/react']
+    ])('refuses %s %s', async (method, path) => {
+        const response = await proxy(method, path.split('/'));
+
+        expect(response.status).toBe(403);
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it('refuses . and .. segments', async () => {
+        expect((await proxy('GET', ['repos', 'facebook', 'react', 'issues', '..', '..', '..', '..', 'user'])).status).toBe(403);
+        expect((await proxy('GET', ['repos', 'facebook', '.', 'issues'])).status).toBe(403);
+        expect((await proxy('PATCH', ['repos', '..', 'react', 'issues', '42'])).status).toBe(403);
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it('keeps encoded slashes inside their segment', async () => {
+        // One segment cannot stand in for several, neither to match a pattern nor to reach GitHub
+        expect((await proxy('GET', ['repos', 'facebook/react', 'issues'])).status).toBe(403);
+        expect((await proxy('GET', ['repos', 'facebook', 'react/../../../user', 'issues'])).status).toBe(200);
+        expect(String(upstream.mock.calls[0][0])).toBe(
+            'https://api.github.com/repos/facebook/react%2F..%2F..%2F..%2Fuser/issues'
+        );
+    });
+});
+
+describe('GitHub proxy origin check', () => {
+    it('refuses reads and writes from other sites', async () => {
+        expect((await proxy('GET', ['repos', 'a', 'b', 'issues'], { 'sec-fetch-site': 'cross-site' })).status).toBe(403);
+        expect((await proxy('PATCH', ['repos', 'a', 'b', 'issues', '1'], { 'sec-fetch-site': 'cross-site' })).status).toBe(403);
+        expect((await proxy('POST', ['repos', 'a', 'b', 'issues'], { 'sec-fetch-site': 'same-site' })).status).toBe(403);
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it('falls back to Origin and Referer without Fetch Metadata', async () => {
+        expect((await proxy('PATCH', ['repos', 'a', 'b', 'issues', '1'], { origin: 'https://evil.example' })).status).toBe(403);
+        expect((await proxy('PATCH', ['repos', 'a', 'b', 'issues', '1'], { origin: ORIGIN })).status).toBe(200);
+        expect((await proxy('GET', ['repos', 'a', 'b', 'issues'], { referer: 'https://evil.example/page' })).status).toBe(403);
+        expect((await proxy('GET', ['repos', 'a', 'b', 'issues'], { referer: `${ORIGIN}/?owner=a` })).status).toBe(200);
+    });
+
+    it('refuses requests without any origin information', async () => {
+        expect((await proxy('GET', ['repos', 'a', 'b', 'issues'], {})).status).toBe(403);
+        expect((await proxy('DELETE', ['repos', 'a', 'b', 'issues', '1', 'lock'], {})).status).toBe(403);
+    });
+});
+
+describe('GitHub proxy responses', () => {
+    it('forwards caching headers and asks the browser to revalidate', async () => {
+        const response = await proxy('GET', ['repos', 'a', 'b', 'issues']);
+
+        expect(response.headers.get('etag')).toBe('"abc"');
+        expect(response.headers.get('cache-control')).toBe('private, no-cache');
+        expect(await response.json()).toEqual({ ok: true });
+    });
+
+    it.each([204, 304])('passes %i through without a body', async status => {
+        upstream.mockResolvedValueOnce(new Response(null, { status }));
+        const response = await proxy('GET', ['repos', 'a', 'b', 'issues']);
+
+        expect(response.status).toBe(status);
+        expect(response.body).toBeNull();
+    });
+
+    it('flags an unreachable GitHub as a network error', async () => {
+        upstream.mockRejectedValueOnce(new TypeError('fetch failed'));
+        const response = await proxy('GET', ['repos', 'a', 'b', 'issues']);
+
+        expect(response.status).toBe(502);
+        expect(response.headers.get(PROXY_ERROR_HEADER)).toBe('network');
+    });
+});
@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IssueRowActions } from '../components/IssueRowActions';
+import { apiClient } from '../config/axiosConfig';
+import { etagCache } from '../config/etagCache';
+import { githubIssuesService } from '../services/githubIssuesService';
+import { GitHubConflictError } from '../utils/githubApiError';
+import { GitHubIssue } from '../utils/types';
+import { makeIssue, mockAdapter } from './fixtures';
+
+const loaded = makeIssue({ number: 7, title: 'Crash on render', updated_at: '2024-05-01T10:00:00Z' });
+const remote = { ...loaded, title: 'Crash on first render', updated_at: '2024-05-01T11:00:00Z' };
+const detailKey = ['github-issue', 'facebook', 'react', 7];
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    cleanup();
+    etagCache.clear();
+    vi.restoreAllMocks();
+});
+
+describe('githubIssuesService.updateIssue', () => {
+    const patchAgainst = (current: GitHubIssue) => {
+        const adapter = mockAdapter(config => ({ status: 200, data: config.method === 'get' ? current : { ...current, state: 'closed' } }));
+        vi.spyOn(apiClient.defaults, 'adapter', 'get').mockReturnValue(adapter);
+        return adapter;
+    };
+
+    it('refuses the write with the remote issue when it changed since it was loaded', async () => {
+        const adapter = patchAgainst(remote);
+
+        const update = githubIssuesService.updateIssue('facebook', 'react', 7, { state: 'closed' }, {
+            expectedUpdatedAt: loaded.updated_at
+        });
+
+        await expect(update).rejects.toBeInstanceOf(GitHubConflictError);
+        await expect(update).rejects.toMatchObject({ status: 409, remoteIssue: remote });
+        expect(adapter.mock.calls.map(([config]) => config.method)).toEqual(['get']);
+    });
+
+    it('writes when the issue is unchanged, or without an expected version', async () => {
+        const adapter = patchAgainst(loaded);
+
+        await githubIssuesService.updateIssue('facebook', 'react', 7, { state: 'closed' }, {
+            expectedUpdatedAt: loaded.updated_at
+        });
+        await githubIssuesService.updateIssue('facebook', 'react', 7, { state: 'closed' });
+
+        expect(adapter.mock.calls.map(([config]) => config.method)).toEqual(['get', 'patch', 'patch']);
+    });
+});
+
+describe('IssueRowActions conflict dialog', () => {
+    let queryClient: QueryClient;
+
+    const closeAsCompleted = async () => {
+        render(
+            <QueryClientProvider client={queryClient}>
+                <IssueRowActions owner="facebook" repo="react" issue={loaded} />
+            </QueryClientProvider>
+        );
+        fireEvent.keyDown(screen.getByTitle('Actions for #7'), { key: 'Enter' });
+        fireEvent.click(await screen.findByText('Close as completed'));
+        await screen.findByText('Issue changed on GitHub');
+    };
+
+    beforeEach(() => {
+        queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+        queryClient.setQueryData(detailKey, loaded);
+        vi.stubGlobal('ResizeObserver', class {
+            observe() {}
+            unobserve() {}
+            disconnect() {}
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('reloads the remote version without writing', async () => {
+        const updateIssue = vi.spyOn(githubIssuesService, 'updateIssue')
+            .mockRejectedValue(new GitHubConflictError('changed', { status: 409, remoteIssue: remote }));
+
+        await closeAsCompleted();
+        fireEvent.click(screen.getByRole('button', { name: 'Reload' }));
+
+        await waitFor(() => expect(screen.queryByText('Issue changed on GitHub')).toBeNull());
+        expect(queryClient.getQueryData(detailKey)).toEqual(remote);
+        expect(updateIssue).toHaveBeenCalledOnce();
+    });
+
+    it('overwrites the remote version with the same change', async () => {
+        const updateIssue = vi.spyOn(githubIssuesService, 'updateIssue')
+            .mockRejectedValueOnce(new GitHubConflictError('changed', { status: 409, remoteIssue: remote }))
+            .mockResolvedValueOnce({ ...remote, state: 'closed' });
+
+        await closeAsCompleted();
+        fireEvent.click(screen.getByRole('button', { name: 'Overwrite' }));
+
+        await waitFor(() => expect(updateIssue).toHaveBeenCalledTimes(2));
+        const updates = { state: 'closed', state_reason: 'completed' };
+        expect(updateIssue.mock.calls[0]).toEqual(['facebook', 'react', 7, updates, { expectedUpdatedAt: loaded.updated_at }]);
+        expect(updateIssue.mock.calls[1]).toEqual(['facebook', 'react', 7, updates, { expectedUpdatedAt: undefined }]);
+        await waitFor(() => expect(queryClient.getQueryData(detailKey)).toMatchObject({ title: remote.title, state: 'closed' }));
+        expect(screen.queryByText('Issue changed on GitHub')).toBeNull();
+    });
+});
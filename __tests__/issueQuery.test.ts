@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { getIssueQueryType, matchesIssueQuery, parseIssueQuery, planIssueQuery } from '../utils/issueQuery';
+import { ASSIGNEE_ANY, ASSIGNEE_NONE, MILESTONE_NONE } from '../utils/issueFilters';
+import { makeIssue } from './fixtures';
+
+const parse = (input: string) => parseIssueQuery(input);
+
+describe('parseIssueQuery', () => {
+    it('parses qualifiers, negation and free text', () => {
+        const { nodes, errors } = parse('is:open -label:wontfix author:gaearon crash');
+
+        expect(errors).toEqual([]);
+        expect(nodes).toEqual([
+            { type: 'is', value: 'open', negated: false, span: { start: 0, end: 7 } },
+            { type: 'label', value: 'wontfix', negated: true, span: { start: 8, end: 22 } },
+            { type: 'author', value: 'gaearon', negated: false, span: { start: 23, end: 37 } },
+            { type: 'text', value: 'crash', quoted: false, negated: false, span: { start: 38, end: 43 } }
+        ]);
+    });
+
+    it('keeps quoted values and phrases together', () => {
+        const { nodes } = parse('label:"good first issue" "exact phrase"');
+
+        expect(nodes.map(node => node.type === 'label' || node.type === 'text' ? node.value : null))
+            .toEqual(['good first issue', 'exact phrase']);
+        expect(nodes[1]).toMatchObject({ type: 'text', quoted: true });
+    });
+
+    it('maps none values and state: to their canonical nodes', () => {
+        const { nodes } = parse('assignee:none milestone:NONE state:Closed');
+
+        expect(nodes).toMatchObject([
+            { type: 'no', value: 'assignee' },
+            { type: 'no', value: 'milestone' },
+            { type: 'is', value: 'closed' }
+        ]);
+    });
+
+    it('parses comparisons and ranges', () => {
+        const { nodes } = parse('comments:>10 comments:1..5 created:>=2024-01-01 updated:*..2024-03-31');
+
+        expect(nodes).toMatchObject([
+            { type: 'comments', comparison: { operator: '>', value: 10 } },
+            { type: 'comments', comparison: { operator: 'range', from: 1, to: 5 } },
+            { type: 'created', comparison: { operator: '>=' } },
+            { type: 'updated', comparison: { operator: '<=' } }
+        ]);
+    });
+
+    it('treats unknown keys as free text, like GitHub', () => {
+        const { nodes, errors } = parse('TypeError: https://example.com/a foo:bar');
+
+        expect(errors).toEqual([]);
+        expect(nodes.map(node => node.type)).toEqual(['text', 'text', 'text']);
+        expect(nodes[1]).toMatchObject({ value: 'https://example.com/a' });
+    });
+
+    it('reports invalid terms with their span and leaves them out', () => {
+        const { nodes, errors } = parse('is:nope comments:lots label: bug');
+
+        expect(nodes).toMatchObject([{ type: 'text', value: 'bug' }]);
+        expect(errors).toEqual([
+            { message: '"is:" expects open, closed, issue, pr', span: { start: 0, end: 7 } },
+            { message: '"comments:" expects a number, e.g. >10 or 5..20', span: { start: 8, end: 21 } },
+            { message: 'Missing value for "label:"', span: { start: 22, end: 28 } }
+        ]);
+    });
+
+    it('reports an unterminated quote from the quote onwards', () => {
+        const { nodes, errors } = parse('bug label:"good first');
+
+        expect(nodes).toHaveLength(1);
+        expect(errors).toEqual([{ message: 'Unterminated quote', span: { start: 10, end: 21 } }]);
+    });
+});
+
+describe('planIssueQuery', () => {
+    it('pushes supported qualifiers to the server and keeps the rest client-side', () => {
+        const plan = planIssueQuery(parse('is:closed label:bug label:ui author:a comments:>3 crash'));
+
+        expect(plan.server).toEqual({ state: 'closed', labels: ['bug', 'ui'], creator: 'a' });
+        expect(plan.clientNodes.map(node => node.type)).toEqual(['comments', 'text']);
+    });
+
+    it('maps no: qualifiers and their negations', () => {
+        expect(planIssueQuery(parse('no:assignee no:milestone')).server)
+            .toEqual({ assignee: ASSIGNEE_NONE, milestone: MILESTONE_NONE });
+        expect(planIssueQuery(parse('-no:assignee')).server).toEqual({ assignee: ASSIGNEE_ANY });
+    });
+
+    it('turns updated:>= and updated:> into since', () => {
+        const inclusive = planIssueQuery(parse('updated:>=2024-03-01')).server.since;
+        const exclusive = planIssueQuery(parse('updated:>2024-03-01')).server.since;
+
+        expect(new Date(inclusive!).getDate()).toBe(1);
+        expect(new Date(exclusive!).getDate()).toBe(2);
+        expect(planIssueQuery(parse('updated:<2024-03-01')).server.since).toBeUndefined();
+    });
+
+    it('leaves parameters set by a filter control, repeated or negated, to the client', () => {
+        const plan = planIssueQuery(parse('author:a author:b -label:bug assignee:c'), { assignee: true });
+
+        expect(plan.server).toEqual({});
+        expect(plan.clientNodes).toHaveLength(4);
+    });
+});
+
+describe('getIssueQueryType', () => {
+    it('reads is:issue, is:pr and their negations', () => {
+        expect(getIssueQueryType(parse('is:pr'))).toBe('prs');
+        expect(getIssueQueryType(parse('is:issue'))).toBe('issues');
+        expect(getIssueQueryType(parse('-is:pr is:open'))).toBe('issues');
+        expect(getIssueQueryType(parse('-is:issue'))).toBe('prs');
+    });
+
+    it('is undefined without a type or with contradicting ones', () => {
+        expect(getIssueQueryType(parse('is:open bug'))).toBeUndefined();
+        expect(getIssueQueryType(parse('is:pr is:issue'))).toBeUndefined();
+    });
+});
+
+describe('matchesIssueQuery', () => {
+    const issue = makeIssue({
+        title: 'Crash when rendering',
+        body: 'Reported by @dan',
+        labels: ['bug', 'Needs Triage'],
+        assignees: ['sophie'],
+        comments: 12,
+        // Local time, so day comparisons hold in any time zone
+        created_at: '2024-02-10T12:00:00'
+    });
+    const matches = (input: string) => matchesIssueQuery(issue, parse(input).nodes);
+
+    it('ANDs terms and honours negation', () => {
+        expect(matches('crash label:bug')).toBe(true);
+        expect(matches('crash -label:bug')).toBe(false);
+        expect(matches('label:"needs triage" assignee:Sophie mentions:dan')).toBe(true);
+        expect(matches('no:milestone -no:assignee is:issue')).toBe(true);
+        expect(matches('is:pr')).toBe(false);
+    });
+
+    it('compares counts and whole days', () => {
+        expect(matches('comments:>10 comments:10..12')).toBe(true);
+        expect(matches('comments:<12')).toBe(false);
+        expect(matches('created:2024-02-10 created:>2024-02-09 created:<=2024-02-10')).toBe(true);
+        expect(matches('created:>2024-02-10')).toBe(false);
+    });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { editDistance, highlightTerms, IssueSearchIndex, SearchDocument, SearchTerm, tokenize } from '../utils/issueSearchIndex';
+
+const doc = (number: number, fields: Partial<SearchDocument> = {}): SearchDocument => ({
+    number,
+    title: '',
+    body: '',
+    labels: [],
+    author: 'octocat',
+    ...fields
+});
+
+const words = (...texts: string[]): SearchTerm[] => texts.map(text => ({ text, quoted: false }));
+const phrase = (text: string): SearchTerm[] => [{ text, quoted: true }];
+
+describe('tokenize', () => {
+    it('lowercases, strips diacritics and splits on non-word characters', () => {
+        expect(tokenize('Café crashes: useEffect() in v19_rc!')).toEqual(['cafe', 'crashes', 'useeffect', 'in', 'v19_rc']);
+    });
+});
+
+describe('editDistance', () => {
+    it('counts insertions, deletions, substitutions and swaps', () => {
+        expect(editDistance('hydration', 'hydration', 2)).toBe(0);
+        expect(editDistance('hyrdation', 'hydration', 2)).toBe(1);
+        expect(editDistance('hydraton', 'hydration', 2)).toBe(1);
+        expect(editDistance('hidratiom', 'hydration', 2)).toBe(2);
+    });
+
+    it('gives up once the distance must exceed max', () => {
+        expect(editDistance('render', 'rendering', 2)).toBeNull();
+        expect(editDistance('abcd', 'wxyz', 2)).toBeNull();
+    });
+});
+
+describe('highlightTerms', () => {
+    it('marks whole words whose tokens matched, case and accents aside', () => {
+        expect(highlightTerms('Fix Café rendering', new Set(['cafe', 'render']))).toEqual([
+            { text: 'Fix ', match: false },
+            { text: 'Café', match: true },
+            { text: ' rendering', match: false }
+        ]);
+    });
+
+    it('returns the text as one run without matches', () => {
+        expect(highlightTerms('Nothing here', new Set(['bug']))).toEqual([{ text: 'Nothing here', match: false }]);
+    });
+});
+
+describe('IssueSearchIndex', () => {
+    let index: IssueSearchIndex;
+
+    beforeEach(() => {
+        index = new IssueSearchIndex();
+        index.upsert([
+            doc(1, { title: 'Hydration mismatch in Suspense', body: 'Server HTML differs' }),
+            doc(2, { title: 'Docs typo', body: 'The hydration guide has a broken link', labels: ['documentation'] }),
+            doc(3, { title: 'Crash on render', labels: ['bug'], author: 'gaearon' })
+        ]);
+    });
+
+    const numbers = (terms: SearchTerm[], maxTypos: 0 | 1 | 2 = 0) => index.search(terms, maxTypos).hits.map(hit => hit.number);
+
+    it('ANDs words and ranks title matches above body matches', () => {
+        expect(numbers(words('hydration'))).toEqual([1, 2]);
+        expect(numbers(words('hydration', 'link'))).toEqual([2]);
+        expect(numbers(words('hydration', 'crash'))).toEqual([]);
+    });
+
+    it('searches labels and authors and reports the fields that matched', () => {
+        const [hit] = index.search(words('gaearon', 'bug')).hits;
+        expect(hit).toMatchObject({ number: 3, fields: ['labels', 'author'] });
+    });
+
+    it('matches unquoted words as prefixes from two characters', () => {
+        expect(numbers(words('hydr'))).toEqual([1, 2]);
+        expect(numbers(words('doc'))).toEqual([2]);
+        expect(numbers(words('h'))).toEqual([]);
+    });
+
+    it('matches quoted phrases in order only', () => {
+        expect(numbers(phrase('hydration guide'))).toEqual([2]);
+        expect(numbers(phrase('guide hydration'))).toEqual([]);
+        // No prefix expansion inside quotes
+        expect(numbers(phrase('hydr'))).toEqual([]);
+    });
+
+    it('tolerates typos only when asked to, and fewer for short words', () => {
+        expect(numbers(words('hyrdation'))).toEqual([]);
+        expect(numbers(words('hyrdation'), 1)).toEqual([1, 2]);
+        expect(numbers(words('hidratiom'), 1)).toEqual([]);
+        expect(numbers(words('hidratiom'), 2)).toEqual([1, 2]);
+        // Under four characters words must match exactly or as a prefix
+        expect(numbers(words('bgu'), 2)).toEqual([]);
+    });
+
+    it('ranks exact matches above fuzzy ones and returns matched words for highlighting', () => {
+        index.upsert([doc(4, { title: 'Render crash' })]);
+        const result = index.search(words('crash'), 1);
+
+        expect(result.hits.map(hit => hit.number)).toEqual([4, 3]);
+        expect(result.matchedTerms).toEqual(['crash']);
+        expect(index.search(words('crsh'), 1).matchedTerms).toContain('crash');
+    });
+
+    it('snippets the body when the title did not match', () => {
+        const [hit] = index.search(words('broken')).hits;
+        expect(hit.snippet).toEqual({ field: 'body', text: 'The hydration guide has a broken link' });
+        expect(index.search(words('suspense')).hits[0].snippet).toBeUndefined();
+    });
+
+    it('replaces updated issues and keeps their comments', () => {
+        index.setComments(3, ['Happens with concurrent mode too']);
+        index.upsert([doc(3, { title: 'Crash on commit', labels: ['bug'] })]);
+
+        expect(numbers(words('render'))).toEqual([]);
+        expect(numbers(words('commit'))).toEqual([3]);
+        expect(index.search(words('concurrent')).hits[0]).toMatchObject({ number: 3, fields: ['comments'] });
+    });
+
+    it('indexes comments that arrive before their issue', () => {
+        index.setComments(5, ['Workaround: pin the version']);
+        index.upsert([doc(5, { title: 'Build fails' })]);
+
+        expect(numbers(words('workaround'))).toEqual([5]);
+    });
+});
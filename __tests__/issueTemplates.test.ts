@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildIssueFormSchema, defaultIssueFormAnswers, parseIssueTemplate, serializeIssueForm } from '../utils/issueTemplates';
+import { IssueFormElement } from '../utils/types';
+
+const BUG_FORM = `
+name: Bug report
+description: Something is broken
+title: "[Bug]: "
+labels: [bug, triage]
+body:
+  - type: markdown
+    attributes:
+      value: Thanks for reporting!
+  - type: input
+    id: version
+    attributes:
+      label: Version
+      placeholder: 19.0.0
+    validations:
+      required: true
+  - type: textarea
+    attributes:
+      label: Logs
+      render: shell
+  - type: dropdown
+    attributes:
+      label: Browsers
+      options: [Chrome, Firefox, Safari]
+      multiple: true
+      default: 1
+  - type: checkboxes
+    attributes:
+      label: Checklist
+      options:
+        - label: I searched existing issues
+          required: true
+        - label: I can reproduce it
+  - type: unsupported
+`;
+
+describe('parseIssueTemplate', () => {
+    it('reads front matter and body of markdown templates', () => {
+        const template = parseIssueTemplate('feature.md', [
+            '---',
+            'name: Feature request',
+            'about: Suggest an idea',
+            'title: "[Feature] "',
+            'labels: enhancement, needs triage',
+            'assignees: [gaearon]',
+            '---',
+            '## Motivation',
+            ''
+        ].join('\n'));
+
+        expect(template).toEqual({
+            kind: 'markdown',
+            fileName: 'feature.md',
+            name: 'Feature request',
+            about: 'Suggest an idea',
+            title: '[Feature] ',
+            labels: ['enhancement', 'needs triage'],
+            assignees: ['gaearon'],
+            body: '## Motivation\n'
+        });
+    });
+
+    it('names markdown templates without front matter after the file', () => {
+        expect(parseIssueTemplate('question.md', 'Ask away')).toMatchObject({ name: 'question', body: 'Ask away' });
+    });
+
+    it('parses issue forms and drops unknown elements', () => {
+        const template = parseIssueTemplate('bug.yml', BUG_FORM);
+
+        expect(template).toMatchObject({
+            kind: 'form',
+            name: 'Bug report',
+            about: 'Something is broken',
+            title: '[Bug]: ',
+            labels: ['bug', 'triage']
+        });
+        expect(template?.kind === 'form' && template.body.map(element => element.type))
+            .toEqual(['markdown', 'input', 'textarea', 'dropdown', 'checkboxes']);
+    });
+
+    it('skips config files, other extensions and invalid YAML', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(parseIssueTemplate('config.yml', 'blank_issues_enabled: false')).toBeNull();
+        expect(parseIssueTemplate('README.txt', 'hello')).toBeNull();
+        expect(parseIssueTemplate('broken.yaml', 'body: [unclosed')).toBeNull();
+
+        warn.mockRestore();
+    });
+});
+
+describe('issue forms', () => {
+    const template = parseIssueTemplate('bug.yml', BUG_FORM);
+    const elements: IssueFormElement[] = template?.kind === 'form' ? template.body : [];
+
+    it('starts from values and dropdown defaults', () => {
+        expect(defaultIssueFormAnswers(elements)).toEqual({
+            field_1: '',
+            field_2: '',
+            field_3: ['Firefox'],
+            field_4: [false, false]
+        });
+    });
+
+    it('enforces required fields and checkbox options', () => {
+        const schema = buildIssueFormSchema(elements);
+        const answers = defaultIssueFormAnswers(elements);
+
+        expect(schema.safeParse(answers).success).toBe(false);
+        expect(schema.safeParse({ ...answers, field_1: '19.1.0', field_4: [true, false] }).success).toBe(true);
+        expect(schema.safeParse({ ...answers, field_1: '  ', field_4: [true, false] }).success).toBe(false);
+    });
+
+    it('serializes answers like GitHub', () => {
+        const body = serializeIssueForm(elements, {
+            field_1: '19.1.0',
+            field_2: 'TypeError: x is undefined',
+            field_3: [],
+            field_4: [true, false]
+        });
+
+        expect(body).toBe([
+            '### Version',
+            '',
+            '19.1.0',
+            '',
+            '### Logs',
+            '',
+            '```shell',
+            'TypeError: x is undefined',
+            '```',
+            '',
+            '### Browsers',
+            '',
+            '_No response_',
+            '',
+            '### Checklist',
+            '',
+            '- [X] I searched existing issues',
+            '- [ ] I can reproduce it'
+        ].join('\n'));
+    });
+});
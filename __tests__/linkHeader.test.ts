@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getCursorParam, PageCursor, parseLinkHeader, toPageCursor } from '../utils/linkHeader';
+
+describe('parseLinkHeader', () => {
+    it('reads every known rel', () => {
+        const header = [
+            '<https://api.github.com/repositories/1/issues?page=3>; rel="next"',
+            '<https://api.github.com/repositories/1/issues?page=1>; rel="prev"',
+            '<https://api.github.com/repositories/1/issues?page=1>; rel="first"',
+            '<https://api.github.com/repositories/1/issues?page=9>; rel="last"'
+        ].join(', ');
+
+        expect(parseLinkHeader(header)).toEqual({
+            next: 'https://api.github.com/repositories/1/issues?page=3',
+            prev: 'https://api.github.com/repositories/1/issues?page=1',
+            first: 'https://api.github.com/repositories/1/issues?page=1',
+            last: 'https://api.github.com/repositories/1/issues?page=9'
+        });
+    });
+
+    it('splits space separated rels and ignores unknown ones', () => {
+        const header = '<https://api.github.com/x?page=2>; rel="next last", <https://api.github.com/y>; rel="alternate"';
+        expect(parseLinkHeader(header)).toEqual({
+            next: 'https://api.github.com/x?page=2',
+            last: 'https://api.github.com/x?page=2'
+        });
+    });
+
+    it('returns no links without a header or for malformed parts', () => {
+        expect(parseLinkHeader(null)).toEqual({});
+        expect(parseLinkHeader(undefined)).toEqual({});
+        expect(parseLinkHeader('garbage; rel=next')).toEqual({});
+    });
+});
+
+describe('toPageCursor', () => {
+    it('keeps the path and query relative to the API root', () => {
+        expect(toPageCursor('https://api.github.com/repositories/10270250/issues?state=open&page=2'))
+            .toBe('/repositories/10270250/issues?state=open&page=2');
+    });
+
+    it('strips the GitHub Enterprise API prefix', () => {
+        expect(toPageCursor('https://github.example.com/api/v3/repos/a/b/issues?page=4'))
+            .toBe('/repos/a/b/issues?page=4');
+    });
+
+    it('returns null without a URL or for an invalid one', () => {
+        expect(toPageCursor(undefined)).toBeNull();
+        expect(toPageCursor('not a url')).toBeNull();
+    });
+});
+
+describe('getCursorParam', () => {
+    const cursor = '/repositories/1/issues?per_page=100&page=7' as PageCursor;
+
+    it('reads numeric query parameters', () => {
+        expect(getCursorParam(cursor, 'page')).toBe(7);
+        expect(getCursorParam(cursor, 'per_page')).toBe(100);
+    });
+
+    it('returns undefined for missing or non-numeric parameters', () => {
+        expect(getCursorParam(cursor, 'since')).toBeUndefined();
+        expect(getCursorParam('/repositories/1/issues' as PageCursor, 'page')).toBeUndefined();
+        expect(getCursorParam('/x?after=abc' as PageCursor, 'after')).toBeUndefined();
+    });
+});
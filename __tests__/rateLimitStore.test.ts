@@ -0,0 +1,126 @@
+import { AxiosHeaders } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiClient } from '../config/axiosConfig';
+import { parseRateLimitHeaders, RateLimitInfo, rateLimitStore } from '../config/rateLimitStore';
+import { mockAdapter } from './fixtures';
+
+const NOW = new Date('2024-05-01T10:00:00Z').getTime();
+const RESET = NOW / 1000 + 600;
+
+const info = (resource: string, remaining: number, resetAt = RESET * 1000): RateLimitInfo => ({
+    resource,
+    limit: 60,
+    remaining,
+    used: 60 - remaining,
+    resetAt,
+    updatedAt: NOW
+});
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('parseRateLimitHeaders', () => {
+    it('reads the budget from plain and axios headers', () => {
+        const headers = {
+            'x-ratelimit-limit': '30',
+            'x-ratelimit-remaining': '12',
+            'x-ratelimit-reset': String(RESET),
+            'x-ratelimit-resource': 'search'
+        };
+
+        expect(parseRateLimitHeaders(headers)).toEqual({
+            resource: 'search',
+            limit: 30,
+            remaining: 12,
+            used: 18,
+            resetAt: RESET * 1000,
+            updatedAt: NOW
+        });
+
+        const axiosHeaders = new AxiosHeaders({
+            'X-RateLimit-Limit': '60',
+            'X-RateLimit-Remaining': '1',
+            'X-RateLimit-Reset': '1',
+            'X-RateLimit-Used': '59'
+        });
+        expect(parseRateLimitHeaders(axiosHeaders)).toMatchObject({ resource: 'core', used: 59 });
+    });
+
+    it('is null without rate-limit headers', () => {
+        expect(parseRateLimitHeaders(undefined)).toBeNull();
+        expect(parseRateLimitHeaders({ 'x-ratelimit-limit': '60' })).toBeNull();
+    });
+});
+
+describe('rateLimitStore', () => {
+    it('keeps the latest budget per resource and notifies subscribers', () => {
+        const listener = vi.fn();
+        const unsubscribe = rateLimitStore.subscribe(listener);
+
+        rateLimitStore.update(info('store-a', 10));
+        rateLimitStore.update(info('store-b', 5));
+        unsubscribe();
+
+        expect(rateLimitStore.get('store-a')?.remaining).toBe(10);
+        expect(rateLimitStore.getSnapshot()['store-b']?.remaining).toBe(5);
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores an out-of-order response from the same window', () => {
+        rateLimitStore.update(info('order', 10));
+        rateLimitStore.update(info('order', 11));
+        expect(rateLimitStore.get('order')?.remaining).toBe(10);
+
+        // A new window may raise the budget again
+        rateLimitStore.update(info('order', 59, (RESET + 3600) * 1000));
+        expect(rateLimitStore.get('order')?.remaining).toBe(59);
+    });
+
+    it('reports exhaustion until the reset and replenishes locally then', () => {
+        rateLimitStore.update(info('exhausted', 0));
+
+        expect(rateLimitStore.isExhausted('exhausted')).toBe(true);
+        expect(rateLimitStore.msUntilReset('exhausted')).toBe(600 * 1000);
+
+        vi.advanceTimersByTime(600 * 1000);
+
+        expect(rateLimitStore.isExhausted('exhausted')).toBe(false);
+        expect(rateLimitStore.get('exhausted')).toMatchObject({ remaining: 60, used: 0 });
+    });
+
+    it('does not replenish a window that was replaced in the meantime', () => {
+        rateLimitStore.update(info('replaced', 0));
+        rateLimitStore.update(info('replaced', 0, (RESET + 3600) * 1000));
+
+        vi.advanceTimersByTime(600 * 1000);
+
+        expect(rateLimitStore.isExhausted('replaced')).toBe(true);
+    });
+});
+
+describe('apiClient rate-limit recording', () => {
+    const headers = (remaining: number) => ({
+        'x-ratelimit-limit': '60',
+        'x-ratelimit-remaining': String(remaining),
+        'x-ratelimit-reset': String(RESET),
+        'x-ratelimit-resource': 'recorded'
+    });
+
+    it('records the budget from successful and failed responses', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        await apiClient.get('/repos/facebook/react/labels', { adapter: mockAdapter(() => ({ status: 200, headers: headers(42) })) });
+        expect(rateLimitStore.get('recorded')?.remaining).toBe(42);
+
+        const notFound = apiClient.get('/repos/facebook/missing/labels', { adapter: mockAdapter(() => ({ status: 404, headers: headers(41) })) });
+        await expect(notFound).rejects.toThrow();
+        expect(rateLimitStore.get('recorded')?.remaining).toBe(41);
+    });
+});
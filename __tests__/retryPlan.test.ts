@@ -0,0 +1,148 @@
+import { AxiosError, AxiosHeaders, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiClient, getBackoffDelay, getRetryPlan } from '../config/axiosConfig';
+import { retryStatusStore } from '../config/retryStatusStore';
+import { PROXY_ERROR_HEADER } from '../utils/githubApiError';
+import { mockAdapter } from './fixtures';
+
+const NOW = new Date('2024-05-01T10:00:00Z').getTime();
+
+const failure = (method: string, status?: number, headers: Record<string, string> = {}, data: object = {}) => {
+    const config: InternalAxiosRequestConfig = { method, url: '/repos/facebook/react/issues', headers: new AxiosHeaders() };
+    return new AxiosError('Request failed', undefined, config, undefined, status === undefined ? undefined : {
+        status,
+        statusText: '',
+        data,
+        headers,
+        config
+    });
+};
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    // Backoff jitter at its maximum: base * 2^(attempt - 1)
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('getBackoffDelay', () => {
+    it('doubles per attempt up to the max delay', () => {
+        expect([1, 2, 3].map(attempt => getBackoffDelay(attempt))).toEqual([1000, 2000, 4000]);
+        expect(getBackoffDelay(10)).toBe(30 * 1000);
+    });
+});
+
+describe('getRetryPlan', () => {
+    it('does not retry cancelled requests', () => {
+        expect(getRetryPlan(new CanceledError() as AxiosError, 1)).toBeNull();
+    });
+
+    it('retries network failures of idempotent requests only', () => {
+        expect(getRetryPlan(failure('get'), 2)).toEqual({ reason: 'network', delay: 2000 });
+        expect(getRetryPlan(failure('patch'), 1)).toBeNull();
+
+        const unreachable = { [PROXY_ERROR_HEADER]: 'network' };
+        expect(getRetryPlan(failure('get', 502, unreachable), 1)).toEqual({ reason: 'network', delay: 1000 });
+        expect(getRetryPlan(failure('post', 502, unreachable), 1)).toBeNull();
+    });
+
+    it('waits out secondary rate limits for Retry-After, or 60 seconds without one', () => {
+        expect(getRetryPlan(failure('get', 403, { 'retry-after': '30' }), 1))
+            .toEqual({ reason: 'secondary-rate-limit', delay: 30 * 1000 });
+        expect(getRetryPlan(failure('post', 429, {}, { message: 'You have exceeded a secondary rate limit' }), 1))
+            .toEqual({ reason: 'secondary-rate-limit', delay: 60 * 1000 });
+        // Never sooner than the backoff
+        expect(getRetryPlan(failure('get', 403, { 'retry-after': '0' }), 3))
+            .toEqual({ reason: 'secondary-rate-limit', delay: 4000 });
+    });
+
+    it('waits for the primary rate limit to reset', () => {
+        const reset = String(NOW / 1000 + 90);
+
+        expect(getRetryPlan(failure('get', 403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }), 1))
+            .toEqual({ reason: 'rate-limited', delay: 91 * 1000 });
+        expect(getRetryPlan(failure('get', 429, { 'x-ratelimit-remaining': '0' }), 1)).toBeNull();
+        // A 403 with budget left is a permission error
+        expect(getRetryPlan(failure('get', 403, { 'x-ratelimit-remaining': '10', 'x-ratelimit-reset': reset }), 1)).toBeNull();
+    });
+
+    it('retries transient server errors of idempotent requests only', () => {
+        expect(getRetryPlan(failure('get', 503), 1)).toEqual({ reason: 'server', delay: 1000 });
+        expect(getRetryPlan(failure('head', 500, { 'retry-after': '5' }), 1)).toEqual({ reason: 'server', delay: 5000 });
+        expect(getRetryPlan(failure('patch', 502), 1)).toBeNull();
+        expect(getRetryPlan(failure('get', 501), 1)).toBeNull();
+    });
+
+    it('does not retry client errors', () => {
+        expect(getRetryPlan(failure('get', 404), 1)).toBeNull();
+        expect(getRetryPlan(failure('post', 422), 1)).toBeNull();
+    });
+});
+
+describe('apiClient retries', () => {
+    it('retries with backoff and reports the pending retry', async () => {
+        let calls = 0;
+        const adapter = mockAdapter(() => ++calls < 3 ? { status: 502 } : { status: 200, data: ['ok'] });
+
+        const request = apiClient.get('/repos/facebook/react/labels', { adapter });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(retryStatusStore.getSnapshot()).toMatchObject([{ reason: 'server', attempt: 1, maxRetries: 3 }]);
+
+        await vi.advanceTimersByTimeAsync(1000 + 2000);
+
+        await expect(request).resolves.toMatchObject({ data: ['ok'] });
+        expect(adapter).toHaveBeenCalledTimes(3);
+        expect(retryStatusStore.getSnapshot()).toEqual([]);
+    });
+
+    it('gives up after the maximum number of retries', async () => {
+        const adapter = mockAdapter(() => ({ status: 503 }));
+
+        const request = apiClient.get('/repos/facebook/react/labels', { adapter });
+        const settled = expect(request).rejects.toMatchObject({ response: { status: 503 } });
+        await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+
+        await settled;
+        expect(adapter).toHaveBeenCalledTimes(4);
+    });
+
+    it('fails at once when the rate limit resets after the two-minute cap', async () => {
+        const reset = String(NOW / 1000 + 10 * 60);
+        const adapter = mockAdapter(() => ({ status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset } }));
+
+        await expect(apiClient.get('/repos/facebook/react/labels', { adapter })).rejects.toMatchObject({
+            response: { status: 403 }
+        });
+        expect(adapter).toHaveBeenCalledOnce();
+    });
+
+    it('waits for a rate limit that resets within the cap', async () => {
+        const reset = String(NOW / 1000 + 60);
+        let calls = 0;
+        const adapter = mockAdapter(() => ++calls === 1
+            ? { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset } }
+            : { status: 200, data: [] });
+
+        const request = apiClient.get('/repos/facebook/react/labels', { adapter });
+        await vi.advanceTimersByTimeAsync(61 * 1000);
+
+        await expect(request).resolves.toMatchObject({ status: 200 });
+        expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry writes or requests that opted out', async () => {
+        const patch = mockAdapter(() => ({ status: 502 }));
+        await expect(apiClient.patch('/repos/facebook/react/issues/1', {}, { adapter: patch })).rejects.toThrow();
+        expect(patch).toHaveBeenCalledOnce();
+
+        const optedOut = mockAdapter(() => ({ status: 502 }));
+        await expect(apiClient.get('/repos/facebook/react/labels', { adapter: optedOut, retry: false })).rejects.toThrow();
+        expect(optedOut).toHaveBeenCalledOnce();
+    });
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { apiClient } from '../config/axiosConfig';
+import { etagCache } from '../config/etagCache';
+import { githubIssuesService } from '../services/githubIssuesService';
+import { makeIssue, mockAdapter } from './fixtures';
+
+// A search with totalCount matches, served 100 per page as GitHub does
+const searchAdapter = (totalCount: number) => mockAdapter(config => {
+    const { page, per_page } = config.params;
+    const first = (page - 1) * per_page + 1;
+    const count = Math.max(0, Math.min(per_page, totalCount - first + 1));
+    return {
+        status: 200,
+        data: {
+            total_count: totalCount,
+            incomplete_results: false,
+            items: Array.from({ length: count }, (_, index) => makeIssue({ number: first + index }))
+        }
+    };
+});
+
+afterEach(() => {
+    etagCache.clear();
+    vi.restoreAllMocks();
+});
+
+describe('githubIssuesService.searchAllRepoIssues', () => {
+    it('collects every page of matches with the table filters as qualifiers', async () => {
+        const adapter = searchAdapter(250);
+        vi.spyOn(apiClient.defaults, 'adapter', 'get').mockReturnValue(adapter);
+
+        const issues = await githubIssuesService.searchAllRepoIssues('facebook', 'react', 'crash', 'open', 'issues', {
+            labels: ['bug']
+        });
+
+        expect(issues.map(issue => issue.number)).toEqual(Array.from({ length: 250 }, (_, index) => index + 1));
+        expect(adapter.mock.calls.map(([config]) => config.params.page)).toEqual([1, 2, 3]);
+        expect(adapter.mock.calls[0][0].params).toMatchObject({
+            q: 'crash repo:facebook/react is:issue is:open label:"bug"',
+            per_page: 100
+        });
+    });
+
+    it('stops at the search result limit', async () => {
+        const adapter = searchAdapter(5000);
+        vi.spyOn(apiClient.defaults, 'adapter', 'get').mockReturnValue(adapter);
+
+        const issues = await githubIssuesService.searchAllRepoIssues('facebook', 'react', '', 'all', 'both');
+
+        expect(issues).toHaveLength(1000);
+        expect(adapter).toHaveBeenCalledTimes(10);
+    });
+});
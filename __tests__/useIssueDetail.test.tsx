@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { apiClient } from '../config/axiosConfig';
+import { etagCache } from '../config/etagCache';
+import { useIssueDetail } from '../hooks/useIssueDetail';
+import { makeIssue, mockAdapter, MockResponse } from './fixtures';
+
+const TIMELINE_URL = 'https://api.github.com/repositories/1/issues/7/timeline';
+const actor = { id: 1, login: 'octocat', avatar_url: '', html_url: '' };
+
+// Raw timeline pages as GitHub sends them, the middle one with only kinds the drawer does not render
+const timelinePages: Record<string, MockResponse> = {
+    1: {
+        status: 200,
+        data: [{ event: 'labeled', actor, created_at: '2024-05-01T09:00:00Z', label: { name: 'bug', color: 'd73a4a' } }],
+        headers: { link: `<${TIMELINE_URL}?page=2>; rel="next"` }
+    },
+    2: {
+        status: 200,
+        data: [
+            { event: 'subscribed', actor, created_at: '2024-05-01T10:30:00Z' },
+            { event: 'mentioned', actor, created_at: '2024-05-01T10:31:00Z' }
+        ],
+        headers: { link: `<${TIMELINE_URL}?page=3>; rel="next"` }
+    },
+    3: {
+        status: 200,
+        data: [{ event: 'reopened', actor, created_at: '2024-05-01T11:00:00Z' }]
+    }
+};
+
+const comment = {
+    id: 1,
+    node_id: 'C_1',
+    body: 'Still happens',
+    created_at: '2024-05-01T10:00:00Z',
+    updated_at: '2024-05-01T10:00:00Z',
+    html_url: '',
+    author_association: 'NONE',
+    user: null
+};
+
+const adapter = mockAdapter(config => {
+    const url = config.url ?? '';
+    if (url.includes('/timeline')) {
+        return timelinePages[new URLSearchParams(url.split('?')[1]).get('page') ?? '1'];
+    }
+    if (url.endsWith('/comments')) return { status: 200, data: [comment] };
+    return { status: 200, data: makeIssue({ number: 7 }) };
+});
+
+afterEach(() => {
+    etagCache.clear();
+    vi.restoreAllMocks();
+});
+
+describe('useIssueDetail', () => {
+    it('skips timeline pages without rendered events when loading more activity', async () => {
+        vi.spyOn(apiClient.defaults, 'adapter', 'get').mockReturnValue(adapter);
+        const queryClient = new QueryClient();
+        const wrapper = ({ children }: { children: ReactNode }) => (
+            <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+        );
+
+        const { result } = renderHook(() => useIssueDetail({ owner: 'facebook', repo: 'react', issueNumber: 7 }), { wrapper });
+
+        // The comment may come after events on the timeline's next page, so it waits
+        await waitFor(() => expect(result.current.activity).toHaveLength(1));
+        expect(result.current.hasMoreActivity).toBe(true);
+
+        act(() => result.current.fetchMoreActivity());
+
+        await waitFor(() => expect(result.current.hasMoreActivity).toBe(false));
+        expect(result.current.activity.map(item => item.createdAt)).toEqual([
+            '2024-05-01T09:00:00Z',
+            '2024-05-01T10:00:00Z',
+            '2024-05-01T11:00:00Z'
+        ]);
+        expect(adapter.mock.calls.filter(([config]) => config.url?.includes('/timeline'))).toHaveLength(3);
+    });
+});
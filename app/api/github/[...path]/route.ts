@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PROXY_ERROR_HEADER } from '../../../../utils/githubApiError'
+
+// GitHub REST API base URL (overridable for GitHub Enterprise)
+const GITHUB_API_URL = process.env.GITHUB_API_URL || 'https://api.github.com'
+
+// Request headers the browser is allowed to pass through to GitHub
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'if-none-match', 'if-modified-since']
+
+// Response headers the client needs for pagination, caching and rate limiting
+const FORWARDED_RESPONSE_HEADERS = [
+    'content-type',
+    'link',
+    'etag',
+    'last-modified',
+    'retry-after',
+    'x-ratelimit-limit',
+    'x-ratelimit-remaining',
+    'x-ratelimit-reset',
+    'x-ratelimit-used',
+    'x-ratelimit-resource',
+    'x-github-request-id',
+]
+
+// A repository by owner/name, or by id as in the Link header URLs GitHub paginates with
+const REPO = String.raw`(?:repos/[^/]+/[^/]+|repositories/\d+)`
+
+// Endpoints the app calls per method, matched against the encoded path; everything else the
+// server token could read or write (other repositories' settings, /user, organizations) stays
+// out of reach
+const ALLOWED_ENDPOINTS: Record<string, RegExp[]> = {
+    GET: [
+        new RegExp(`^${REPO}/issues$`),
+        new RegExp(`^${REPO}/issues/\\d+$`),
+        new RegExp(`^${REPO}/issues/\\d+/(comments|timeline)$`),
+        new RegExp(`^${REPO}/(labels|assignees|milestones)$`),
+        new RegExp(`^${REPO}/contents/\\.github/ISSUE_TEMPLATE(/[^/]+)*$`),
+        /^search\/(issues|users)$/,
+    ],
+    POST: [
+        new RegExp(`^${REPO}/issues$`),
+        new RegExp(`^${REPO}/issues/\\d+/(labels|assignees)$`),
+    ],
+    PATCH: [
+        new RegExp(`^${REPO}/issues/\\d+$`),
+    ],
+    PUT: [
+        new RegExp(`^${REPO}/issues/\\d+/lock$`),
+    ],
+    DELETE: [
+        new RegExp(`^${REPO}/issues/\\d+/lock$`),
+        new RegExp(`^${REPO}/issues/\\d+/labels/[^/]+$`),
+    ],
+}
+
+/**
+ * Whether the app calls this endpoint; `.` and `..` segments are refused so a path cannot
+ * climb out of an allowed prefix once the URL is normalized
+ */
+const isAllowedEndpoint = (method: string, path: string[]): boolean => {
+    if (path.some(segment => segment === '.' || segment === '..')) return false
+
+    const encodedPath = path.map(encodeURIComponent).join('/')
+    return (ALLOWED_ENDPOINTS[method] ?? []).some(pattern => pattern.test(encodedPath))
+}
+
+// Origin of a Referer header, or null when it is missing or malformed
+const getRefererOrigin = (referer: string | null): string | null => {
+    if (!referer) return null
+    try {
+        return new URL(referer).origin
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Whether a request comes from this app's own pages. Every request uses the server token, so
+ * another site (or a cross-site form post) must not be able to read or write through it.
+ */
+const isSameOriginRequest = (request: NextRequest): boolean => {
+    const fetchSite = request.headers.get('sec-fetch-site')
+    if (fetchSite) return fetchSite === 'same-origin'
+
+    // Older browsers without Fetch Metadata still send Origin on writes and a Referer on reads
+    const origin = request.headers.get('origin') ?? getRefererOrigin(request.headers.get('referer'))
+    return origin !== null && origin === request.nextUrl.origin
+}
+
+interface RouteContext {
+    params: Promise<{ path: string[] }>
+}
+
+/**
+ * Proxy a request to the GitHub API, injecting the server-only token
+ * so it is never shipped to the browser bundle.
+ */
+async function proxyRequest(request: NextRequest, { params }: RouteContext) {
+    const { path } = await params
+    const isWrite = request.method !== 'GET' && request.method !== 'HEAD'
+    if (!isSameOriginRequest(request)) {
+        return NextResponse.json(
+            { message: 'Cross-origin requests are not allowed' },
+            { status: 403 }
+        )
+    }
+    if (!isAllowedEndpoint(request.method, path)) {
+        return NextResponse.json(
+            { message: 'This GitHub API endpoint is not available through the proxy' },
+            { status: 403 }
+        )
+    }
+
+    const targetUrl = new URL(`${GITHUB_API_URL}/${path.map(encodeURIComponent).join('/')}`)
+
+    // Forward query params untouched (page, per_page, state, q, ...)
+    request.nextUrl.searchParams.forEach((value, key) => {
+        targetUrl.searchParams.append(key, value)
+    })
+
+    const headers = new Headers({
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'react-github-issues-datatable',
+    })
+    FORWARDED_REQUEST_HEADERS.forEach((name) => {
+        const value = request.headers.get(name)
+        if (value) headers.set(name, value)
+    })
+
+    const token = process.env.GITHUB_TOKEN
+    if (token) {
+        headers.set('Authorization', `Bearer ${token}`)
+    }
+
+
+    try {
+        const upstream = await fetch(targetUrl, {
+            method: request.method,
+            headers,
+            // Write requests (PATCH/PUT/POST/DELETE) carry a JSON body
+            body: isWrite ? await request.arrayBuffer() : undefined,
+            cache: 'no-store',
+        })
+
+        // Revalidate on every use: the client keeps its own ETag cache, and a heuristically
+        // cached first response would show a stale issue list after a reload
+        const responseHeaders = new Headers({ 'Cache-Control': 'private, no-cache' })
+        FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+            const value = upstream.headers.get(name)
+            if (value) responseHeaders.set(name, value)
+        })
+
+        // 204 and 304 responses must not carry a body
+        const body = upstream.status === 204 || upstream.status === 304 ? null : await upstream.arrayBuffer()
+
+        return new NextResponse(body, {
+            status: upstream.status,
+            statusText: upstream.statusText,
+            headers: responseHeaders,
+        })
+    } catch {
+        // Flagged so the client treats it as a network failure, not a GitHub server error
+        return NextResponse.json(
+            { message: 'Unable to reach the GitHub API' },
+            { status: 502, headers: { [PROXY_ERROR_HEADER]: 'network' } }
+        )
+    }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+    return proxyRequest(request, context)
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+    return proxyRequest(request, context)
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+    return proxyRequest(request, context)
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+    return proxyRequest(request, context)
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    return proxyRequest(request, context)
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ReactQueryClient } from "../providers/ReactQueryClient";
+import { Toaster } from "../components/Toast";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -39,6 +40,7 @@ export default function RootLayout({
         <ReactQueryClient>
           {children}
         </ReactQueryClient>
+        <Toaster position="bottom-right" />
       </body>
     </html>
   );
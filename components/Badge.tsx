@@ -54,7 +54,7 @@ export const badgeBase = cva(
 
 interface BadgeProps extends HTMLAttributes<HTMLButtonElement>,
   VariantProps<typeof badgeBase> {
-  label?: string;
+  label?: ReactNode;
   onUnselect?: () => void;
   isSelected?: boolean;
   badgeIcon?: ReactNode;
@@ -96,6 +96,7 @@ export const Badge: React.FC<BadgeProps> = ({
       <div className="px-[3px] whitespace-nowrap">{label}</div>
       {isSelected && (
         <button
+          type="button"
           onClick={onUnselect}
           className="rounded-[2px] flex justify-center items-center cursor-pointer"
           tabIndex={0}
@@ -0,0 +1,338 @@
+'use client'
+
+import * as React from "react"
+import { useMemo } from "react"
+import {
+    CircleCheck,
+    CircleDot,
+    CircleSlash,
+    Milestone,
+    Tag,
+    UserPlus,
+    X
+} from 'lucide-react'
+
+import {
+    DropdownMenu,
+    DropdownMenuTrigger,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuPortal,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger
+} from "./DropdownMenu"
+import { ActionButton } from "./ActionButton"
+import { Button } from "./Button"
+import { toast } from "./Toast"
+import { BulkIssueAction, BulkRunProgress, useBulkIssueAction } from "../hooks/useBulkIssueAction"
+import { useRepoAssignees, useRepoLabels, useRepoMilestones } from "../hooks/useRepoMetadata"
+import { SEARCH_RESULT_LIMIT } from "../services/githubIssuesService"
+import { GitHubIssue } from "../utils/types"
+import { cn } from "../utils/cn"
+
+interface BulkActionBarProps {
+    owner: string
+    repo: string
+    selectedIssues: GitHubIssue[]
+    // Number of issues matching the current filters, loaded or not
+    matchingCount: number
+    isMatchingCountExact: boolean
+    isAllMatchingSelected: boolean
+    // Matching issues that are not loaded yet are still being fetched
+    isLoadingAllMatching: boolean
+    onSelectAllMatching: () => Promise<void>
+    onSelectionChange: (issueNumbers: number[]) => void
+}
+
+/**
+ * Past-tense description of a bulk action for the run summary
+ */
+const describeAction = (action: BulkIssueAction): string => {
+    switch (action.type) {
+        case 'add-label':
+            return `Added label "${action.label}" to`
+        case 'remove-label':
+            return `Removed label "${action.label}" from`
+        case 'assign':
+            return `Assigned ${action.assignee} to`
+        case 'set-state':
+            if (action.state === 'open') return 'Reopened'
+            return action.stateReason === 'not_planned' ? 'Closed as not planned' : 'Closed as completed'
+        case 'set-milestone':
+            return action.milestone ? `Set milestone "${action.milestone.title}" on` : 'Cleared the milestone of'
+    }
+}
+
+const MenuEmpty = ({ children }: { children: React.ReactNode }) => (
+    <DropdownMenuItem disabled>{children}</DropdownMenuItem>
+)
+
+/**
+ * Progress and result of the latest bulk run, listing each issue that failed
+ */
+const BulkRunSummary = ({ progress, onDismiss }: { progress: BulkRunProgress; onDismiss: () => void }) => {
+    const succeeded = progress.completed - progress.failures.length
+    const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0
+
+    return (
+        <div className="space-y-2 pt-3 border-t border-border-presentation-global-primary">
+            <div className="flex items-center justify-between gap-2 typography-body-small-regular text-content-presentation-global-primary">
+                <span>
+                    {progress.isRunning
+                        ? `${describeAction(progress.action)} ${progress.completed} of ${progress.total} issues...`
+                        : `${describeAction(progress.action)} ${succeeded} of ${progress.total} issues`}
+                    {progress.failures.length > 0 && (
+                        <span className="text-content-presentation-state-negative"> • {progress.failures.length} failed</span>
+                    )}
+                </span>
+                {!progress.isRunning && (
+                    <ActionButton variant="BorderStyle" size="S" onClick={onDismiss} title="Dismiss">
+                        <X className="w-3 h-3" />
+                    </ActionButton>
+                )}
+            </div>
+
+            <div className="h-1.5 w-full rounded-full bg-background-system-body-tertiary overflow-hidden">
+                <div
+                    className={cn(
+                        "h-full transition-all duration-300",
+                        progress.failures.length > 0
+                            ? "bg-background-presentation-state-negative-primary"
+                            : "bg-background-presentation-state-information-primary"
+                    )}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+
+            {progress.failures.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto space-y-1 typography-body-small-regular">
+                    {progress.failures.map(failure => (
+                        <li key={failure.issueNumber} className="text-content-presentation-global-secondary">
+                            <span className="text-content-presentation-global-primary">#{failure.issueNumber} {failure.title}</span>
+                            {' '}— <span className="text-content-presentation-state-negative">{failure.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
+
+/**
+ * Bulk Action Bar
+ *
+ * Sticky bar shown while rows are selected. Applies labels, assignees, state or milestone
+ * to every selected issue and reports per-issue failures. After a run only the failed
+ * issues stay selected, so they can be retried. "Select all matching" also covers issues that
+ * are not loaded yet; actions wait until they are.
+ */
+export function BulkActionBar({
+    owner,
+    repo,
+    selectedIssues,
+    matchingCount,
+    isMatchingCountExact,
+    isAllMatchingSelected,
+    isLoadingAllMatching,
+    onSelectAllMatching,
+    onSelectionChange
+}: BulkActionBarProps) {
+    const { run, progress, isRunning, dismiss } = useBulkIssueAction(owner, repo)
+
+    const hasSelection = selectedIssues.length > 0
+    const { data: labels = [] } = useRepoLabels(owner, repo, hasSelection)
+    const { data: assignees = [] } = useRepoAssignees(owner, repo, hasSelection)
+    const { data: milestones = [] } = useRepoMilestones(owner, repo, 'open', hasSelection)
+
+    // Only offer to remove labels that at least one selected issue has
+    const selectedLabels = useMemo(() => {
+        const names = new Set(selectedIssues.flatMap(issue => issue.labels.map(label => label.name)))
+        return Array.from(names).sort((a, b) => a.localeCompare(b))
+    }, [selectedIssues])
+
+    if (!hasSelection && !progress) return null
+
+    const selectAllMatching = async () => {
+        try {
+            await onSelectAllMatching()
+        } catch (error) {
+            toast.error(`Could not load all matching issues: ${(error as Error).message}`)
+        }
+    }
+
+    const runAction = async (action: BulkIssueAction) => {
+        const result = await run({ issues: selectedIssues, action })
+        onSelectionChange(result.failures.map(failure => failure.issueNumber))
+
+        if (result.failures.length === 0) {
+            toast.success(`${describeAction(action)} ${result.total} issues`)
+        } else {
+            toast.error(`${result.failures.length} of ${result.total} issues failed`)
+        }
+    }
+
+    return (
+        <div
+            className={cn(
+                "sticky bottom-4 z-10 space-y-3 p-3 rounded-lg shadow-lg",
+                "bg-background-system-body-secondary border border-border-presentation-global-primary"
+            )}
+        >
+            {hasSelection && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="typography-body-medium-semibold text-content-presentation-global-primary">
+                        {selectedIssues.length} selected
+                    </span>
+                    {isLoadingAllMatching ? (
+                        <span className="typography-body-small-regular text-content-presentation-global-secondary">
+                            Loading all {isMatchingCountExact ? '' : '~'}{matchingCount.toLocaleString()} matching issues...
+                        </span>
+                    ) : isAllMatchingSelected ? (
+                        // The search API stops at SEARCH_RESULT_LIMIT results
+                        matchingCount > SEARCH_RESULT_LIMIT && (
+                            <span className="typography-body-small-regular text-content-presentation-global-secondary">
+                                Search returns only the first {SEARCH_RESULT_LIMIT.toLocaleString()} of {matchingCount.toLocaleString()} matches
+                            </span>
+                        )
+                    ) : selectedIssues.length < matchingCount && (
+                        <Button variant="BorderStyle" onClick={selectAllMatching} disabled={isRunning}>
+                            Select all {isMatchingCountExact ? '' : '~'}{matchingCount.toLocaleString()} matching issues
+                        </Button>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2 ml-auto">
+                        {/* Labels */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="BorderStyle" disabled={isRunning || isLoadingAllMatching}>
+                                    <Tag className="w-4 h-4 mr-2" />
+                                    Labels
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent className="z-[1000]">
+                                <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger>Add label</DropdownMenuSubTrigger>
+                                    <DropdownMenuPortal>
+                                        <DropdownMenuSubContent className="z-[1000] max-h-72 overflow-y-auto">
+                                            {labels.length === 0 && <MenuEmpty>No labels</MenuEmpty>}
+                                            {labels.map(label => (
+                                                <DropdownMenuItem
+                                                    key={label.name}
+                                                    onSelect={() => runAction({ type: 'add-label', label: label.name })}
+                                                >
+                                                    <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: `#${label.color}` }} />
+                                                    {label.name}
+                                                </DropdownMenuItem>
+                                            ))}
+                                        </DropdownMenuSubContent>
+                                    </DropdownMenuPortal>
+                                </DropdownMenuSub>
+                                <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger>Remove label</DropdownMenuSubTrigger>
+                                    <DropdownMenuPortal>
+                                        <DropdownMenuSubContent className="z-[1000] max-h-72 overflow-y-auto">
+                                            {selectedLabels.length === 0 && <MenuEmpty>Selected issues have no labels</MenuEmpty>}
+                                            {selectedLabels.map(name => (
+                                                <DropdownMenuItem
+                                                    key={name}
+                                                    onSelect={() => runAction({ type: 'remove-label', label: name })}
+                                                >
+                                                    {name}
+                                                </DropdownMenuItem>
+                                            ))}
+                                        </DropdownMenuSubContent>
+                                    </DropdownMenuPortal>
+                                </DropdownMenuSub>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+
+                        {/* Assignees */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="BorderStyle" disabled={isRunning || isLoadingAllMatching}>
+                                    <UserPlus className="w-4 h-4 mr-2" />
+                                    Assign
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent className="z-[1000] max-h-72 overflow-y-auto">
+                                <DropdownMenuLabel>Add assignee</DropdownMenuLabel>
+                                {assignees.length === 0 && <MenuEmpty>No assignable users</MenuEmpty>}
+                                {assignees.map(assignee => (
+                                    <DropdownMenuItem
+                                        key={assignee.login}
+                                        onSelect={() => runAction({ type: 'assign', assignee: assignee.login })}
+                                    >
+                                        {assignee.login}
+                                    </DropdownMenuItem>
+                                ))}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+
+                        {/* Milestone */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="BorderStyle" disabled={isRunning || isLoadingAllMatching}>
+                                    <Milestone className="w-4 h-4 mr-2" />
+                                    Milestone
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent className="z-[1000] max-h-72 overflow-y-auto">
+                                <DropdownMenuLabel>Set milestone</DropdownMenuLabel>
+                                <DropdownMenuItem onSelect={() => runAction({ type: 'set-milestone', milestone: null })}>
+                                    No milestone
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                {milestones.length === 0 && <MenuEmpty>No open milestones</MenuEmpty>}
+                                {milestones.map(milestone => (
+                                    <DropdownMenuItem
+                                        key={milestone.id}
+                                        onSelect={() => runAction({
+                                            type: 'set-milestone',
+                                            milestone: { number: milestone.number, title: milestone.title }
+                                        })}
+                                    >
+                                        {milestone.title}
+                                    </DropdownMenuItem>
+                                ))}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+
+                        {/* State */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="BorderStyle" disabled={isRunning || isLoadingAllMatching}>
+                                    <CircleCheck className="w-4 h-4 mr-2" />
+                                    Close / Reopen
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent className="z-[1000]">
+                                <DropdownMenuItem onSelect={() => runAction({ type: 'set-state', state: 'closed', stateReason: 'completed' })}>
+                                    <CircleCheck className="w-4 h-4" />
+                                    Close as completed
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onSelect={() => runAction({ type: 'set-state', state: 'closed', stateReason: 'not_planned' })}>
+                                    <CircleSlash className="w-4 h-4" />
+                                    Close as not planned
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onSelect={() => runAction({ type: 'set-state', state: 'open', stateReason: 'reopened' })}>
+                                    <CircleDot className="w-4 h-4" />
+                                    Reopen
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+
+                        <Button variant="BorderStyle" onClick={() => onSelectionChange([])} disabled={isRunning}>
+                            Clear selection
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {progress && <BulkRunSummary progress={progress} onDismiss={dismiss} />}
+        </div>
+    )
+}
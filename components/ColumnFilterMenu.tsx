@@ -0,0 +1,274 @@
+'use client'
+
+import * as React from "react"
+import { useMemo, useState } from "react"
+import { DateRange } from "react-day-picker"
+import { endOfDay, startOfDay } from "date-fns"
+import { CalendarDays, Filter } from "lucide-react"
+
+import { Popover, PopoverTrigger, PopoverContent } from "./Popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./Select"
+import { ActionButton } from "./ActionButton"
+import { Button } from "./Button"
+import { Checkbox } from "./Checkbox"
+import { DatePicker } from "./DatePicker"
+import { InputField } from "./InputField"
+import { isColumnFilterActive, isValidRegex } from "../utils/columnFilters"
+import { ColumnConfig, ColumnFilterValue, DateFilterOperator, TextFilterOperator } from "../utils/types"
+import { cn } from "../utils/cn"
+
+interface ColumnFilterMenuProps {
+    column: ColumnConfig
+    value: ColumnFilterValue | undefined
+    onChange: (value: ColumnFilterValue | undefined) => void
+    // Choices for dropdown columns: ColumnConfig.options, or the distinct values seen in loaded rows
+    options: string[]
+}
+
+// Dropdown lists can get long (labels); the search narrows them
+const MAX_VISIBLE_OPTIONS = 50
+
+const emptyFilter = (filterType: ColumnConfig['filterType']): ColumnFilterValue => {
+    switch (filterType) {
+        case 'text':
+            return { type: 'text', operator: 'contains', value: '' }
+        case 'dropdown':
+            return { type: 'dropdown', values: [] }
+        case 'date':
+            return { type: 'date', operator: 'on', date: startOfDay(new Date()) }
+        case 'dateRange':
+            return { type: 'dateRange', range: {} }
+    }
+}
+
+/**
+ * Editor for the pending filter; mounted while the menu is open so every opening starts from the applied value
+ */
+const ColumnFilterEditor = ({
+    column,
+    value,
+    options,
+    onApply,
+    onClear
+}: {
+    column: ColumnConfig
+    value: ColumnFilterValue | undefined
+    options: string[]
+    onApply: (value: ColumnFilterValue) => void
+    onClear: () => void
+}) => {
+    const [draft, setDraft] = useState<ColumnFilterValue>(() => value ?? emptyFilter(column.filterType))
+    const [optionSearch, setOptionSearch] = useState('')
+
+    const visibleOptions = useMemo(() => {
+        const term = optionSearch.trim().toLowerCase()
+        return options.filter(option => option.toLowerCase().includes(term)).slice(0, MAX_VISIBLE_OPTIONS)
+    }, [options, optionSearch])
+
+    const regexError = draft.type === 'text' && draft.operator === 'regex' && !isValidRegex(draft.value)
+        ? 'Invalid regular expression'
+        : null
+
+    const apply = () => {
+        if (!regexError) onApply(draft)
+    }
+
+    return (
+        <div className="space-y-2">
+            {draft.type === 'text' && (
+                <>
+                    <Select
+                        value={draft.operator}
+                        onValueChange={(operator) => setDraft({ ...draft, operator: operator as TextFilterOperator })}
+                    >
+                        <SelectTrigger size="S" aria-label={`${column.header} filter operator`}>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="contains">Contains</SelectItem>
+                            <SelectItem value="equals">Equals</SelectItem>
+                            <SelectItem value="regex">Matches regex</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <InputField
+                        size="S"
+                        autoFocus
+                        placeholder={draft.operator === 'regex' ? "Pattern, e.g. ^fix" : "Value"}
+                        value={draft.value}
+                        className={cn(draft.operator === 'regex' && "font-mono")}
+                        onChange={(event) => setDraft({ ...draft, value: event.target.value })}
+                        onKeyDown={(event) => {
+                            if (event.key === 'Enter') {
+                                event.preventDefault()
+                                apply()
+                            }
+                        }}
+                    />
+                    {regexError && (
+                        <p className="typography-body-small-regular text-content-presentation-state-negative">{regexError}</p>
+                    )}
+                </>
+            )}
+
+            {draft.type === 'dropdown' && (
+                <>
+                    {options.length > 8 && (
+                        <InputField
+                            size="S"
+                            autoFocus
+                            placeholder="Search values..."
+                            value={optionSearch}
+                            onChange={(event) => setOptionSearch(event.target.value)}
+                        />
+                    )}
+                    <div className="max-h-56 overflow-y-auto space-y-1">
+                        {visibleOptions.map((option, index) => {
+                            const checkboxId = `column-filter-${column.id}-${index}`
+                            return (
+                                <label
+                                    key={option}
+                                    htmlFor={checkboxId}
+                                    className="flex items-center gap-2 px-1 typography-body-small-regular text-content-presentation-global-primary"
+                                >
+                                    <Checkbox
+                                        id={checkboxId}
+                                        size="S"
+                                        checked={draft.values.includes(option)}
+                                        onCheckedChange={(checked) => setDraft({
+                                            ...draft,
+                                            values: checked === true
+                                                ? [...draft.values, option]
+                                                : draft.values.filter(selected => selected !== option)
+                                        })}
+                                    />
+                                    <span className="truncate">{option}</span>
+                                </label>
+                            )
+                        })}
+                        {visibleOptions.length === 0 && (
+                            <p className="px-1 typography-body-small-regular text-content-presentation-global-secondary">
+                                No values
+                            </p>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {draft.type === 'date' && (
+                <>
+                    <Select
+                        value={draft.operator}
+                        onValueChange={(operator) => setDraft({ ...draft, operator: operator as DateFilterOperator })}
+                    >
+                        <SelectTrigger size="S" aria-label={`${column.header} filter operator`}>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="on">On</SelectItem>
+                            <SelectItem value="before">Before</SelectItem>
+                            <SelectItem value="after">After</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <DatePicker
+                        mode="single"
+                        value={draft.date}
+                        calendarProps={{ defaultMonth: draft.date }}
+                        onChange={(event) => {
+                            // DatePicker reports { target: { value } } with its current selection, also on mount
+                            const date = (event.target as unknown as { value: Date | undefined }).value
+                            if (date && date.getTime() !== startOfDay(draft.date).getTime()) {
+                                setDraft(prev => prev.type === 'date' ? { ...prev, date: startOfDay(date) } : prev)
+                            }
+                        }}
+                    >
+                        <InputField size="S" aria-label={`${column.header} date`} icon={<CalendarDays className="w-4 h-4" />} />
+                    </DatePicker>
+                </>
+            )}
+
+            {draft.type === 'dateRange' && (
+                <DatePicker
+                    mode="range"
+                    value={draft.range.from || draft.range.to ? { from: draft.range.from, to: draft.range.to } : null}
+                    calendarProps={{ defaultMonth: draft.range.from }}
+                    onChange={(event) => {
+                        const range = (event.target as unknown as { value: DateRange | undefined }).value
+                        const from = range?.from ? startOfDay(range.from) : undefined
+                        const to = range?.to ? endOfDay(range.to) : undefined
+                        setDraft(prev => prev.type === 'dateRange' &&
+                            prev.range.from?.getTime() === from?.getTime() &&
+                            prev.range.to?.getTime() === to?.getTime()
+                            ? prev
+                            : { type: 'dateRange', range: { from, to } }
+                        )
+                    }}
+                >
+                    <InputField
+                        size="S"
+                        placeholder="Any time"
+                        aria-label={`${column.header} date range`}
+                        icon={<CalendarDays className="w-4 h-4" />}
+                    />
+                </DatePicker>
+            )}
+
+            <div className="flex justify-end gap-2 pt-1">
+                <Button type="button" size="S" variant="BorderStyle" onClick={onClear} disabled={!value}>
+                    Clear
+                </Button>
+                <Button type="button" size="S" onClick={apply} disabled={!!regexError}>
+                    Apply
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+/**
+ * Column Filter Menu
+ *
+ * Filter button for a column header. Renders the editor matching the column's
+ * ColumnConfig.filterType: text (contains / equals / regex), dropdown (multi-select),
+ * date (on / before / after a day) or date range.
+ */
+export function ColumnFilterMenu({ column, value, onChange, options }: ColumnFilterMenuProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const isActive = !!value && isColumnFilterActive(value)
+
+    return (
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+            <PopoverTrigger asChild>
+                <ActionButton
+                    variant={isActive ? "PrimeStyle" : "BorderStyle"}
+                    size="S"
+                    title={`Filter ${column.header}`}
+                    aria-label={`Filter ${column.header}`}
+                >
+                    <Filter className="w-3 h-3" />
+                </ActionButton>
+            </PopoverTrigger>
+            <PopoverContent
+                variant="PresentationStyle"
+                align="start"
+                className="z-[1000] w-64 max-h-none p-3"
+            >
+                <p className="mb-2 typography-body-small-medium text-content-presentation-global-secondary">
+                    Filter {column.header}
+                </p>
+                <ColumnFilterEditor
+                    column={column}
+                    value={value}
+                    options={options}
+                    onApply={(next) => {
+                        onChange(isColumnFilterActive(next) ? next : undefined)
+                        setIsOpen(false)
+                    }}
+                    onClear={() => {
+                        onChange(undefined)
+                        setIsOpen(false)
+                    }}
+                />
+            </PopoverContent>
+        </Popover>
+    )
+}
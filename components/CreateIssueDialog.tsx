@@ -0,0 +1,419 @@
+'use client'
+
+import * as React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+
+import {
+    Dialog,
+    DialogContent,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter
+} from "./Dialog"
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "./Form"
+import { Avatar, AvatarImage, AvatarFallback } from "./Avatar"
+import { Button } from "./Button"
+import { InputField } from "./InputField"
+import { Markdown } from "./Markdown"
+import { TagPicker } from "./TagPicker"
+import { IssueFormFields } from "./IssueFormFields"
+import { SpinLoading } from "./SpinLoading"
+import { toast } from "./Toast"
+import { Tag } from "../hooks/useTagSelection"
+import { useCreateIssue } from "../hooks/useIssueMutations"
+import { useIssueTemplates, useRepoAssignees, useRepoLabels, useRepoMilestones } from "../hooks/useRepoMetadata"
+import {
+    buildIssueFormSchema,
+    defaultIssueFormAnswers,
+    IssueFormAnswers,
+    serializeIssueForm
+} from "../utils/issueTemplates"
+import { GitHubIssue, IssueTemplate } from "../utils/types"
+import { cn } from "../utils/cn"
+
+const createIssueSchema = z.object({
+    title: z
+        .string()
+        .trim()
+        .min(1, 'Please enter a title')
+        .max(256, 'Titles are limited to 256 characters'),
+    body: z.string(),
+    labels: z.array(z.string()),
+    assignees: z.array(z.string()).max(10, 'GitHub allows at most 10 assignees per issue'),
+    milestone: z.number().nullable()
+})
+
+type CreateIssueFormData = z.infer<typeof createIssueSchema> & {
+    // Issue form answers keyed by issueFormFieldKey; empty for blank issues and markdown templates
+    answers: IssueFormAnswers
+}
+
+interface CreateIssueDialogProps {
+    owner: string
+    repo: string
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    onCreated: (issue: GitHubIssue) => void
+}
+
+/**
+ * Markdown body editor with a Write / Preview toggle
+ */
+const BodyEditor = React.forwardRef<
+    HTMLTextAreaElement,
+    React.TextareaHTMLAttributes<HTMLTextAreaElement> & { value: string; owner: string; repo: string }
+>(({ value, owner, repo, className, ...props }, ref) => {
+    const [isPreviewing, setIsPreviewing] = useState(false)
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-1">
+                <Button type="button" variant={isPreviewing ? "BorderStyle" : "PrimeStyle"} onClick={() => setIsPreviewing(false)}>
+                    Write
+                </Button>
+                <Button type="button" variant={isPreviewing ? "PrimeStyle" : "BorderStyle"} onClick={() => setIsPreviewing(true)}>
+                    Preview
+                </Button>
+            </div>
+            {isPreviewing ? (
+                <div className="min-h-40 max-h-80 overflow-y-auto p-3 rounded-[6px] border border-border-presentation-global-primary">
+                    {value.trim() ? (
+                        <Markdown owner={owner} repo={repo}>{value}</Markdown>
+                    ) : (
+                        <p className="typography-body-small-regular text-content-presentation-global-secondary">Nothing to preview</p>
+                    )}
+                </div>
+            ) : (
+                <textarea
+                    {...props}
+                    ref={ref}
+                    value={value}
+                    rows={8}
+                    className={cn(
+                        "w-full min-h-40 p-3 rounded-[6px] border resize-y outline-none",
+                        "typography-body-small-regular text-content-presentation-global-primary",
+                        "bg-background-presentation-form-field-primary border-border-presentation-action-primary",
+                        "focus:border-border-presentation-state-focus",
+                        className
+                    )}
+                />
+            )}
+        </div>
+    )
+})
+BodyEditor.displayName = "BodyEditor"
+
+const LabelColor = ({ color }: { color: string }) => (
+    <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: color }} />
+)
+
+const AssigneeAvatar = ({ login, avatarUrl }: { login: string; avatarUrl: string }) => (
+    <Avatar className="h-5 w-5">
+        <AvatarImage src={avatarUrl} alt={`@${login}`} />
+        <AvatarFallback className="text-xs">{login.slice(0, 2).toUpperCase()}</AvatarFallback>
+    </Avatar>
+)
+
+/**
+ * Template chooser shown before the form when the repository has issue templates
+ */
+const TemplateChooser = ({
+    templates,
+    onChoose
+}: {
+    templates: IssueTemplate[]
+    onChoose: (template: IssueTemplate | null) => void
+}) => (
+    <ul className="divide-y divide-border-presentation-global-primary rounded-lg border border-border-presentation-global-primary">
+        {templates.map(template => (
+            <li key={template.fileName} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                    <p className="typography-body-medium-semibold text-content-presentation-global-primary">{template.name}</p>
+                    {template.about && (
+                        <p className="typography-body-small-regular text-content-presentation-global-secondary">{template.about}</p>
+                    )}
+                </div>
+                <Button type="button" onClick={() => onChoose(template)}>Get started</Button>
+            </li>
+        ))}
+        <li className="flex items-center justify-between gap-4 p-3">
+            <div>
+                <p className="typography-body-medium-semibold text-content-presentation-global-primary">Blank issue</p>
+                <p className="typography-body-small-regular text-content-presentation-global-secondary">Start from an empty issue</p>
+            </div>
+            <Button type="button" variant="BorderStyle" onClick={() => onChoose(null)}>Open blank issue</Button>
+        </li>
+    </ul>
+)
+
+interface CreateIssueFormProps extends Omit<CreateIssueDialogProps, "open"> {
+    // Template the form starts from; null for a blank issue
+    template: IssueTemplate | null
+    onChangeTemplate?: () => void
+}
+
+/**
+ * The form itself; mounted only while the dialog is open so every opening starts empty
+ */
+const CreateIssueForm = ({ owner, repo, template, onChangeTemplate, onOpenChange, onCreated }: CreateIssueFormProps) => {
+    const createIssue = useCreateIssue(owner, repo)
+    const { data: labels = [], isFetched: labelsFetched } = useRepoLabels(owner, repo)
+    const { data: assignees = [], isFetched: assigneesFetched } = useRepoAssignees(owner, repo)
+    const { data: milestones = [] } = useRepoMilestones(owner, repo, 'open')
+
+    const formElements = template?.kind === 'form' ? template.body : null
+    const schema = useMemo(
+        () => createIssueSchema.extend({ answers: formElements ? buildIssueFormSchema(formElements) : z.object({}) }),
+        [formElements]
+    )
+
+    const form = useForm<CreateIssueFormData>({
+        resolver: zodResolver(schema),
+        defaultValues: {
+            title: template?.title ?? '',
+            body: template?.kind === 'markdown' ? template.body : '',
+            labels: template?.labels ?? [],
+            assignees: template?.assignees ?? [],
+            milestone: null,
+            answers: formElements ? defaultIssueFormAnswers(formElements) : {}
+        }
+    })
+
+    // useTagSelection reloads its options whenever these references change, so keep them stable.
+    // It only reads isSelected on mount, so the pickers below remount once their options arrive.
+    const templateLabels = template?.labels
+    const labelTags = useMemo<Tag[]>(() => labels.map(label => ({
+        id: label.name,
+        name: label.name,
+        color: `#${label.color}`,
+        isSelected: !!templateLabels?.includes(label.name)
+    })), [labels, templateLabels])
+    const templateAssignees = template?.assignees
+    const assigneeTags = useMemo<Tag[]>(() => assignees.map(assignee => ({
+        id: assignee.login,
+        name: assignee.login,
+        avatarUrl: assignee.avatar_url,
+        isSelected: !!templateAssignees?.includes(assignee.login)
+    })), [assignees, templateAssignees])
+    const milestoneTags = useMemo<Tag[]>(() => milestones.map(milestone => ({
+        id: String(milestone.number),
+        name: milestone.title,
+        isSelected: false
+    })), [milestones])
+
+    const onSubmit = async (values: CreateIssueFormData) => {
+        try {
+            const body = formElements ? serializeIssueForm(formElements, values.answers) : values.body
+            const issue = await createIssue.mutateAsync({
+                title: values.title,
+                body: body.trim() ? body : undefined,
+                labels: values.labels,
+                assignees: values.assignees,
+                milestone: values.milestone
+            })
+            toast.success(`Opened #${issue.number}`)
+            onCreated(issue)
+            onOpenChange(false)
+        } catch (error) {
+            toast.error(`Could not open the issue: ${(error as Error).message}`)
+        }
+    }
+
+    return (
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                {template && (
+                    <div className="flex items-center justify-between gap-2 typography-body-small-regular text-content-presentation-global-secondary">
+                        <span>Template: <span className="text-content-presentation-global-primary">{template.name}</span></span>
+                        {onChangeTemplate && (
+                            <Button type="button" variant="BorderStyle" onClick={onChangeTemplate}>
+                                Choose a different template
+                            </Button>
+                        )}
+                    </div>
+                )}
+
+                <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel label="Title" requiredLabel="*" size="M" />
+                            <FormControl>
+                                <InputField placeholder="Title" autoFocus {...field} />
+                            </FormControl>
+                            <FormMessage className="text-content-presentation-state-negative" />
+                        </FormItem>
+                    )}
+                />
+
+                {formElements ? (
+                    <IssueFormFields
+                        owner={owner}
+                        repo={repo}
+                        elements={formElements}
+                        control={form.control}
+                        name="answers"
+                    />
+                ) : (
+                    <FormField
+                        control={form.control}
+                        name="body"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel label="Description" size="M" />
+                                <FormControl>
+                                    <BodyEditor
+                                        owner={owner}
+                                        repo={repo}
+                                        placeholder="Add a description (Markdown supported)"
+                                        {...field}
+                                    />
+                                </FormControl>
+                                <FormMessage className="text-content-presentation-state-negative" />
+                            </FormItem>
+                        )}
+                    />
+                )}
+
+                <FormField
+                    control={form.control}
+                    name="labels"
+                    render={({ field, fieldState }) => (
+                        <FormItem>
+                            <FormLabel label="Labels" size="M" />
+                            <FormControl>
+                                <TagPicker
+                                    key={labelsFetched ? 'loaded' : 'loading'}
+                                    tags={labelTags}
+                                    onChange={(selected) => field.onChange(selected.map(tag => tag.id))}
+                                    onBlur={field.onBlur}
+                                    renderIcon={(tag) => <LabelColor color={tag.color} />}
+                                    getChipColor={(tag) => tag.color}
+                                    placeholder="Search labels"
+                                    emptyMessage="No labels"
+                                    error={!!fieldState.error}
+                                />
+                            </FormControl>
+                            <FormMessage className="text-content-presentation-state-negative" />
+                        </FormItem>
+                    )}
+                />
+
+                <FormField
+                    control={form.control}
+                    name="assignees"
+                    render={({ field, fieldState }) => (
+                        <FormItem>
+                            <FormLabel label="Assignees" size="M" />
+                            <FormControl>
+                                <TagPicker
+                                    key={assigneesFetched ? 'loaded' : 'loading'}
+                                    tags={assigneeTags}
+                                    onChange={(selected) => field.onChange(selected.map(tag => tag.id))}
+                                    onBlur={field.onBlur}
+                                    renderIcon={(tag) => <AssigneeAvatar login={tag.name} avatarUrl={tag.avatarUrl} />}
+                                    placeholder="Search people"
+                                    emptyMessage="No assignable users"
+                                    error={!!fieldState.error}
+                                />
+                            </FormControl>
+                            <FormMessage className="text-content-presentation-state-negative" />
+                        </FormItem>
+                    )}
+                />
+
+                <FormField
+                    control={form.control}
+                    name="milestone"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel label="Milestone" size="M" />
+                            <FormControl>
+                                <TagPicker
+                                    tags={milestoneTags}
+                                    singleSelect
+                                    onChange={(selected) => field.onChange(selected.length > 0 ? Number(selected[0].id) : null)}
+                                    onBlur={field.onBlur}
+                                    placeholder="No milestone"
+                                    emptyMessage="No open milestones"
+                                />
+                            </FormControl>
+                            <FormDescription className="text-content-presentation-global-secondary">
+                                Labels, assignees and milestone are only applied when your token has write access.
+                            </FormDescription>
+                        </FormItem>
+                    )}
+                />
+
+                <DialogFooter>
+                    <Button type="button" variant="BorderStyle" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button type="submit" disabled={createIssue.isPending}>
+                        {createIssue.isPending ? 'Creating...' : 'Create issue'}
+                    </Button>
+                </DialogFooter>
+            </form>
+        </Form>
+    )
+}
+
+/**
+ * Create Issue Dialog
+ *
+ * Form for opening a new issue: title, Markdown body with preview, labels, assignees and milestone.
+ * When the repository has issue templates, one is picked first: markdown templates prefill the form,
+ * issue forms replace the body editor with their fields and are serialized into the body on submit.
+ */
+export function CreateIssueDialog({ open, onOpenChange, ...props }: CreateIssueDialogProps) {
+    const { data: templates = [], isLoading: templatesLoading } = useIssueTemplates(props.owner, props.repo, open)
+    // undefined until the user picks a template (or "blank issue") from the chooser
+    const [template, setTemplate] = useState<IssueTemplate | null | undefined>(undefined)
+
+    useEffect(() => {
+        if (!open) setTemplate(undefined)
+    }, [open])
+
+    const hasTemplates = templates.length > 0
+    const chosenTemplate = hasTemplates ? template : null
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 gap-4 items-stretch rounded-lg bg-background-system-body-primary border border-border-presentation-global-primary">
+                <DialogTitle>New issue in {props.owner}/{props.repo}</DialogTitle>
+                <DialogDescription className="text-content-presentation-global-secondary">
+                    The issue is opened on GitHub and added to the top of the table.
+                </DialogDescription>
+                {open && templatesLoading && (
+                    <div className="flex justify-center py-8">
+                        <SpinLoading className="w-6 h-6" />
+                    </div>
+                )}
+                {open && !templatesLoading && chosenTemplate === undefined && (
+                    <TemplateChooser templates={templates} onChoose={setTemplate} />
+                )}
+                {open && !templatesLoading && chosenTemplate !== undefined && (
+                    <CreateIssueForm
+                        key={chosenTemplate?.fileName ?? 'blank'}
+                        template={chosenTemplate}
+                        onChangeTemplate={hasTemplates ? () => setTemplate(undefined) : undefined}
+                        onOpenChange={onOpenChange}
+                        {...props}
+                    />
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
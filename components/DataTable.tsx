@@ -1,7 +1,7 @@
 'use client'
 
 import * as React from "react"
-import { useState, useEffect, useMemo, useCallback, useRef } from "react"
+import { useState, useEffect, useMemo, useCallback, useRef, useContext } from "react"
 import {
     ColumnDef,
     flexRender,
@@ -10,6 +10,10 @@ import {
     useReactTable,
     getPaginationRowModel,
     getFilteredRowModel,
+    RowSelectionState,
+    OnChangeFn,
+    PaginationState,
+    SortingState,
 } from "@tanstack/react-table"
 
 import {
@@ -19,6 +23,7 @@ import {
     TableHead,
     TableHeader as TableHeaderComponent,
     TableRow,
+    TableCheckbox,
 } from "./Table"
 import { Button } from "./Button"
 import { ActionButton } from "./ActionButton"
@@ -33,6 +38,16 @@ import {
 import { Badge } from "./Badge"
 import { Skeleton } from "./Skeleton"
 import { SpinLoading } from "./SpinLoading"
+import { IssueDetailDrawer } from "./IssueDetailDrawer"
+import { IssueRowActions } from "./IssueRowActions"
+import { BulkActionBar } from "./BulkActionBar"
+import { CreateIssueDialog } from "./CreateIssueDialog"
+import { LabelFilter } from "./LabelFilter"
+import { UserFilter, UserFilterOption } from "./UserFilter"
+import { DateRangeFilter } from "./DateRangeFilter"
+import { MilestoneFilter } from "./MilestoneFilter"
+import { ColumnFilterMenu } from "./ColumnFilterMenu"
+import { IssueQueryInput } from "./IssueQueryInput"
 import { Avatar, AvatarImage, AvatarFallback } from "./Avatar"
 import {
     DropdownMenu,
@@ -40,8 +55,44 @@ import {
     DropdownMenuContent,
     DropdownMenuCheckboxItem
 } from "./DropdownMenu"
-import { GitHubIssue, ColumnConfig } from "../utils/types"
+import {
+    GitHubIssue,
+    ColumnConfig,
+    ApiError,
+    GitHubApiErrorKind,
+    IssueTypeFilter,
+    LabelMatchMode,
+    DateRangeFilterValue,
+    ColumnFilters,
+    ColumnFilterValue,
+    SearchMode
+} from "../utils/types"
+import { PageCursor } from "../utils/linkHeader"
+import { cn } from "../utils/cn"
+import { getIssueQueryType, IssueQueryError, IssueQueryNode, IssueQueryPlan, matchesIssueQuery, parseIssueQuery, planIssueQuery } from "../utils/issueQuery"
+import { buildColumnFiltersPredicate, describeColumnFilter, getColumnFilterValues, isColumnFilterActive } from "../utils/columnFilters"
+import { highlightTerms, IssueSearchHit, MaxTypos, SearchField, SearchTerm } from "../utils/issueSearchIndex"
+import {
+    ASSIGNEE_ANY,
+    ASSIGNEE_NONE,
+    MILESTONE_ANY,
+    MILESTONE_NONE,
+    isInDateRange,
+    isMilestoneOverdue,
+    matchesServerFilters
+} from "../utils/issueFilters"
 import { useGitHubIssues } from "../hooks/useGitHubIssues"
+import { useRateLimit, useResetCountdown } from "../hooks/useRateLimit"
+import { useRetryStatus } from "../hooks/useRetryStatus"
+import { useIssueCount } from "../hooks/useIssueCount"
+import { useIssueSearch } from "../hooks/useIssueSearch"
+import { useIssueTextSearch } from "../hooks/useIssueTextSearch"
+import { useRepoMilestones } from "../hooks/useRepoMetadata"
+import { RetryReason } from "../config/retryStatusStore"
+import { RateLimitResource } from "../config/rateLimitStore"
+import { githubIssuesService, IssueCountFilters, SEARCH_RESULT_LIMIT } from "../services/githubIssuesService"
+import { onCachedIssueChange } from "../providers/ReactQueryClient"
+import { useQueryClient } from "@tanstack/react-query"
 import { format } from 'date-fns'
 import {
     RefreshCw,
@@ -52,9 +103,18 @@ import {
     ChevronFirst,
     ChevronLast,
     ChevronLeft,
-    ChevronRight
+    ChevronRight,
+    Gauge,
+    Hourglass,
+    FileQuestion,
+    KeyRound,
+    ShieldAlert,
+    WifiOff,
+    GitPullRequest,
+    CircleDot,
+    Plus,
+    Milestone
 } from 'lucide-react'
-import { InputField } from "./InputField"
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -73,6 +133,7 @@ interface CacheRefs {
     tablePageCacheRef: React.MutableRefObject<Record<string, number>>
     isFetchingMoreRef: React.MutableRefObject<boolean>
     currentTablePageRef: React.MutableRefObject<number>
+    cursorCacheRef: React.MutableRefObject<Record<string, PageCursor | null>>
 }
 
 // ============================================================================
@@ -106,7 +167,7 @@ const defaultColumns: ColumnConfig[] = [
         visible: true,
         sortable: false,
         filterType: 'dropdown',
-        options: ['open', 'closed', 'all'],
+        options: ['open', 'closed'],
         width: 120
     },
     {
@@ -122,7 +183,15 @@ const defaultColumns: ColumnConfig[] = [
         header: 'Labels',
         visible: true,
         sortable: false,
-        filterType: 'text',
+        filterType: 'dropdown',
+        width: 200
+    },
+    {
+        id: 'milestone',
+        header: 'Milestone',
+        visible: true,
+        sortable: false,
+        filterType: 'dropdown',
         width: 200
     },
     {
@@ -232,6 +301,8 @@ const useDataCache = () => {
     const tablePageCacheRef = useRef<Record<string, number>>({});
     const isFetchingMoreRef = useRef<boolean>(false);
     const currentTablePageRef = useRef<number>(0);
+    // Server page cursors keyed by `${serverFilterKey}:${page}` (page 1 has no cursor)
+    const cursorCacheRef = useRef<Record<string, PageCursor | null>>({});
 
     /**
      * Clears all cached data and resets refs
@@ -240,6 +311,7 @@ const useDataCache = () => {
         dataCacheRef.current = {};
         serverPageCacheRef.current = {};
         tablePageCacheRef.current = {};
+        cursorCacheRef.current = {};
         setDataCache({});
         setServerPageCache({});
         currentTablePageRef.current = 0;
@@ -255,22 +327,38 @@ const useDataCache = () => {
         tablePageCacheRef,
         isFetchingMoreRef,
         currentTablePageRef,
+        cursorCacheRef,
         clearCache
     };
 };
 
 /**
  * Hook for managing table data accumulation and client-side filtering
- * Handles accumulating server data and applying search filters
+ * Handles accumulating server data and applying search filters; free-text terms go
+ * through the full-text index (useIssueTextSearch) and rank the results
  * 
- * @param debouncedSearchValue - Debounced search term
+ * @param owner - GitHub repository owner
+ * @param repo - GitHub repository name
+ * @param queryNodes - Search query terms left for the client (see planIssueQuery)
+ * @param maxTypos - Typo tolerance of free-text terms, 0 for exact words and prefixes
+ * @param typeFilter - Whether to show issues, pull requests or both
+ * @param anyOfLabels - Labels matched with "any of", empty when labels are filtered server-side
+ * @param dateRanges - Created/updated date ranges
+ * @param columnFilters - Filters set from the column header menus
  * @param serverData - Latest data from server
  * @param currentServerPage - Current server page number
  * @param cacheRefs - Cache references object
  * @returns Object with data state and setters
  */
 const useTableData = (
-    debouncedSearchValue: string,
+    owner: string,
+    repo: string,
+    queryNodes: IssueQueryNode[],
+    maxTypos: MaxTypos,
+    typeFilter: IssueTypeFilter,
+    anyOfLabels: string[],
+    dateRanges: IssueDateRanges,
+    columnFilters: ColumnFilters,
     serverData: GitHubIssue[] | undefined,
     currentServerPage: number,
     cacheRefs: CacheRefs
@@ -285,92 +373,166 @@ const useTableData = (
                     // Page 1: replace all data (new filter or refresh)
                     return serverData;
                 } else {
-                    // Other pages: append new data (pagination)
+                    // Other pages: refresh rows we already have (refetch after an edit), append the rest
+                    const freshById = new Map(serverData.map(item => [item.id, item]));
+                    const refreshed = prevData.map(item => freshById.get(item.id) ?? item);
                     const existingIds = new Set(prevData.map(item => item.id));
                     const newItems = serverData.filter(item => !existingIds.has(item.id));
-                    return [...prevData, ...newItems];
+                    return [...refreshed, ...newItems];
                 }
             });
         }
         // Reset the fetching flag when data arrives
         cacheRefs.isFetchingMoreRef.current = false;
-    }, [serverData, currentServerPage]);
+    }, [serverData, currentServerPage, cacheRefs.isFetchingMoreRef]);
+
+    // Mirror issue cache changes (optimistic edits, rollbacks, detail fetches) into loaded rows,
+    // which may come from server pages that are no longer the active query
+    const queryClient = useQueryClient();
+    useEffect(() => {
+        return onCachedIssueChange(queryClient, owner, repo, (issue) => {
+            setAllFetchedData(prevData => prevData.some(item => item.id === issue.id)
+                ? prevData.map(item => item.id === issue.id ? issue : item)
+                : prevData
+            );
+        });
+    }, [queryClient, owner, repo]);
+
+    // Positive free-text terms are looked up in the full-text index; the rest are matched per row
+    const searchTerms = useMemo<SearchTerm[]>(() => queryNodes.flatMap(node =>
+        node.type === 'text' && !node.negated ? [{ text: node.value, quoted: node.quoted }] : []
+    ), [queryNodes]);
+    const { hits: textHits, matchedTerms, isSearching: isTextSearching } = useIssueTextSearch(
+        owner,
+        repo,
+        allFetchedData,
+        searchTerms,
+        maxTypos
+    );
+
+    // Issues endpoint returns pull requests too, so type filtering is client-side
+    const typeFilteredData = useMemo(() => {
+        if (typeFilter === 'both') return allFetchedData;
+        const wantPullRequests = typeFilter === 'prs';
+        return allFetchedData.filter((issue: GitHubIssue) => !!issue.pull_request === wantPullRequests);
+    }, [allFetchedData, typeFilter]);
 
     // Client-side filtering of the accumulated data
-    // Note: State filtering is handled server-side, only search is client-side
+    // Note: State and "all of" label filtering are handled server-side; type, "any of" labels and search terms
+    // the server cannot apply are client-side
     const filteredData = useMemo(() => {
-        if (!allFetchedData || allFetchedData.length === 0) return [];
+        if (!typeFilteredData || typeFilteredData.length === 0) return [];
+
+        let filtered = typeFilteredData;
 
-        let filtered = allFetchedData;
+        if (anyOfLabels.length > 0) {
+            filtered = filtered.filter((issue: GitHubIssue) =>
+                issue.labels.some(label => anyOfLabels.includes(label.name))
+            );
+        }
 
-        // Apply search filter if search term exists
-        if (debouncedSearchValue) {
-            const searchTerm = debouncedSearchValue.toLowerCase();
+        // The server only takes an updated lower bound (since); every other bound is applied here
+        if (dateRanges.created || dateRanges.updated) {
             filtered = filtered.filter((issue: GitHubIssue) =>
-                issue.title.toLowerCase().includes(searchTerm) ||
-                issue.user.login.toLowerCase().includes(searchTerm) ||
-                issue.labels.some((label: any) => label.name.toLowerCase().includes(searchTerm))
+                isInDateRange(issue.created_at, dateRanges.created) &&
+                isInDateRange(issue.updated_at, dateRanges.updated)
             );
         }
 
+        // Column header filters AND with each other and with the search below
+        const matchesColumnFilters = buildColumnFiltersPredicate(columnFilters);
+        if (matchesColumnFilters) {
+            filtered = filtered.filter(matchesColumnFilters);
+        }
+
+        // Apply the search query terms the server could not; until the index first answers,
+        // free text is matched here too
+        const rowNodes = textHits
+            ? queryNodes.filter(node => node.type !== 'text' || node.negated)
+            : queryNodes;
+        if (rowNodes.length > 0) {
+            filtered = filtered.filter((issue: GitHubIssue) => matchesIssueQuery(issue, rowNodes));
+        }
+
+        // Full-text matches, best first; the table keeps this order unless a column is sorted
+        if (textHits) {
+            filtered = filtered
+                .filter((issue: GitHubIssue) => textHits.has(issue.number))
+                .sort((a, b) => textHits.get(b.number)!.score - textHits.get(a.number)!.score);
+        }
+
         return filtered;
-    }, [allFetchedData, debouncedSearchValue]);
+    }, [typeFilteredData, queryNodes, textHits, anyOfLabels, dateRanges, columnFilters]);
 
     return {
         allFetchedData,
         setAllFetchedData,
-        filteredData
+        typeFilteredData,
+        filteredData,
+        textHits,
+        matchedTerms,
+        isTextSearching
     };
 };
 
 /**
  * Hook for managing pagination logic and automatic data fetching
  * Determines when to fetch more data based on user's current page position
+ * and follows the server's rel="next" cursor until it is absent
  * 
  * @param table - React Table instance
- * @param filteredData - Current filtered data
  * @param loading - Loading state
  * @param isFetching - Fetching state
+ * @param currentServerPage - Last server page loaded
+ * @param nextCursor - Cursor of the next server page, null when there is none
+ * @param cursorKey - Builds the cursor cache key for a server page
  * @param cacheRefs - Cache references object
  * @param setCurrentServerPage - Function to update server page
  * @returns Object with pagination utilities
  */
 const usePaginationLogic = (
     table: any,
-    filteredData: GitHubIssue[],
     loading: boolean,
     isFetching: boolean,
+    currentServerPage: number,
+    nextCursor: PageCursor | null,
+    cursorKey: (page: number) => string,
     cacheRefs: CacheRefs,
     setCurrentServerPage: React.Dispatch<React.SetStateAction<number>>
 ) => {
     /**
-     * Checks if we need to fetch more data when user navigates near the end
-     * Triggers automatic fetching when user reaches the last page and more data might be available
+     * Fetches the next server page through rel="next", unless a page is already on its way
      */
-    const checkForMoreData = useCallback(() => {
+    const loadNextServerPage = useCallback(() => {
         // Prevent multiple simultaneous requests
-        if (cacheRefs.isFetchingMoreRef.current || loading || isFetching || !table) {
+        if (cacheRefs.isFetchingMoreRef.current || loading || isFetching || !table || !nextCursor) {
             return;
         }
 
+        // Store current page position before fetching more data
+        cacheRefs.currentTablePageRef.current = table.getState().pagination.pageIndex;
+        cacheRefs.isFetchingMoreRef.current = true;
+        cacheRefs.cursorCacheRef.current[cursorKey(currentServerPage + 1)] = nextCursor;
+        setCurrentServerPage(currentServerPage + 1);
+    }, [table, loading, isFetching, currentServerPage, nextCursor, cursorKey, cacheRefs.isFetchingMoreRef, cacheRefs.currentTablePageRef, cacheRefs.cursorCacheRef, setCurrentServerPage]);
+
+    /**
+     * Checks if we need to fetch more data when user navigates near the end
+     * Triggers automatic fetching when user reaches the last page and the server has a next page
+     */
+    const checkForMoreData = useCallback(() => {
+        if (!table) return;
+
         const currentPage = table.getState().pagination.pageIndex + 1;
         const totalPages = table.getPageCount();
 
-        // Check if we're on the last page and the current server page might have more data
-        const currentDataLength = filteredData.length;
-        const itemsInCurrentServerPage = currentDataLength % 100; // Server fetches 100 items per page
-        const isLastServerPageFull = itemsInCurrentServerPage === 0 && currentDataLength > 0;
-
-        // Fetch next server page if conditions are met
-        if (currentPage >= totalPages - 1 && isLastServerPageFull) {
-            // Store current page position before fetching more data
-            cacheRefs.currentTablePageRef.current = table.getState().pagination.pageIndex;
-            cacheRefs.isFetchingMoreRef.current = true;
-            setCurrentServerPage(prev => prev + 1);
+        // Fetch next server page if the user is near the end
+        if (currentPage >= totalPages - 1) {
+            loadNextServerPage();
         }
-    }, [filteredData.length, loading, isFetching, setCurrentServerPage]);
+    }, [table, loadNextServerPage]);
 
-    return { checkForMoreData };
+    return { checkForMoreData, loadNextServerPage };
 };
 
 // ============================================================================
@@ -381,23 +543,59 @@ const usePaginationLogic = (
  * Hook that returns memoized column definitions for the GitHub issues table
  * Defines how each column should be rendered and behave
  * 
+ * @param owner - GitHub repository owner (for row actions)
+ * @param repo - GitHub repository name (for row actions)
+ * @param onOpenIssue - Opens the issue detail drawer for an issue number
  * @returns Array of column definitions
  */
-const useTableColumns = (): ColumnDef<GitHubIssue>[] => {
+const useTableColumns = (
+    owner: string,
+    repo: string,
+    onOpenIssue: (issueNumber: number) => void
+): ColumnDef<GitHubIssue>[] => {
     return useMemo<ColumnDef<GitHubIssue>[]>(() => [
-        // Issue number column with link to GitHub
+        // Row selection for bulk actions (header checkbox selects the current page)
+        {
+            id: 'select',
+            header: ({ table }) => (
+                <TableCheckbox
+                    id="select-page"
+                    aria-label="Select all issues on this page"
+                    checked={
+                        table.getIsAllPageRowsSelected()
+                            ? true
+                            : table.getIsSomePageRowsSelected() ? 'indeterminate' : false
+                    }
+                    onCheckedChange={(checked) => table.toggleAllPageRowsSelected(checked === true)}
+                />
+            ),
+            enableSorting: false,
+            enableHiding: false,
+            cell: ({ row }) => (
+                <TableCheckbox
+                    id={`select-${row.id}`}
+                    aria-label={`Select issue #${row.original.number}`}
+                    checked={row.getIsSelected()}
+                    onCheckedChange={(checked) => row.toggleSelected(checked === true)}
+                />
+            ),
+        },
+        // Issue number column with link to GitHub (icon distinguishes pull requests)
         {
             id: 'number',
             accessorKey: 'number',
             header: 'Issue #',
             enableSorting: false,
             cell: ({ row }) => (
-                <LinkButton href={row.original.html_url} size="S">
-                    #{row.original.number}
-                </LinkButton>
+                <div className="flex items-center gap-1">
+                    <IssueTypeIcon issue={row.original} />
+                    <LinkButton href={row.original.html_url} size="S">
+                        #{row.original.number}
+                    </LinkButton>
+                </div>
             ),
         },
-        // Issue title column with link to GitHub
+        // Issue title column, opens the detail drawer
         {
             id: 'title',
             accessorKey: 'title',
@@ -406,12 +604,22 @@ const useTableColumns = (): ColumnDef<GitHubIssue>[] => {
             cell: ({ row }) => (
                 <div className="max-w-md">
                     <LinkButton
-                        href={row.original.html_url}
                         size="M"
+                        role="button"
+                        tabIndex={0}
                         title={row.original.title}
+                        className="cursor-pointer"
+                        onClick={() => onOpenIssue(row.original.number)}
+                        onKeyDown={(event) => {
+                            if (event.key === 'Enter' || event.key === ' ') {
+                                event.preventDefault();
+                                onOpenIssue(row.original.number);
+                            }
+                        }}
                     >
-                        {row.original.title}
+                        <HighlightedText text={row.original.title} />
                     </LinkButton>
+                    <SearchMatchInfo issueNumber={row.original.number} />
                 </div>
             ),
         },
@@ -446,7 +654,7 @@ const useTableColumns = (): ColumnDef<GitHubIssue>[] => {
                             {row.original.user.login.slice(0, 2).toUpperCase()}
                         </AvatarFallback>
                     </Avatar>
-                    <span className="text-sm">{row.original.user.login}</span>
+                    <span className="text-sm"><HighlightedText text={row.original.user.login} /></span>
                 </div>
             ),
         },
@@ -461,7 +669,7 @@ const useTableColumns = (): ColumnDef<GitHubIssue>[] => {
                     {row.original.labels.slice(0, 3).map((label) => (
                         <Badge
                             key={label.id}
-                            label={label.name}
+                            label={<HighlightedText text={label.name} />}
                             variant="highlight"
                             size="M"
                             data-theme="dark"
@@ -481,6 +689,16 @@ const useTableColumns = (): ColumnDef<GitHubIssue>[] => {
                 </div>
             ),
         },
+        // Milestone with due date and progress of its issues
+        {
+            id: 'milestone',
+            accessorFn: (row) => row.milestone?.title ?? '',
+            header: 'Milestone',
+            enableSorting: false,
+            cell: ({ row }) => row.original.milestone
+                ? <MilestoneCell milestone={row.original.milestone} />
+                : <span className="text-sm text-gray-400">—</span>,
+        },
         // Comments count with icon
         {
             id: 'comments',
@@ -518,13 +736,146 @@ const useTableColumns = (): ColumnDef<GitHubIssue>[] => {
                 </span>
             ),
         },
-    ], []);
+        // Row actions: close/reopen, lock/unlock, edit
+        {
+            id: 'actions',
+            header: '',
+            enableSorting: false,
+            enableHiding: false,
+            cell: ({ row }) => (
+                <IssueRowActions owner={owner} repo={repo} issue={row.original} />
+            ),
+        },
+    ], [owner, repo, onOpenIssue]);
 };
 
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
 
+/**
+ * Issue / pull request icon colored by state
+ */
+const IssueTypeIcon = ({ issue }: { issue: GitHubIssue }) => {
+    if (issue.pull_request) {
+        const colorClass = issue.pull_request.merged_at
+            ? 'text-purple-500'
+            : issue.state === 'open' ? 'text-green-500' : 'text-red-500';
+        return (
+            <span title={issue.pull_request.merged_at ? 'Merged pull request' : 'Pull request'}>
+                <GitPullRequest className={`w-4 h-4 ${colorClass}`} />
+            </span>
+        );
+    }
+
+    return (
+        <span title="Issue">
+            <CircleDot className={`w-4 h-4 ${issue.state === 'open' ? 'text-green-500' : 'text-purple-500'}`} />
+        </span>
+    );
+};
+
+/**
+ * Milestone title, due date and closed/total progress bar; overdue milestones are highlighted
+ */
+const MilestoneCell = ({ milestone }: { milestone: NonNullable<GitHubIssue['milestone']> }) => {
+    const total = milestone.open_issues + milestone.closed_issues;
+    const percent = total > 0 ? Math.round((milestone.closed_issues / total) * 100) : 0;
+    const isOverdue = isMilestoneOverdue(milestone);
+
+    return (
+        <div className="w-44 space-y-1">
+            <div className="flex items-center gap-1">
+                <Milestone className={cn("w-4 h-4 shrink-0", isOverdue ? "text-content-presentation-state-negative" : "text-gray-400")} />
+                <a
+                    href={milestone.html_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={milestone.title}
+                    className="text-sm truncate hover:underline"
+                >
+                    {milestone.title}
+                </a>
+            </div>
+            {milestone.due_on && (
+                <div className={cn("text-xs", isOverdue ? "text-content-presentation-state-negative" : "text-gray-600")}>
+                    {isOverdue ? 'Overdue since' : 'Due'} {format(new Date(milestone.due_on), 'MMM dd, yyyy')}
+                </div>
+            )}
+            <div
+                className="h-1.5 w-full rounded-full bg-background-system-body-tertiary overflow-hidden"
+                title={`${milestone.closed_issues} closed, ${milestone.open_issues} open`}
+            >
+                <div
+                    className={cn(
+                        "h-full",
+                        isOverdue
+                            ? "bg-background-presentation-state-negative-primary"
+                            : "bg-background-presentation-state-information-primary"
+                    )}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+        </div>
+    );
+};
+
+// Full-text hits of the current search and the words they matched, read by cells to show
+// where each row matched
+const TextSearchContext = React.createContext<{
+    hits: Map<number, IssueSearchHit>;
+    matchedTerms: Set<string>;
+} | null>(null);
+
+/**
+ * Text with the words matched by the current full-text search highlighted
+ */
+const HighlightedText = ({ text }: { text: string }) => {
+    const matchedTerms = useContext(TextSearchContext)?.matchedTerms;
+    const segments = useMemo(
+        () => matchedTerms && matchedTerms.size > 0 ? highlightTerms(text, matchedTerms) : null,
+        [text, matchedTerms]
+    );
+    if (!segments) return <>{text}</>;
+
+    return (
+        <>
+            {segments.map((segment, index) => segment.match ? (
+                <mark key={index} className="rounded-[2px] bg-yellow-200 text-inherit">{segment.text}</mark>
+            ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+            ))}
+        </>
+    );
+};
+
+const searchFieldLabels: Record<SearchField, string> = {
+    title: 'title',
+    labels: 'labels',
+    author: 'author',
+    body: 'description',
+    comments: 'comments'
+};
+
+/**
+ * Fields a full-text search matched, with an excerpt when the title itself did not match
+ */
+const SearchMatchInfo = ({ issueNumber }: { issueNumber: number }) => {
+    const hit = useContext(TextSearchContext)?.hits.get(issueNumber);
+    if (!hit) return null;
+
+    return (
+        <div className="mt-0.5 space-y-0.5 text-xs text-content-presentation-global-secondary">
+            <div>Matched in {hit.fields.map(field => searchFieldLabels[field]).join(', ')}</div>
+            {hit.snippet && (
+                <p className="line-clamp-2 break-words" title={`Matching ${searchFieldLabels[hit.snippet.field]}`}>
+                    {hit.snippet.text}
+                </p>
+            )}
+        </div>
+    );
+};
+
 /**
  * Loading skeleton component for table rows
  * Shows placeholder content while data is being fetched
@@ -541,27 +892,90 @@ const LoadingSkeleton = ({ columns }: { columns: ColumnDef<GitHubIssue>[] }) =>
     </div>
 );
 
+/**
+ * Error state presentation per error kind
+ */
+const errorStateContent: Record<GitHubApiErrorKind, { title: string; hint?: string; icon: React.ElementType }> = {
+    'not-found': {
+        title: 'Repository Not Found',
+        hint: 'Check the owner and repository name, or whether the repository is private.',
+        icon: FileQuestion
+    },
+    'rate-limited': {
+        title: 'Rate Limit Exceeded',
+        icon: Hourglass
+    },
+    'secondary-rate-limit': {
+        title: 'Too Many Requests',
+        hint: 'GitHub flagged a burst of requests. Wait a moment before trying again.',
+        icon: Hourglass
+    },
+    'auth': {
+        title: 'Authentication Required',
+        hint: 'The server GitHub token is missing, expired or lacks access to this repository.',
+        icon: KeyRound
+    },
+    'validation': {
+        title: 'Invalid Request',
+        icon: ShieldAlert
+    },
+    'network': {
+        title: 'Connection Problem',
+        icon: WifiOff
+    },
+    'server': {
+        title: 'GitHub Is Having Trouble',
+        hint: 'This is usually temporary.',
+        icon: AlertTriangle
+    },
+    'conflict': {
+        title: 'Edit Conflict',
+        hint: 'The issue changed on GitHub after it was loaded.',
+        icon: AlertTriangle
+    },
+    'unknown': {
+        title: 'Error Loading Issues',
+        icon: AlertTriangle
+    }
+};
+
 /**
  * Error state component
- * Displays error message with retry button
+ * Displays an error message tailored to the error kind with a retry button
  */
 interface ErrorStateProps {
-    error: any;
+    error: ApiError;
     onRetry: () => void;
 }
 
-const ErrorState = ({ error, onRetry }: ErrorStateProps) => (
-    <div className="text-center py-8 flex flex-col items-center justify-center">
-        <div className="text-red-600 mb-4">
-            <AlertTriangle className="w-16 h-16 mx-auto" />
+const ErrorState = ({ error, onRetry }: ErrorStateProps) => {
+    const { title, hint, icon: Icon } = errorStateContent[error.kind] ?? errorStateContent.unknown;
+    const msUntilReset = useResetCountdown(error.kind === 'rate-limited' ? error.resetAt : undefined);
+
+    return (
+        <div className="text-center py-8 flex flex-col items-center justify-center">
+            <div className="text-red-600 mb-4">
+                <Icon className="w-16 h-16 mx-auto" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{title}</h3>
+            <p className="text-gray-600 mb-2">{error.message}</p>
+            {hint && <p className="text-sm text-gray-400 mb-2">{hint}</p>}
+            {error.kind === 'rate-limited' && msUntilReset > 0 && (
+                <p className="text-sm text-gray-400 mb-2">Resets in {formatCountdown(msUntilReset)}</p>
+            )}
+            {error.documentationUrl && (
+                <LinkButton href={error.documentationUrl} size="S" className="mb-2">
+                    GitHub documentation
+                </LinkButton>
+            )}
+            {error.kind !== 'not-found' && (
+                <Button onClick={onRetry} variant="BorderStyle" className="mt-2">
+                    Try Again
+                </Button>
+            )}
         </div>
-        <h3 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Issues</h3>
-        <p className="text-gray-600 mb-4">{error?.message}</p>
-        <Button onClick={onRetry} variant="BorderStyle">
-            Try Again
-        </Button>
-    </div>
-);
+    );
+};
 
 /**
  * Empty state component when no data is found
@@ -577,6 +991,114 @@ const EmptyState = () => (
     </div>
 );
 
+/**
+ * Rate-limited state component
+ * Shown instead of the empty state while queries are paused until the budget resets
+ */
+const RateLimitedState = ({ resource = 'core' }: { resource?: RateLimitResource }) => {
+    const { rateLimit } = useRateLimit(resource);
+    const msUntilReset = useResetCountdown(rateLimit?.resetAt);
+
+    return (
+        <div className="text-center py-8 flex flex-col items-center justify-center">
+            <div className="text-yellow-500 mb-4">
+                <Hourglass className="w-16 h-16 mx-auto" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">API Budget Exhausted</h3>
+            <p className="text-gray-600">
+                Requests are paused and will resume automatically in {formatCountdown(msUntilReset)}.
+            </p>
+        </div>
+    );
+};
+
+/**
+ * Formats a millisecond duration as m:ss (or h:mm:ss for longer waits)
+ */
+const formatCountdown = (ms: number): string => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+        : `${minutes}:${seconds}`;
+};
+
+/**
+ * Rate-limit budget indicator
+ * Shows remaining GitHub API calls and a live countdown to the next reset
+ */
+const RateLimitIndicator = ({ resource = 'core' }: { resource?: RateLimitResource }) => {
+    const { rateLimit, isExhausted } = useRateLimit(resource);
+    const msUntilReset = useResetCountdown(rateLimit?.resetAt);
+
+    if (!rateLimit) return null;
+
+    const ratio = rateLimit.limit > 0 ? rateLimit.remaining / rateLimit.limit : 0;
+    const colorClass = isExhausted || ratio < 0.1
+        ? 'text-red-500'
+        : ratio < 0.25 ? 'text-yellow-500' : 'text-gray-400';
+
+    return (
+        <span
+            className={`flex items-center gap-1 text-xs ${colorClass}`}
+            title={`GitHub API budget (${rateLimit.resource}): ${rateLimit.used} used of ${rateLimit.limit}`}
+        >
+            <Gauge className="w-3 h-3" />
+            {rateLimit.remaining.toLocaleString()}/{rateLimit.limit.toLocaleString()} {resource === 'search' ? 'searches' : 'API calls'}
+            {msUntilReset > 0 && <> • resets in {formatCountdown(msUntilReset)}</>}
+        </span>
+    );
+};
+
+/**
+ * Total issue count with an exact/estimated marker
+ */
+const issueTypeNouns: Record<IssueTypeFilter, string> = {
+    issues: 'issues',
+    prs: 'pull requests',
+    both: 'issues & pull requests'
+};
+
+const TotalCountLabel = ({ count, isExact, typeFilter }: { count: number; isExact: boolean; typeFilter: IssueTypeFilter }) => (
+    <span title={isExact ? 'Exact count' : 'Estimated from pagination links'}>
+        {isExact ? '' : '~'}{count.toLocaleString()} total {issueTypeNouns[typeFilter]}
+        {!isExact && <span className="text-xs text-gray-400"> (estimated)</span>}
+    </span>
+);
+
+/**
+ * Human readable labels for apiClient retry reasons
+ */
+const retryReasonLabels: Record<RetryReason, string> = {
+    'secondary-rate-limit': 'secondary rate limit',
+    'rate-limited': 'rate limit reset',
+    'server': 'GitHub server error',
+    'network': 'network error'
+};
+
+/**
+ * Retry progress indicator
+ * Shows the latest request apiClient is waiting to retry and when it will be sent
+ */
+const RetryStatusIndicator = () => {
+    const retries = useRetryStatus();
+    const latest = retries[retries.length - 1];
+    const msUntilRetry = useResetCountdown(latest?.retryAt);
+
+    if (!latest) return null;
+
+    return (
+        <span className="flex items-center gap-1 text-xs text-yellow-500" title={latest.url}>
+            <RefreshCw className="w-3 h-3 animate-spin" />
+            Retrying ({latest.attempt}/{latest.maxRetries}) in {formatCountdown(msUntilRetry)}
+            {' '}• {retryReasonLabels[latest.reason]}
+            {retries.length > 1 && <> • {retries.length} requests waiting</>}
+        </span>
+    );
+};
+
 /**
  * Table header with repository info and action controls
  * Contains refresh button, cache controls, and column visibility toggle
@@ -585,12 +1107,16 @@ interface TableHeaderProps {
     owner: string;
     repo: string;
     totalItems: number;
+    totalCount: number;
+    isTotalCountExact: boolean;
+    typeFilter: IssueTypeFilter;
     currentServerPage: number;
     isFetching: boolean;
     isRefetching: boolean;
     cacheCount: number;
     onRefresh: () => void;
     onClearCache: () => void;
+    onNewIssue: () => void;
     columnVisibility: Record<string, boolean>;
     onColumnVisibilityChange: (visibility: Record<string, boolean>) => void;
     loading: boolean;
@@ -600,12 +1126,16 @@ const TableHeader = ({
     owner,
     repo,
     totalItems,
+    totalCount,
+    isTotalCountExact,
+    typeFilter,
     currentServerPage,
     isFetching,
     isRefetching,
     cacheCount,
     onRefresh,
     onClearCache,
+    onNewIssue,
     columnVisibility,
     onColumnVisibilityChange,
     loading
@@ -613,10 +1143,16 @@ const TableHeader = ({
     <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
             <h2 className="typography-headers-medium-medium text-content-presentation-global-primary">
-                {owner}/{repo} Issues
+                {owner}/{repo} {typeFilter === 'prs' ? 'Pull Requests' : 'Issues'}
             </h2>
             <div className="typography-body-small-medium flex items-center gap-2 text-content-presentation-global-secondary">
-                {totalItems} total issues
+                <TotalCountLabel count={totalCount} isExact={isTotalCountExact} typeFilter={typeFilter} />
+                {/* Show how many issues are loaded when it differs from the total */}
+                {totalItems !== totalCount && (
+                    <span className="text-xs text-gray-400">
+                        ({totalItems.toLocaleString()} loaded)
+                    </span>
+                )}
                 {/* Show current server page if more than 1 page loaded */}
                 {currentServerPage > 1 && (
                     <span className="text-xs text-gray-400">
@@ -633,10 +1169,20 @@ const TableHeader = ({
                         • {cacheCount} filter combinations cached
                     </span>
                 )}
+                {/* Show remaining API budget */}
+                <RateLimitIndicator />
+                {/* Show pending retries (backoff, Retry-After, rate-limit reset) */}
+                <RetryStatusIndicator />
             </div>
         </div>
 
         <div className="flex items-center gap-2">
+            {/* New issue button */}
+            <Button onClick={onNewIssue} size="XL">
+                <Plus className="w-4 h-4 mr-2" />
+                New issue
+            </Button>
+
             {/* Refresh button */}
             <Button
                 onClick={onRefresh}
@@ -685,35 +1231,133 @@ const TableHeader = ({
     </div>
 );
 
+// Whole-repo search sends the text as typed, so nothing is planned client-side
+const EMPTY_QUERY_PLAN: IssueQueryPlan = { server: {}, clientNodes: [] };
+
+// Newest first until the user sorts a column; no sort keeps the data order, e.g. best match first
+const DEFAULT_SORTING: SortingState = [{ id: 'created_at', desc: true }];
+const DATA_ORDER_SORTING: SortingState = [];
+
+// Created/updated date range filters; null when unset
+interface IssueDateRanges {
+    created: DateRangeFilterValue | null;
+    updated: DateRangeFilterValue | null;
+}
+
+// Login filters passed to the issues endpoint; null when unset
+interface UserFilters {
+    assignee: string | null;
+    creator: string | null;
+    mentioned: string | null;
+}
+
+const assigneeSpecialOptions: UserFilterOption[] = [
+    { value: ASSIGNEE_NONE, label: 'Assigned to nobody' },
+    { value: ASSIGNEE_ANY, label: 'Assigned to anyone' }
+];
+
 /**
  * Filter controls component
  * Contains search input, state filter, and page size selector
  */
 interface FilterControlsProps {
+    owner: string;
+    repo: string;
     searchValue: string;
     onSearchChange: (value: string) => void;
+    // Parse errors of parsedSearchValue, the debounced query
+    searchErrors: IssueQueryError[];
+    parsedSearchValue: string;
+    // Full-text index still answering the current query
+    isTextSearching: boolean;
+    maxTypos: MaxTypos;
+    onMaxTyposChange: (maxTypos: MaxTypos) => void;
+    searchMode: SearchMode;
+    onSearchModeChange: (mode: SearchMode) => void;
     stateFilter: string;
     onStateFilterChange: (value: string) => void;
+    typeFilter: IssueTypeFilter;
+    onTypeFilterChange: (value: IssueTypeFilter) => void;
+    labelFilter: string[];
+    onLabelFilterChange: (labels: string[]) => void;
+    labelMatchMode: LabelMatchMode;
+    onLabelMatchModeChange: (mode: LabelMatchMode) => void;
+    userFilters: UserFilters;
+    onUserFiltersChange: (filters: UserFilters) => void;
+    milestoneFilter: string | null;
+    onMilestoneFilterChange: (milestone: string | null) => void;
+    dateRanges: IssueDateRanges;
+    onDateRangesChange: (ranges: IssueDateRanges) => void;
     pageSize: number;
     onPageSizeChange: (size: number) => void;
 }
 
 const FilterControls = ({
+    owner,
+    repo,
     searchValue,
     onSearchChange,
+    searchErrors,
+    parsedSearchValue,
+    isTextSearching,
+    maxTypos,
+    onMaxTyposChange,
+    searchMode,
+    onSearchModeChange,
     stateFilter,
     onStateFilterChange,
+    typeFilter,
+    onTypeFilterChange,
+    labelFilter,
+    onLabelFilterChange,
+    labelMatchMode,
+    onLabelMatchModeChange,
+    userFilters,
+    onUserFiltersChange,
+    milestoneFilter,
+    onMilestoneFilterChange,
+    dateRanges,
+    onDateRangesChange,
     pageSize,
     onPageSizeChange
 }: FilterControlsProps) => (
-    <div className="flex gap-4">
-        {/* Search input */}
-        <InputField
-            placeholder="Search issues..."
+    <div className="flex flex-wrap gap-4">
+        {/* Search query (qualifiers the API supports run server-side, the rest client-side) */}
+        <IssueQueryInput
+            owner={owner}
+            repo={repo}
             value={searchValue}
-            onChange={(e) => onSearchChange(e.target.value)}
+            onChange={onSearchChange}
+            errors={searchErrors}
+            parsedValue={parsedSearchValue}
+            isSearching={isTextSearching}
         />
 
+        {/* Search scope: narrow the loaded pages, or query the search API */}
+        <Select value={searchMode} onValueChange={(value) => onSearchModeChange(value as SearchMode)}>
+            <SelectTrigger size="XL" aria-label="Search scope">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="loaded">Filter loaded rows</SelectItem>
+                <SelectItem value="repo">Search whole repo</SelectItem>
+            </SelectContent>
+        </Select>
+
+        {/* Typo tolerance of the full-text search; the search API only matches exact words */}
+        {searchMode === 'loaded' && (
+            <Select value={String(maxTypos)} onValueChange={(value) => onMaxTyposChange(Number(value) as MaxTypos)}>
+                <SelectTrigger size="XL" aria-label="Typo tolerance">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="0">Exact words</SelectItem>
+                    <SelectItem value="1">Allow 1 typo</SelectItem>
+                    <SelectItem value="2">Allow 2 typos</SelectItem>
+                </SelectContent>
+            </Select>
+        )}
+
         {/* State filter dropdown */}
         <Select value={stateFilter} onValueChange={onStateFilterChange}>
             <SelectTrigger size="XL">
@@ -726,6 +1370,72 @@ const FilterControls = ({
             </SelectContent>
         </Select>
 
+        {/* Type filter dropdown (the issues endpoint also returns pull requests) */}
+        <Select value={typeFilter} onValueChange={(value) => onTypeFilterChange(value as IssueTypeFilter)}>
+            <SelectTrigger size="XL">
+                <SelectValue placeholder="Select type..." />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="issues">Issues</SelectItem>
+                <SelectItem value="prs">Pull requests</SelectItem>
+                <SelectItem value="both">Both</SelectItem>
+            </SelectContent>
+        </Select>
+
+        {/* Label filter (all of: server-side, any of: client-side) */}
+        <LabelFilter
+            owner={owner}
+            repo={repo}
+            selectedLabels={labelFilter}
+            onSelectedLabelsChange={onLabelFilterChange}
+            matchMode={labelMatchMode}
+            onMatchModeChange={onLabelMatchModeChange}
+        />
+
+        {/* Login filters (server-side) */}
+        <UserFilter
+            owner={owner}
+            repo={repo}
+            label="Assignee"
+            value={userFilters.assignee}
+            onChange={(assignee) => onUserFiltersChange({ ...userFilters, assignee })}
+            specialOptions={assigneeSpecialOptions}
+        />
+        <UserFilter
+            owner={owner}
+            repo={repo}
+            label="Author"
+            value={userFilters.creator}
+            onChange={(creator) => onUserFiltersChange({ ...userFilters, creator })}
+        />
+        <UserFilter
+            owner={owner}
+            repo={repo}
+            label="Mentions"
+            value={userFilters.mentioned}
+            onChange={(mentioned) => onUserFiltersChange({ ...userFilters, mentioned })}
+        />
+
+        {/* Milestone filter (server-side) */}
+        <MilestoneFilter
+            owner={owner}
+            repo={repo}
+            value={milestoneFilter}
+            onChange={onMilestoneFilterChange}
+        />
+
+        {/* Date ranges (updated lower bound server-side via since, the rest client-side) */}
+        <DateRangeFilter
+            label="Created"
+            value={dateRanges.created}
+            onChange={(created) => onDateRangesChange({ ...dateRanges, created })}
+        />
+        <DateRangeFilter
+            label="Updated"
+            value={dateRanges.updated}
+            onChange={(updated) => onDateRangesChange({ ...dateRanges, updated })}
+        />
+
         {/* Page size selector */}
         <Select
             value={pageSize.toString()}
@@ -743,6 +1453,147 @@ const FilterControls = ({
     </div>
 );
 
+interface ColumnFilterChipsProps {
+    filters: ColumnFilters;
+    onRemove: (columnId: string) => void;
+    onClearAll: () => void;
+}
+
+/**
+ * Active column header filters as removable chips
+ */
+const ColumnFilterChips = ({ filters, onRemove, onClearAll }: ColumnFilterChipsProps) => {
+    const entries = Object.entries(filters);
+    if (entries.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {entries.map(([columnId, filter]) => {
+                const header = defaultColumns.find(col => col.id === columnId)?.header ?? columnId;
+                return (
+                    <Badge
+                        key={columnId}
+                        variant="gray"
+                        size="M"
+                        label={`${header} ${describeColumnFilter(filter)}`}
+                        isSelected
+                        onUnselect={() => onRemove(columnId)}
+                        aria-label={`${header} filter`}
+                    />
+                );
+            })}
+            {entries.length > 1 && (
+                <LinkButton size="S" onClick={onClearAll}>
+                    Clear column filters
+                </LinkButton>
+            )}
+        </div>
+    );
+};
+
+interface SearchStatusProps {
+    owner: string;
+    repo: string;
+    totalCount: number;
+    incompleteResults: boolean;
+    isFetching: boolean;
+}
+
+/**
+ * Whole-repository search summary: exact match count, result cap, incomplete results
+ * and the search API budget (30 requests a minute)
+ */
+const SearchStatus = ({ owner, repo, totalCount, incompleteResults, isFetching }: SearchStatusProps) => (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 typography-body-small-regular text-content-presentation-global-secondary">
+        <span className="flex items-center gap-1">
+            {totalCount.toLocaleString()} {totalCount === 1 ? 'match' : 'matches'} in {owner}/{repo}
+            {isFetching && <SpinLoading className="w-4 h-4" />}
+        </span>
+        {totalCount > SEARCH_RESULT_LIMIT && (
+            <span className="text-xs text-gray-400">
+                GitHub serves only the first {SEARCH_RESULT_LIMIT.toLocaleString()}; narrow the query to see the rest
+            </span>
+        )}
+        {incompleteResults && (
+            <span className="flex items-center gap-1 text-xs text-yellow-500">
+                <AlertTriangle className="w-3 h-3" />
+                The search timed out on GitHub, so some matches may be missing
+            </span>
+        )}
+        <RateLimitIndicator resource="search" />
+    </div>
+);
+
+interface SearchPaginationControlsProps {
+    page: number;
+    totalPages: number;
+    pageSize: number;
+    totalCount: number;
+    onPageChange: (page: number) => void;
+    isFetching: boolean;
+}
+
+/**
+ * Pagination for whole-repository search, one search request per page
+ */
+const SearchPaginationControls = ({
+    page,
+    totalPages,
+    pageSize,
+    totalCount,
+    onPageChange,
+    isFetching
+}: SearchPaginationControlsProps) => (
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="text-xs sm:text-sm text-gray-600">
+            Showing {((page - 1) * pageSize) + 1} to{' '}
+            {Math.min(page * pageSize, totalCount, SEARCH_RESULT_LIMIT)} of{' '}
+            {totalCount.toLocaleString()} results
+        </div>
+        <div className="flex items-center justify-center gap-1 sm:gap-2">
+            <ActionButton
+                variant="BorderStyle"
+                onClick={() => onPageChange(1)}
+                disabled={page <= 1 || isFetching}
+                size="M"
+                title="First page"
+            >
+                <ChevronFirst className="w-3 h-3 sm:w-4 sm:h-4" />
+            </ActionButton>
+            <ActionButton
+                variant="BorderStyle"
+                onClick={() => onPageChange(page - 1)}
+                disabled={page <= 1 || isFetching}
+                size="M"
+                title="Previous page"
+            >
+                <ChevronLeft className="w-3 h-3 sm:w-4 sm:h-4" />
+            </ActionButton>
+            <span className="px-2 sm:px-4 py-1 sm:py-2 text-xs sm:text-sm text-content-presentation-global-secondary whitespace-nowrap">
+                Page {page} of {totalPages}
+            </span>
+            <ActionButton
+                variant="BorderStyle"
+                onClick={() => onPageChange(page + 1)}
+                disabled={page >= totalPages || isFetching}
+                size="M"
+                title="Next page"
+            >
+                <ChevronRight className="w-3 h-3 sm:w-4 sm:h-4" />
+            </ActionButton>
+            <ActionButton
+                variant="BorderStyle"
+                onClick={() => onPageChange(totalPages)}
+                disabled={page >= totalPages || isFetching}
+                size="M"
+                title="Last page"
+            >
+                <ChevronLast className="w-3 h-3 sm:w-4 sm:h-4" />
+            </ActionButton>
+        </div>
+    </div>
+);
+
 /**
  * Pagination controls component
  * Contains navigation buttons and page information
@@ -752,6 +1603,9 @@ interface PaginationControlsProps {
     totalPages: number;
     pageSize: number;
     totalItems: number;
+    totalCount: number;
+    isTotalCountExact: boolean;
+    typeFilter: IssueTypeFilter;
     table: any;
     onPageChange: (page: number) => void;
     onCheckForMoreData: () => void;
@@ -763,6 +1617,9 @@ const PaginationControls = ({
     totalPages,
     pageSize,
     totalItems,
+    totalCount,
+    isTotalCountExact,
+    typeFilter,
     table,
     onPageChange,
     onCheckForMoreData,
@@ -777,6 +1634,12 @@ const PaginationControls = ({
                     {Math.min(currentPage * pageSize, totalItems)} of{' '}
                     {totalItems} results
                 </span>
+                {totalCount !== totalItems && (
+                    <span className="text-gray-400 sm:ml-2">
+                        <span className="hidden sm:inline">• </span>
+                        <TotalCountLabel count={totalCount} isExact={isTotalCountExact} typeFilter={typeFilter} />
+                    </span>
+                )}
                 {totalPages > 1 && (
                     <span className="text-gray-400 sm:ml-2">
                         <span className="hidden sm:inline">• </span>
@@ -894,41 +1757,205 @@ export function GitHubIssuesDataTable({
 
     // Core state management
     const [stateFilter, setStateFilter] = useState<string>('all');
+    const [typeFilter, setTypeFilter] = useState<IssueTypeFilter>('issues');
+    const [labelFilter, setLabelFilter] = useState<string[]>([]);
+    const [labelMatchMode, setLabelMatchMode] = useState<LabelMatchMode>('all');
+    const [userFilters, setUserFilters] = useState<UserFilters>({ assignee: null, creator: null, mentioned: null });
+    const [milestoneFilter, setMilestoneFilter] = useState<string | null>(null);
+    const [dateRanges, setDateRanges] = useState<IssueDateRanges>({ created: null, updated: null });
+    const [columnFilters, setColumnFilters] = useState<ColumnFilters>({});
+    const [searchMode, setSearchMode] = useState<SearchMode>('loaded');
+    const [maxTypos, setMaxTypos] = useState<MaxTypos>(0);
+    // Whole-repo search pages are requested one at a time, separately from the loaded rows' pagination
+    const [searchPage, setSearchPage] = useState<number>(1);
+    const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: 25 });
+    const [sorting, setSorting] = useState<SortingState>(DEFAULT_SORTING);
     const [currentServerPage, setCurrentServerPage] = useState<number>(1);
+    const [selectedIssueNumber, setSelectedIssueNumber] = useState<number | null>(null);
+    const [isCreatingIssue, setIsCreatingIssue] = useState(false);
+    // Selected rows keyed by issue number (see getRowId)
+    const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+    // "Select all matching": keeps every matching issue selected, loading the ones not shown yet
+    const [isAllMatchingSelected, setIsAllMatchingSelected] = useState(false);
+    // Every match of the whole-repo search, fetched for "select all matching"
+    const [searchMatches, setSearchMatches] = useState<GitHubIssue[] | null>(null);
+    const [isLoadingSearchMatches, setIsLoadingSearchMatches] = useState(false);
+    // Bumped when the selection resets, so a search match fetch that is still running is ignored
+    const selectAllRequestRef = useRef(0);
 
     // Custom hooks for specific functionality
     const { searchValue, debouncedSearchValue, setSearchValue } = useSearchDebounce();
     const { columnVisibility, setColumnVisibility } = useColumnVisibility(owner, repo);
     const cacheHook = useDataCache();
-    const columns = useTableColumns();
+    const columns = useTableColumns(owner, repo, setSelectedIssueNumber);
 
     // ========================================================================
     // DATA FETCHING & SERVER COMMUNICATION
     // ========================================================================
 
     // Server-side pagination parameters
+    // Search query: qualifiers the issues endpoint supports go to the server unless a filter
+    // control already sets that parameter; everything else is evaluated over the loaded rows
+    // In whole-repo mode the text goes to the search API as typed instead
+    const isRepoSearch = searchMode === 'repo';
+    const parsedQuery = useMemo(() => parseIssueQuery(debouncedSearchValue), [debouncedSearchValue]);
+    // Searching for text ranks by best match, unless the user sorted a column themselves
+    const hasSearchText = parsedQuery.nodes.some(node => node.type === 'text' && !node.negated);
+    const tableSorting = hasSearchText && sorting === DEFAULT_SORTING ? DATA_ORDER_SORTING : sorting;
+    const queryPlan = useMemo(() => isRepoSearch ? EMPTY_QUERY_PLAN : planIssueQuery(parsedQuery, {
+        state: stateFilter !== 'all',
+        assignee: !!userFilters.assignee,
+        creator: !!userFilters.creator,
+        mentioned: !!userFilters.mentioned,
+        milestone: !!milestoneFilter,
+        since: !!dateRanges.updated?.from
+    }), [isRepoSearch, parsedQuery, stateFilter, userFilters, milestoneFilter, dateRanges.updated?.from]);
+
+    const effectiveState = queryPlan.server.state ?? stateFilter;
+    // is:issue / is:pr override the type control, in whole-repo mode too so the qualifier it adds
+    // does not contradict the typed text
+    const effectiveType = getIssueQueryType(parsedQuery) ?? typeFilter;
+    const effectiveAssignee = userFilters.assignee ?? queryPlan.server.assignee;
+    const effectiveCreator = userFilters.creator ?? queryPlan.server.creator;
+    const effectiveMentioned = userFilters.mentioned ?? queryPlan.server.mentioned;
+    const effectiveMilestone = milestoneFilter ?? queryPlan.server.milestone;
+    const effectiveSince = dateRanges.updated?.from?.toISOString() ?? queryPlan.server.since;
+    // GitHub ANDs the labels parameter; "any of" is matched client-side over unfiltered pages
+    const serverLabels = useMemo(
+        () => [...(labelMatchMode === 'all' ? labelFilter : []), ...(queryPlan.server.labels ?? [])],
+        [labelFilter, labelMatchMode, queryPlan.server.labels]
+    );
+
+    // Server-side filters; the cursor cache is keyed by these since cursors encode them
+    const serverFilters = useMemo(() => ({
+        state: effectiveState,
+        ...(serverLabels.length > 0 && { labels: serverLabels }),
+        ...(effectiveAssignee && { assignee: effectiveAssignee }),
+        ...(effectiveCreator && { creator: effectiveCreator }),
+        ...(effectiveMentioned && { mentioned: effectiveMentioned }),
+        ...(effectiveMilestone && { milestone: effectiveMilestone }),
+        ...(effectiveSince && { since: effectiveSince })
+    }), [effectiveState, serverLabels, effectiveAssignee, effectiveCreator, effectiveMentioned, effectiveMilestone, effectiveSince]);
+    const serverFilterKey = JSON.stringify(serverFilters);
+    const cursorKey = useCallback((page: number) => `${serverFilterKey}:${page}`, [serverFilterKey]);
+
     const serverHookParams = useMemo(() => ({
         owner,
         repo,
         sorting: [],
-        filters: { state: stateFilter }, // State filtering handled server-side
+        filters: serverFilters, // State filtering handled server-side
         pagination: { page: currentServerPage, pageSize: 100, total: 0 },
+        // Page 1 is built from params, later pages follow the rel="next" cursor
+        cursor: currentServerPage > 1 ? cacheHook.cursorCacheRef.current[cursorKey(currentServerPage)] ?? null : null,
         enabled: true
-    }), [owner, repo, stateFilter, currentServerPage]);
+    }), [owner, repo, serverFilters, currentServerPage, cursorKey, cacheHook.cursorCacheRef]);
 
     // Data fetching with TanStack Query hook
-    const { data: serverData, loading, error, refetch, isRefetching, isFetching } = useGitHubIssues(serverHookParams);
+    const {
+        data: serverData,
+        loading,
+        error,
+        refetch,
+        isRefetching,
+        isFetching,
+        isRateLimited,
+        totalCount: estimatedTotalCount,
+        isTotalCountExact: isEstimateExact,
+        nextCursor
+    } = useGitHubIssues(serverHookParams);
+
+    // The search API filters milestones by title, the issues endpoint by number
+    const { data: milestones } = useRepoMilestones(owner, repo, 'all', !!effectiveMilestone);
+    const milestoneQualifier = effectiveMilestone === MILESTONE_NONE || effectiveMilestone === MILESTONE_ANY
+        ? effectiveMilestone
+        : milestones?.find(milestone => String(milestone.number) === effectiveMilestone)?.title;
+
+    // Count with the same updated lower bound the list sends as since, which an updated: query
+    // term may have set
+    const countUpdatedRange = useMemo<DateRangeFilterValue | null>(() => {
+        const from = effectiveSince ? new Date(effectiveSince) : undefined;
+        return from || dateRanges.updated?.to ? { from, to: dateRanges.updated?.to } : null;
+    }, [effectiveSince, dateRanges.updated?.to]);
+
+    // Exact total from the search API per state filter, falling back to the Link estimate
+    const { totalCount, isExact: isCountExact } = useIssueCount({
+        owner,
+        repo,
+        state: effectiveState as 'open' | 'closed' | 'all',
+        type: effectiveType,
+        labels: labelMatchMode === 'all' ? serverLabels : labelFilter,
+        labelMatchMode,
+        assignee: effectiveAssignee,
+        creator: effectiveCreator,
+        mentioned: effectiveMentioned,
+        milestone: milestoneQualifier,
+        created: dateRanges.created,
+        updated: countUpdatedRange,
+        estimatedCount: estimatedTotalCount,
+        // The issues endpoint counts pull requests too
+        isEstimateExact: isEstimateExact && effectiveType === 'both',
+        // Wait for the milestone title rather than counting without it; search results carry their own count
+        enabled: !isRepoSearch && (!effectiveMilestone || !!milestoneQualifier)
+    });
+    // Query terms and column filters matched over the loaded rows are not part of the count
+    const hasClientOnlyFilters = queryPlan.clientNodes.length > 0 || Object.values(columnFilters).some(isColumnFilterActive);
+    const isTotalCountExact = isCountExact && !hasClientOnlyFilters;
+
+    // Whole-repo search; the search API sorts by created, updated or comments only, and by best
+    // match when no column is sorted
+    const searchFilters = useMemo<IssueCountFilters>(() => ({
+        labels: labelFilter,
+        labelMatchMode,
+        assignee: userFilters.assignee ?? undefined,
+        creator: userFilters.creator ?? undefined,
+        mentioned: userFilters.mentioned ?? undefined,
+        milestone: milestoneQualifier,
+        created: dateRanges.created,
+        updated: dateRanges.updated
+    }), [labelFilter, labelMatchMode, userFilters, milestoneQualifier, dateRanges]);
+    const primarySort = tableSorting[0];
+    const search = useIssueSearch({
+        owner,
+        repo,
+        text: debouncedSearchValue,
+        state: stateFilter as 'open' | 'closed' | 'all',
+        type: effectiveType,
+        filters: searchFilters,
+        sort: !primarySort ? undefined : primarySort.id === 'updated_at' ? 'updated' : primarySort.id === 'comments' ? 'comments' : 'created',
+        order: primarySort && !primarySort.desc ? 'asc' : 'desc',
+        page: searchPage,
+        perPage: pagination.pageSize,
+        enabled: isRepoSearch && (!milestoneFilter || !!milestoneQualifier)
+    });
 
     // ========================================================================
     // DATA PROCESSING & CACHING LOGIC
     // ========================================================================
 
-    // Cache management for different filter combinations
-    const filterKey = `${stateFilter}-${debouncedSearchValue}`;
+    // Cache management for different server filter combinations. Client-side filters (type, search,
+    // "any of" labels) narrow the same fetched rows, so they must not get a cache entry of their own:
+    // switching to one would start from an empty list without triggering a fetch.
+    const filterKey = serverFilterKey;
+    const anyOfLabels = useMemo(() => labelMatchMode === 'any' ? labelFilter : [], [labelFilter, labelMatchMode]);
 
     // Table data management with caching
-    const { allFetchedData, setAllFetchedData, filteredData } = useTableData(
-        debouncedSearchValue,
+    const {
+        allFetchedData,
+        setAllFetchedData,
+        typeFilteredData,
+        filteredData,
+        textHits,
+        matchedTerms,
+        isTextSearching
+    } = useTableData(
+        owner,
+        repo,
+        queryPlan.clientNodes,
+        maxTypos,
+        effectiveType,
+        anyOfLabels,
+        dateRanges,
+        columnFilters,
         serverData,
         currentServerPage,
         {
@@ -936,10 +1963,37 @@ export function GitHubIssuesDataTable({
             serverPageCacheRef: cacheHook.serverPageCacheRef,
             tablePageCacheRef: cacheHook.tablePageCacheRef,
             isFetchingMoreRef: cacheHook.isFetchingMoreRef,
-            currentTablePageRef: cacheHook.currentTablePageRef
+            currentTablePageRef: cacheHook.currentTablePageRef,
+            cursorCacheRef: cacheHook.cursorCacheRef
         }
     );
 
+    const textSearch = useMemo(
+        () => textHits && matchedTerms ? { hits: textHits, matchedTerms } : null,
+        [textHits, matchedTerms]
+    );
+
+    // Column filters narrow the current search page; everything else is part of the search query
+    const searchRows = useMemo(() => {
+        const matchesColumnFilters = buildColumnFiltersPredicate(columnFilters);
+        return matchesColumnFilters ? search.data.filter(matchesColumnFilters) : search.data;
+    }, [search.data, columnFilters]);
+    const tableData = isRepoSearch ? searchRows : filteredData;
+    // Bulk actions run on the selected rows, or on the selected search matches fetched beyond this page
+    const selectableIssues = searchMatches ?? tableData;
+
+    // Dropdown column filter choices: the configured options, else the distinct values of the loaded rows
+    const columnFilterOptions = useMemo(() => {
+        const options: Record<string, string[]> = {};
+        for (const column of defaultColumns) {
+            if (column.filterType !== 'dropdown') continue;
+            options[column.id] = column.options ?? Array.from(
+                new Set(typeFilteredData.flatMap(issue => getColumnFilterValues(issue, column.id)))
+            ).sort((a, b) => a.localeCompare(b));
+        }
+        return options;
+    }, [typeFilteredData]);
+
     // ========================================================================
     // CACHE MANAGEMENT EFFECTS
     // ========================================================================
@@ -996,8 +2050,11 @@ export function GitHubIssuesDataTable({
     // Memoize table state to prevent unnecessary re-renders
     const tableState = useMemo(() => ({
         columnVisibility,
+        rowSelection,
+        pagination,
+        sorting: tableSorting,
         globalFilter: searchValue, // Use immediate search value for responsive UI
-    }), [columnVisibility, searchValue]);
+    }), [columnVisibility, rowSelection, pagination, tableSorting, searchValue]);
 
     // Memoize static table configuration
     const staticTableConfig = useMemo(() => ({
@@ -1008,21 +2065,32 @@ export function GitHubIssuesDataTable({
         enableSorting: true,
         enableFilters: true, // Enable client-side filtering for search
         enableGlobalFilter: true, // Enable global filter for search
-        initialState: {
-            pagination: { pageSize: 25 }, // Default page size
-            sorting: [{ id: 'created_at', desc: true }], // Default sort by newest
-        },
+        enableRowSelection: true,
+        // Key rows by issue number so selection survives refetches and page loads
+        getRowId: (row: GitHubIssue) => String(row.number),
     }), []);
 
+    // Ticking a row by hand ends "select all matching"
+    const handleRowSelectionChange = useCallback<OnChangeFn<RowSelectionState>>((updater) => {
+        setIsAllMatchingSelected(false);
+        setRowSelection(updater);
+    }, []);
+
     // Memoize table options to prevent unnecessary re-renders
     const tableOptions = useMemo(() => ({
-        data: filteredData || [],
+        data: tableData || [],
         columns,
         ...staticTableConfig,
+        // Search results arrive one sorted page at a time
+        manualPagination: isRepoSearch,
+        manualSorting: isRepoSearch,
         state: tableState,
         onColumnVisibilityChange: setColumnVisibility,
+        onRowSelectionChange: handleRowSelectionChange,
+        onPaginationChange: setPagination,
+        onSortingChange: setSorting,
         onGlobalFilterChange: setSearchValue,
-    }), [filteredData, columns, staticTableConfig, tableState, setColumnVisibility, setSearchValue]);
+    }), [tableData, columns, staticTableConfig, isRepoSearch, tableState, setColumnVisibility, handleRowSelectionChange, setSearchValue]);
 
     // Create React Table instance
     const table = useReactTable(tableOptions);
@@ -1035,17 +2103,20 @@ export function GitHubIssuesDataTable({
     // PAGINATION & DATA FETCHING LOGIC
     // ========================================================================
 
-    const { checkForMoreData } = usePaginationLogic(
+    const { checkForMoreData, loadNextServerPage } = usePaginationLogic(
         table,
-        filteredData,
         loading,
         isFetching,
+        currentServerPage,
+        nextCursor,
+        cursorKey,
         {
             dataCacheRef: cacheHook.dataCacheRef,
             serverPageCacheRef: cacheHook.serverPageCacheRef,
             tablePageCacheRef: cacheHook.tablePageCacheRef,
             isFetchingMoreRef: cacheHook.isFetchingMoreRef,
-            currentTablePageRef: cacheHook.currentTablePageRef
+            currentTablePageRef: cacheHook.currentTablePageRef,
+            cursorCacheRef: cacheHook.cursorCacheRef
         },
         setCurrentServerPage
     );
@@ -1057,6 +2128,29 @@ export function GitHubIssuesDataTable({
         }
     }, [filteredData.length]);
 
+    // Top pages back up: when pull requests are filtered out a server page may not fill
+    // the current table page, so keep following rel="next" until it does or runs out
+    useEffect(() => {
+        if (isRepoSearch || !tableRef.current || !nextCursor || loading || isFetching) return;
+
+        const { pageIndex, pageSize } = tableRef.current.getState().pagination;
+        if (typeFilteredData.length < (pageIndex + 1) * pageSize) {
+            checkForMoreData();
+        }
+    }, [isRepoSearch, typeFilteredData.length, nextCursor, loading, isFetching, checkForMoreData]);
+
+    // "Select all matching" over loaded rows: follow rel="next" until every server page is in
+    useEffect(() => {
+        if (!isAllMatchingSelected || isRepoSearch || !nextCursor || loading || isFetching) return;
+        loadNextServerPage();
+    }, [isAllMatchingSelected, isRepoSearch, nextCursor, loading, isFetching, loadNextServerPage]);
+
+    // ...and keep every matching issue selected as the pages arrive
+    useEffect(() => {
+        if (!isAllMatchingSelected) return;
+        setRowSelection(Object.fromEntries(selectableIssues.map(issue => [String(issue.number), true])));
+    }, [isAllMatchingSelected, selectableIssues]);
+
     // Restore page position after new data is loaded (when fetching more data)
     useEffect(() => {
         if (tableRef.current && allFetchedData.length > 0 && currentServerPage > 1 && cacheHook.isFetchingMoreRef.current === false) {
@@ -1096,6 +2190,26 @@ export function GitHubIssuesDataTable({
         }
     }, [stateFilter, debouncedSearchValue, filterKey]);
 
+    // Client-side filters reuse the cached rows, so go back to the first page of their matches
+    useEffect(() => {
+        tableRef.current?.setPageIndex(0);
+        cacheHook.currentTablePageRef.current = 0;
+    }, [debouncedSearchValue, anyOfLabels, dateRanges, columnFilters, cacheHook.currentTablePageRef]);
+
+    // A new search starts from its first page
+    useEffect(() => {
+        setSearchPage(1);
+    }, [owner, repo, searchMode, debouncedSearchValue, stateFilter, typeFilter, labelFilter, labelMatchMode, userFilters, milestoneFilter, dateRanges, sorting, pagination.pageSize]);
+
+    // Drop the selection when the visible set of issues changes, so bulk actions never hit hidden rows
+    useEffect(() => {
+        setRowSelection({});
+        setIsAllMatchingSelected(false);
+        setSearchMatches(null);
+        setIsLoadingSearchMatches(false);
+        selectAllRequestRef.current++;
+    }, [owner, repo, searchMode, searchPage, stateFilter, typeFilter, debouncedSearchValue, labelFilter, labelMatchMode, userFilters, milestoneFilter, dateRanges, columnFilters]);
+
     // ========================================================================
     // EVENT HANDLERS
     // ========================================================================
@@ -1108,6 +2222,27 @@ export function GitHubIssuesDataTable({
         setStateFilter(value);
     }, []);
 
+    const handleLabelFilterChange = useCallback((labels: string[]) => {
+        // The picker reports its selection on mount too; keep the array identity when nothing changed
+        setLabelFilter(prev =>
+            prev.length === labels.length && prev.every((label, index) => label === labels[index]) ? prev : labels
+        );
+    }, []);
+
+    const handleColumnFilterChange = useCallback((columnId: string, value: ColumnFilterValue | undefined) => {
+        setColumnFilters(prev => {
+            const next = { ...prev };
+            if (value) next[columnId] = value;
+            else delete next[columnId];
+            return next;
+        });
+    }, []);
+
+    const handleTypeFilterChange = useCallback((value: IssueTypeFilter) => {
+        setTypeFilter(value);
+        tableRef.current?.setPageIndex(0);
+    }, []);
+
     const handlePageSizeChange = useCallback((newPageSize: number) => {
         table.setPageSize(newPageSize);
         table.setPageIndex(0); // Reset to first page when page size changes
@@ -1122,6 +2257,46 @@ export function GitHubIssuesDataTable({
         }
     }, [checkForMoreData]);
 
+    const handleSelectionChange = useCallback((issueNumbers: number[]) => {
+        setIsAllMatchingSelected(false);
+        setRowSelection(Object.fromEntries(issueNumbers.map(number => [String(number), true])));
+    }, []);
+
+    // Loaded rows are completed page by page below; search results only show one page, so every
+    // match is fetched up front. Column filters narrow the search matches as they do the page.
+    const handleSelectAllMatching = useCallback(async () => {
+        if (!isRepoSearch) {
+            setIsAllMatchingSelected(true);
+            return;
+        }
+
+        const request = ++selectAllRequestRef.current;
+        setIsLoadingSearchMatches(true);
+        try {
+            const matches = await githubIssuesService.searchAllRepoIssues(
+                owner,
+                repo,
+                debouncedSearchValue,
+                stateFilter as 'open' | 'closed' | 'all',
+                effectiveType,
+                searchFilters
+            );
+            if (request !== selectAllRequestRef.current) return;
+            const matchesColumnFilters = buildColumnFiltersPredicate(columnFilters);
+            setSearchMatches(matchesColumnFilters ? matches.filter(matchesColumnFilters) : matches);
+            setIsAllMatchingSelected(true);
+        } finally {
+            if (request === selectAllRequestRef.current) setIsLoadingSearchMatches(false);
+        }
+    }, [isRepoSearch, owner, repo, debouncedSearchValue, stateFilter, effectiveType, searchFilters, columnFilters]);
+
+    // Show a newly opened issue at the top without refetching, unless the server-side filters exclude it
+    const handleIssueCreated = useCallback((issue: GitHubIssue) => {
+        if (!matchesServerFilters(issue, serverFilters)) return;
+        setAllFetchedData(prevData => [issue, ...prevData.filter(item => item.id !== issue.id)]);
+        tableRef.current?.setPageIndex(0);
+    }, [serverFilters, setAllFetchedData]);
+
     const handleClearCache = useCallback(() => {
         cacheHook.clearCache();
         setCurrentServerPage(1);
@@ -1137,6 +2312,23 @@ export function GitHubIssuesDataTable({
     const currentPage = filteredData && filteredData.length > 0 ? table.getState().pagination.pageIndex + 1 : 1;
     const pageSize = table.getState().pagination.pageSize;
     const totalItems = filteredData ? filteredData.length : 0;
+    const selectedIssues = selectableIssues.filter(issue => rowSelection[String(issue.number)]);
+    // Loaded rows are complete once the server has no next page; search matches are fetched at once
+    const isLoadingAllMatching = isLoadingSearchMatches ||
+        (isAllMatchingSelected && !isRepoSearch && (!!nextCursor || loading || isFetching || isTextSearching));
+    // Issues matching the current filters, loaded or not
+    const matchingCount = isRepoSearch ? search.totalCount : nextCursor ? Math.max(totalCount, tableData.length) : tableData.length;
+    const isMatchingCountExact = isRepoSearch
+        ? !Object.values(columnFilters).some(isColumnFilterActive)
+        : !nextCursor || isTotalCountExact;
+
+    // What the table shows: loaded rows, or the current whole-repo search page
+    const viewLoading = isRepoSearch ? search.loading : loading;
+    const viewError = isRepoSearch ? search.error : error;
+    const viewRefetch = isRepoSearch ? search.refetch : refetch;
+    const viewRateLimited = isRepoSearch ? search.isRateLimited : isRateLimited;
+    // Drawer navigation follows the table's current filter and sort order
+    const navigableIssues = table.getSortedRowModel().rows.map(row => row.original);
 
     // ========================================================================
     // COMPONENT RENDER
@@ -1148,13 +2340,17 @@ export function GitHubIssuesDataTable({
             <TableHeader
                 owner={owner}
                 repo={repo}
-                totalItems={totalItems}
-                currentServerPage={currentServerPage}
-                isFetching={isFetching}
+                totalItems={isRepoSearch ? search.totalCount : totalItems}
+                totalCount={isRepoSearch ? search.totalCount : totalCount}
+                isTotalCountExact={isRepoSearch || isTotalCountExact}
+                typeFilter={effectiveType}
+                currentServerPage={isRepoSearch ? 1 : currentServerPage}
+                isFetching={isRepoSearch ? search.isFetching : isFetching}
                 isRefetching={isRefetching}
                 cacheCount={Object.keys(cacheHook.dataCache).length}
-                onRefresh={refetch}
+                onRefresh={viewRefetch}
                 onClearCache={handleClearCache}
+                onNewIssue={() => setIsCreatingIssue(true)}
                 columnVisibility={columnVisibility}
                 onColumnVisibilityChange={setColumnVisibility}
                 loading={loading}
@@ -1162,82 +2358,184 @@ export function GitHubIssuesDataTable({
 
             {/* Filter controls */}
             <FilterControls
+                owner={owner}
+                repo={repo}
                 searchValue={searchValue}
                 onSearchChange={handleSearchChange}
+                searchErrors={isRepoSearch ? [] : parsedQuery.errors}
+                parsedSearchValue={debouncedSearchValue}
+                isTextSearching={isTextSearching}
+                maxTypos={maxTypos}
+                onMaxTyposChange={setMaxTypos}
+                searchMode={searchMode}
+                onSearchModeChange={setSearchMode}
                 stateFilter={stateFilter}
                 onStateFilterChange={handleStateFilterChange}
+                typeFilter={typeFilter}
+                onTypeFilterChange={handleTypeFilterChange}
+                labelFilter={labelFilter}
+                onLabelFilterChange={handleLabelFilterChange}
+                labelMatchMode={labelMatchMode}
+                onLabelMatchModeChange={setLabelMatchMode}
+                userFilters={userFilters}
+                onUserFiltersChange={setUserFilters}
+                milestoneFilter={milestoneFilter}
+                onMilestoneFilterChange={setMilestoneFilter}
+                dateRanges={dateRanges}
+                onDateRangesChange={setDateRanges}
                 pageSize={pageSize}
                 onPageSizeChange={handlePageSizeChange}
             />
 
+            {/* Whole-repo search summary */}
+            {isRepoSearch && (
+                <SearchStatus
+                    owner={owner}
+                    repo={repo}
+                    totalCount={search.totalCount}
+                    incompleteResults={search.incompleteResults}
+                    isFetching={search.isFetching}
+                />
+            )}
+
+            {/* Active column filters */}
+            <ColumnFilterChips
+                filters={columnFilters}
+                onRemove={(columnId) => handleColumnFilterChange(columnId, undefined)}
+                onClearAll={() => setColumnFilters({})}
+            />
+
             {/* Table container with conditional content */}
             <div className="border border-border-presentation-action-borderstyle rounded-lg overflow-x-auto">
                 {/* Loading state */}
-                {loading && <LoadingSkeleton columns={columns} />}
+                {viewLoading && <LoadingSkeleton columns={columns} />}
 
                 {/* Error state */}
-                {error && <ErrorState error={error} onRetry={refetch} />}
+                {viewError && <ErrorState error={viewError} onRetry={viewRefetch} />}
+
+                {/* Rate-limited state (queries paused until reset) */}
+                {!viewLoading && !viewError && tableData.length === 0 && viewRateLimited && (
+                    <RateLimitedState resource={isRepoSearch ? 'search' : 'core'} />
+                )}
 
                 {/* Empty state */}
-                {!loading && !error && filteredData.length === 0 && <EmptyState />}
+                {!viewLoading && !viewError && tableData.length === 0 && !viewRateLimited && <EmptyState />}
 
                 {/* Data table */}
-                {!loading && !error && filteredData.length > 0 && (
-                    <Table theme={theme}>
-                        <TableHeaderComponent>
-                            {table.getHeaderGroups().map((headerGroup) => (
-                                <TableRow key={headerGroup.id}>
-                                    {headerGroup.headers.map((header) => {
-                                        const column = defaultColumns.find(col => col.id === header.id);
-                                        const sortDirection = header.column.getIsSorted();
-
-                                        return (
-                                            <TableHead
-                                                key={header.id}
-                                                sortType={sortDirection === 'desc' ? 'desc' : sortDirection === 'asc' ? 'asc' : undefined}
-                                                onSort={header.column.getCanSort() ? () => header.column.toggleSorting() : undefined}
-                                                style={{ minWidth: column?.width }}
-                                            >
-                                                {header.isPlaceholder
-                                                    ? null
-                                                    : flexRender(header.column.columnDef.header, header.getContext())
-                                                }
-                                            </TableHead>
-                                        );
-                                    })}
-                                    <TableHead className="w-full"></TableHead>
-                                </TableRow>
-                            ))}
-                        </TableHeaderComponent>
-                        <TableBody>
-                            {table.getRowModel().rows.map((row) => (
-                                <TableRow key={row.id}>
-                                    {row.getVisibleCells().map((cell) => (
-                                        <TableCell key={cell.id}>
-                                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                                        </TableCell>
-                                    ))}
-                                    <TableCell className="w-full"></TableCell>
-                                </TableRow>
-                            ))}
-                        </TableBody>
-                    </Table>
+                {!viewLoading && !viewError && tableData.length > 0 && (
+                    <TextSearchContext.Provider value={textSearch}>
+                        <Table theme={theme}>
+                            <TableHeaderComponent>
+                                {table.getHeaderGroups().map((headerGroup) => (
+                                    <TableRow key={headerGroup.id}>
+                                        {headerGroup.headers.map((header) => {
+                                            const column = defaultColumns.find(col => col.id === header.id);
+                                            const sortDirection = header.column.getIsSorted();
+
+                                            return (
+                                                <TableHead
+                                                    key={header.id}
+                                                    sortType={sortDirection === 'desc' ? 'desc' : sortDirection === 'asc' ? 'asc' : undefined}
+                                                    onSort={header.column.getCanSort() ? () => header.column.toggleSorting() : undefined}
+                                                    style={{ minWidth: column?.width }}
+                                                >
+                                                    {header.isPlaceholder ? null : (
+                                                        <span className="flex items-center gap-1">
+                                                            {flexRender(header.column.columnDef.header, header.getContext())}
+                                                            {column && (
+                                                                <ColumnFilterMenu
+                                                                    column={column}
+                                                                    value={columnFilters[column.id]}
+                                                                    onChange={(value) => handleColumnFilterChange(column.id, value)}
+                                                                    options={columnFilterOptions[column.id] ?? []}
+                                                                />
+                                                            )}
+                                                        </span>
+                                                    )}
+                                                </TableHead>
+                                            );
+                                        })}
+                                        <TableHead className="w-full"></TableHead>
+                                    </TableRow>
+                                ))}
+                            </TableHeaderComponent>
+                            <TableBody>
+                                {table.getRowModel().rows.map((row) => (
+                                    <TableRow key={row.id} state={row.getIsSelected() ? 'selected' : undefined}>
+                                        {row.getVisibleCells().map((cell) => (
+                                            <TableCell key={cell.id}>
+                                                {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                                            </TableCell>
+                                        ))}
+                                        <TableCell className="w-full"></TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TextSearchContext.Provider>
                 )}
             </div>
 
+            {/* Whole-repo search pagination */}
+            {isRepoSearch && !viewLoading && !viewError && search.totalPages > 0 && (
+                <SearchPaginationControls
+                    page={searchPage}
+                    totalPages={search.totalPages}
+                    pageSize={pageSize}
+                    totalCount={search.totalCount}
+                    onPageChange={setSearchPage}
+                    isFetching={search.isFetching}
+                />
+            )}
+
             {/* Pagination controls */}
-            {!loading && !error && filteredData.length > 0 && (
+            {!isRepoSearch && !loading && !error && filteredData.length > 0 && (
                 <PaginationControls
                     currentPage={currentPage}
                     totalPages={totalPages}
                     pageSize={pageSize}
                     totalItems={totalItems}
+                    totalCount={totalCount}
+                    isTotalCountExact={isTotalCountExact}
+                    typeFilter={effectiveType}
                     table={table}
                     onPageChange={handlePageChange}
                     onCheckForMoreData={checkForMoreData}
                     isFetching={isFetching}
                 />
             )}
+
+            {/* Bulk actions for selected rows */}
+            <BulkActionBar
+                owner={owner}
+                repo={repo}
+                selectedIssues={selectedIssues}
+                matchingCount={matchingCount}
+                isMatchingCountExact={isMatchingCountExact}
+                isAllMatchingSelected={isAllMatchingSelected}
+                isLoadingAllMatching={isLoadingAllMatching}
+                onSelectAllMatching={handleSelectAllMatching}
+                onSelectionChange={handleSelectionChange}
+            />
+
+            {/* New issue form */}
+            <CreateIssueDialog
+                owner={owner}
+                repo={repo}
+                open={isCreatingIssue}
+                onOpenChange={setIsCreatingIssue}
+                onCreated={handleIssueCreated}
+            />
+
+            {/* Issue detail drawer */}
+            <IssueDetailDrawer
+                owner={owner}
+                repo={repo}
+                issues={navigableIssues}
+                issueNumber={selectedIssueNumber}
+                onIssueChange={setSelectedIssueNumber}
+                theme={theme}
+            />
         </div>
     );
 }
@@ -63,7 +63,9 @@ export const DatePicker = forwardRef(
                     ? value
                     : [value]
                 : mode == "range"
-                    ? { from: value, to: value }
+                    ? value && typeof value === "object" && "from" in value
+                        ? value
+                        : { from: value, to: value }
                     : value;
         const [date, setDate] = useState<Date[] | Date | DateRange | undefined>(initialDate);
         const [pickerValue, setPickerValue] = useState<TimePickerValue>({
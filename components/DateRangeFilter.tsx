@@ -0,0 +1,123 @@
+'use client'
+
+import * as React from "react"
+import { useState } from "react"
+import { DateRange } from "react-day-picker"
+import { endOfDay, startOfDay, startOfQuarter, subDays } from "date-fns"
+import { CalendarDays, CalendarRange, X } from "lucide-react"
+
+import {
+    DropdownMenu,
+    DropdownMenuTrigger,
+    DropdownMenuContent,
+    DropdownMenuItem
+} from "./DropdownMenu"
+import { ActionButton } from "./ActionButton"
+import { DatePicker } from "./DatePicker"
+import { InputField } from "./InputField"
+import { DateRangeFilterValue } from "../utils/types"
+
+interface DateRangeFilterProps {
+    // Field name shown before the picker, e.g. "Created"
+    label: string
+    value: DateRangeFilterValue | null
+    onChange: (value: DateRangeFilterValue | null) => void
+}
+
+interface DateRangePreset {
+    label: string
+    range: () => DateRangeFilterValue
+}
+
+const lastDays = (days: number) => () => ({
+    from: startOfDay(subDays(new Date(), days - 1)),
+    to: endOfDay(new Date())
+})
+
+const presets: DateRangePreset[] = [
+    { label: 'Today', range: lastDays(1) },
+    { label: 'Last 7 days', range: lastDays(7) },
+    { label: 'Last 30 days', range: lastDays(30) },
+    { label: 'Last 90 days', range: lastDays(90) },
+    { label: 'This quarter', range: () => ({ from: startOfQuarter(new Date()), to: endOfDay(new Date()) }) }
+]
+
+/**
+ * Whole-day bounds for a picked range; the picker stamps its own time of day on each date
+ */
+const toFilterValue = (range: DateRange | undefined): DateRangeFilterValue | null => {
+    if (!range?.from && !range?.to) return null
+    return {
+        from: range.from ? startOfDay(range.from) : undefined,
+        to: range.to ? endOfDay(range.to) : undefined
+    }
+}
+
+const isSameRange = (a: DateRangeFilterValue | null, b: DateRangeFilterValue | null) =>
+    a?.from?.getTime() === b?.from?.getTime() && a?.to?.getTime() === b?.to?.getTime()
+
+/**
+ * Date Range Filter
+ *
+ * DatePicker in range mode with quick presets and a clear button
+ */
+export function DateRangeFilter({ label, value, onChange }: DateRangeFilterProps) {
+    // DatePicker keeps its own selection, so remount it whenever the value is set from outside
+    const [pickerKey, setPickerKey] = useState(0)
+
+    const setFromOutside = (next: DateRangeFilterValue | null) => {
+        onChange(next)
+        setPickerKey(key => key + 1)
+    }
+
+    return (
+        <div className="flex items-center gap-1">
+            <span className="typography-body-small-medium text-content-presentation-global-secondary whitespace-nowrap">
+                {label}
+            </span>
+            <DatePicker
+                key={pickerKey}
+                mode="range"
+                value={value ? { from: value.from, to: value.to } : null}
+                calendarProps={{ defaultMonth: value?.from }}
+                onChange={(event) => {
+                    // DatePicker reports { target: { value } } with its current selection, also on mount
+                    const next = toFilterValue((event.target as unknown as { value: DateRange | undefined }).value)
+                    if (!isSameRange(next, value)) onChange(next)
+                }}
+            >
+                <InputField
+                    placeholder="Any time"
+                    aria-label={`${label} date range`}
+                    className="w-[210px]"
+                    icon={<CalendarDays className="w-4 h-4" />}
+                />
+            </DatePicker>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <ActionButton variant="BorderStyle" size="M" title={`${label} presets`} aria-label={`${label} presets`}>
+                        <CalendarRange className="w-4 h-4" />
+                    </ActionButton>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="z-[1000]">
+                    {presets.map(preset => (
+                        <DropdownMenuItem key={preset.label} onSelect={() => setFromOutside(preset.range())}>
+                            {preset.label}
+                        </DropdownMenuItem>
+                    ))}
+                </DropdownMenuContent>
+            </DropdownMenu>
+            {value && (
+                <ActionButton
+                    variant="BorderStyle"
+                    size="M"
+                    onClick={() => setFromOutside(null)}
+                    title={`Clear ${label.toLowerCase()} range`}
+                    aria-label={`Clear ${label.toLowerCase()} range`}
+                >
+                    <X className="w-4 h-4" />
+                </ActionButton>
+            )}
+        </div>
+    )
+}
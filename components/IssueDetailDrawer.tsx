@@ -0,0 +1,495 @@
+'use client'
+
+import * as React from "react"
+import { useCallback, useMemo } from "react"
+import { format } from 'date-fns'
+import {
+    ChevronLeft,
+    ChevronRight,
+    CircleCheck,
+    CircleDot,
+    CircleSlash,
+    Link2,
+    MessageCircle,
+    Milestone,
+    Pencil,
+    Tag,
+    UserPlus,
+    X
+} from 'lucide-react'
+
+import {
+    Dialog,
+    DialogContent,
+    DialogTitle,
+    DialogDescription,
+    DialogCloseButton
+} from "./Dialog"
+import { ActionButton } from "./ActionButton"
+import { Avatar, AvatarImage, AvatarFallback } from "./Avatar"
+import { Badge } from "./Badge"
+import { Button } from "./Button"
+import { Divider } from "./Divider"
+import { LinkButton } from "./LinkButton"
+import { Markdown } from "./Markdown"
+import { Skeleton } from "./Skeleton"
+import { SpinLoading } from "./SpinLoading"
+import { useIssueDetail, IssueActivityItem } from "../hooks/useIssueDetail"
+import { GitHubComment, GitHubIssue, GitHubTimelineEvent } from "../utils/types"
+import { cn } from "../utils/cn"
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+interface IssueDetailDrawerProps {
+    owner: string
+    repo: string
+    // Current filtered/sorted list, used for next/previous navigation
+    issues: GitHubIssue[]
+    issueNumber: number | null
+    onIssueChange: (issueNumber: number | null) => void
+    theme?: "dark" | "light" | "default"
+}
+
+type ReactionKey = Exclude<keyof GitHubIssue['reactions'], 'total_count'>
+
+const reactionEmojis: Record<ReactionKey, string> = {
+    '+1': '👍',
+    '-1': '👎',
+    laugh: '😄',
+    hooray: '🎉',
+    confused: '😕',
+    heart: '❤️',
+    rocket: '🚀',
+    eyes: '👀'
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+/**
+ * Small avatar with login, used for authors and assignees
+ */
+const UserChip = ({ login, avatarUrl }: { login: string; avatarUrl: string }) => (
+    <span className="flex items-center gap-2">
+        <Avatar className="h-5 w-5">
+            <AvatarImage src={avatarUrl} alt={`@${login}`} />
+            <AvatarFallback className="text-xs">{login.slice(0, 2).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <span className="typography-body-small-medium text-content-presentation-global-primary">{login}</span>
+    </span>
+)
+
+/**
+ * Reaction counts (only the reactions that were used)
+ */
+const ReactionSummary = ({ reactions }: { reactions?: GitHubIssue['reactions'] }) => {
+    if (!reactions || reactions.total_count === 0) return null
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {(Object.keys(reactionEmojis) as ReactionKey[])
+                .filter(key => reactions[key] > 0)
+                .map(key => (
+                    <span
+                        key={key}
+                        className="flex items-center gap-1 px-2 h-6 rounded-full border border-border-presentation-global-primary typography-body-small-regular text-content-presentation-global-secondary"
+                    >
+                        {reactionEmojis[key]} {reactions[key]}
+                    </span>
+                ))}
+        </div>
+    )
+}
+
+/**
+ * Labels, assignees and milestone of an issue
+ */
+const IssueMetadata = ({ issue }: { issue: GitHubIssue }) => (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-3 items-start typography-body-small-regular">
+        <dt className="text-content-presentation-global-secondary">Labels</dt>
+        <dd className="flex flex-wrap gap-1">
+            {issue.labels.length === 0 && <span className="text-content-presentation-global-secondary">None</span>}
+            {issue.labels.map(label => (
+                <Badge
+                    key={label.id}
+                    label={label.name}
+                    variant="highlight"
+                    size="M"
+                    data-theme="dark"
+                    style={{ backgroundColor: `#${label.color}` }}
+                    className="!space-y-2 [&_div]:text-[#000]"
+                    title={label.description ?? undefined}
+                />
+            ))}
+        </dd>
+
+        <dt className="text-content-presentation-global-secondary">Assignees</dt>
+        <dd className="flex flex-wrap gap-3">
+            {issue.assignees.length === 0 && <span className="text-content-presentation-global-secondary">No one assigned</span>}
+            {issue.assignees.map(assignee => (
+                <UserChip key={assignee.id} login={assignee.login} avatarUrl={assignee.avatar_url} />
+            ))}
+        </dd>
+
+        <dt className="text-content-presentation-global-secondary">Milestone</dt>
+        <dd className="flex items-center gap-1 text-content-presentation-global-primary">
+            {issue.milestone ? (
+                <>
+                    <Milestone className="w-4 h-4" />
+                    {issue.milestone.title}
+                    {issue.milestone.due_on && (
+                        <span className="text-content-presentation-global-secondary">
+                            • due {format(new Date(issue.milestone.due_on), 'MMM dd, yyyy')}
+                        </span>
+                    )}
+                </>
+            ) : (
+                <span className="text-content-presentation-global-secondary">No milestone</span>
+            )}
+        </dd>
+    </dl>
+)
+
+/**
+ * Markdown body of an issue or comment
+ */
+const IssueBody = ({ body, owner, repo }: { body: string | null; owner: string; repo: string }) => (
+    body ? (
+        <Markdown owner={owner} repo={repo}>{body}</Markdown>
+    ) : (
+        <p className="typography-body-medium-regular italic text-content-presentation-global-secondary">
+            No description provided.
+        </p>
+    )
+)
+
+/**
+ * A single comment in the thread
+ */
+const CommentItem = ({ comment, owner, repo }: { comment: GitHubComment; owner: string; repo: string }) => (
+    <article className="rounded-lg border border-border-presentation-global-primary">
+        <header className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border-presentation-global-primary">
+            {comment.user ? (
+                <UserChip login={comment.user.login} avatarUrl={comment.user.avatar_url} />
+            ) : (
+                <span className="typography-body-small-medium text-content-presentation-global-secondary">ghost</span>
+            )}
+            <a
+                href={comment.html_url}
+                target="_blank"
+                rel="noreferrer"
+                className="typography-body-small-regular text-content-presentation-global-secondary hover:underline"
+            >
+                {format(new Date(comment.created_at), 'MMM dd, yyyy HH:mm')}
+            </a>
+        </header>
+        <div className="px-3 py-2 space-y-2">
+            <IssueBody body={comment.body} owner={owner} repo={repo} />
+            <ReactionSummary reactions={comment.reactions} />
+        </div>
+    </article>
+)
+
+/**
+ * Icon and sentence describing a timeline event
+ */
+const describeTimelineEvent = (event: GitHubTimelineEvent): { icon: React.ReactNode; text: React.ReactNode } => {
+    const iconClass = "w-4 h-4"
+
+    switch (event.event) {
+        case 'labeled':
+        case 'unlabeled':
+            return {
+                icon: <Tag className={iconClass} />,
+                text: (
+                    <>
+                        {event.event === 'labeled' ? 'added' : 'removed'} the{' '}
+                        <Badge
+                            label={event.label.name}
+                            variant="highlight"
+                            size="S"
+                            data-theme="dark"
+                            style={{ backgroundColor: `#${event.label.color}` }}
+                            className="inline-flex align-middle [&_div]:text-[#000]"
+                        />{' '}
+                        label
+                    </>
+                )
+            }
+        case 'assigned':
+            return {
+                icon: <UserPlus className={iconClass} />,
+                text: event.actor?.login === event.assignee.login
+                    ? 'self-assigned this'
+                    : <>assigned <strong>{event.assignee.login}</strong></>
+            }
+        case 'closed':
+            return {
+                icon: event.state_reason === 'not_planned'
+                    ? <CircleSlash className={iconClass} />
+                    : <CircleCheck className={iconClass} />,
+                text: event.state_reason === 'not_planned' ? 'closed this as not planned' : 'closed this as completed'
+            }
+        case 'reopened':
+            return { icon: <CircleDot className={iconClass} />, text: 'reopened this' }
+        case 'cross-referenced': {
+            const source = event.source.issue
+            return {
+                icon: <Link2 className={iconClass} />,
+                text: (
+                    <>
+                        mentioned this in{' '}
+                        <a href={source.html_url} target="_blank" rel="noopener noreferrer" className="text-content-presentation-action-link hover:underline">
+                            {source.repository?.full_name}#{source.number} {source.title}
+                        </a>
+                    </>
+                )
+            }
+        }
+        case 'renamed':
+            return {
+                icon: <Pencil className={iconClass} />,
+                text: <>changed the title <del>{event.rename.from}</del> to <strong>{event.rename.to}</strong></>
+            }
+        case 'milestoned':
+            return {
+                icon: <Milestone className={iconClass} />,
+                text: <>added this to the <strong>{event.milestone.title}</strong> milestone</>
+            }
+    }
+}
+
+/**
+ * A single timeline event line in the activity feed
+ */
+const TimelineEventItem = ({ event }: { event: GitHubTimelineEvent }) => {
+    const { icon, text } = describeTimelineEvent(event)
+
+    return (
+        <div className="flex items-start gap-2 pl-3 typography-body-small-regular text-content-presentation-global-secondary">
+            <span className="mt-0.5 shrink-0">{icon}</span>
+            <span className="flex flex-wrap items-center gap-x-1">
+                <strong className="text-content-presentation-global-primary">{event.actor?.login ?? 'ghost'}</strong>
+                {text}
+                <span>• {format(new Date(event.created_at), 'MMM dd, yyyy')}</span>
+            </span>
+        </div>
+    )
+}
+
+const activityKey = (item: IssueActivityItem, index: number) =>
+    item.kind === 'comment'
+        ? `comment-${item.comment.id}`
+        : `event-${item.event.id ?? `${item.event.event}-${item.createdAt}-${index}`}`
+
+/**
+ * Loading placeholder for the drawer body
+ */
+const DrawerSkeleton = () => (
+    <div className="space-y-3">
+        <Skeleton className="h-6 w-3/4" />
+        <Skeleton className="h-4 w-1/2" />
+        <Skeleton className="h-24 w-full" />
+    </div>
+)
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Issue Detail Drawer
+ *
+ * Side drawer showing an issue's body, metadata, reactions and an activity feed
+ * of comments interleaved with timeline events (labels, assignments, closes, references...).
+ * Navigate the current filtered list with j/k or the arrow keys without leaving the table.
+ *
+ * @param owner - GitHub repository owner
+ * @param repo - GitHub repository name
+ * @param issues - Issues in the order shown by the table
+ * @param issueNumber - Issue to show, null when closed
+ * @param onIssueChange - Called with the next issue number, or null to close
+ */
+export function IssueDetailDrawer({
+    owner,
+    repo,
+    issues,
+    issueNumber,
+    onIssueChange,
+    theme = "default"
+}: IssueDetailDrawerProps) {
+    const index = useMemo(
+        () => issues.findIndex(issue => issue.number === issueNumber),
+        [issues, issueNumber]
+    )
+
+    const {
+        issue,
+        activity,
+        loading,
+        error,
+        activityLoading,
+        activityError,
+        hasMoreActivity,
+        isFetchingMoreActivity,
+        fetchMoreActivity
+    } = useIssueDetail({
+        owner,
+        repo,
+        issueNumber,
+        initialIssue: index >= 0 ? issues[index] : undefined
+    })
+
+    const previousIssue = index > 0 ? issues[index - 1] : undefined
+    const nextIssue = index >= 0 && index < issues.length - 1 ? issues[index + 1] : undefined
+
+    // Keyboard navigation: j / → for next, k / ← for previous (ignored while typing)
+    const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+        const target = event.target as HTMLElement
+        if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+            return
+        }
+
+        if ((event.key === 'j' || event.key === 'ArrowRight') && nextIssue) {
+            event.preventDefault()
+            onIssueChange(nextIssue.number)
+        } else if ((event.key === 'k' || event.key === 'ArrowLeft') && previousIssue) {
+            event.preventDefault()
+            onIssueChange(previousIssue.number)
+        }
+    }, [nextIssue, previousIssue, onIssueChange])
+
+    return (
+        <Dialog open={issueNumber !== null} onOpenChange={(open) => !open && onIssueChange(null)}>
+            <DialogContent
+                data-theme={theme}
+                onKeyDown={handleKeyDown}
+                className={cn(
+                    "left-auto right-0 top-0 translate-x-0 translate-y-0 h-full w-full max-w-2xl",
+                    "data-[state=open]:slide-in-from-right data-[state=closed]:slide-out-to-right",
+                    "data-[state=open]:slide-in-from-left-0 data-[state=open]:slide-in-from-top-0",
+                    "flex flex-col items-stretch justify-start",
+                    "bg-background-system-body-primary border-l border-border-presentation-global-primary"
+                )}
+            >
+                {/* Header with navigation */}
+                <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border-presentation-global-primary">
+                    <div className="flex items-center gap-1">
+                        <ActionButton
+                            variant="BorderStyle"
+                            size="M"
+                            onClick={() => previousIssue && onIssueChange(previousIssue.number)}
+                            disabled={!previousIssue}
+                            title="Previous issue (k)"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                        </ActionButton>
+                        <ActionButton
+                            variant="BorderStyle"
+                            size="M"
+                            onClick={() => nextIssue && onIssueChange(nextIssue.number)}
+                            disabled={!nextIssue}
+                            title="Next issue (j)"
+                        >
+                            <ChevronRight className="w-4 h-4" />
+                        </ActionButton>
+                        {index >= 0 && (
+                            <span className="typography-body-small-regular text-content-presentation-global-secondary ml-2">
+                                {index + 1} of {issues.length}
+                            </span>
+                        )}
+                    </div>
+                    <DialogCloseButton asChild>
+                        <ActionButton variant="BorderStyle" size="M" title="Close (Esc)">
+                            <X className="w-4 h-4" />
+                        </ActionButton>
+                    </DialogCloseButton>
+                </div>
+
+                {/* Scrollable body */}
+                <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+                    {loading && !issue && <DrawerSkeleton />}
+
+                    {error && !issue && (
+                        <p className="typography-body-medium-regular text-content-presentation-state-negative">
+                            {error.message}
+                        </p>
+                    )}
+
+                    {issue && (
+                        <>
+                            <div className="space-y-2">
+                                <DialogTitle className="typography-headers-medium-medium text-content-presentation-global-primary leading-snug">
+                                    {issue.title}{' '}
+                                    <span className="text-content-presentation-global-secondary">#{issue.number}</span>
+                                </DialogTitle>
+                                <DialogDescription asChild>
+                                    <div className="flex flex-wrap items-center gap-2 typography-body-small-regular text-content-presentation-global-secondary">
+                                        <Badge
+                                            variant={issue.state === 'open' ? 'green' : 'gray'}
+                                            label={issue.state}
+                                            size="M"
+                                        />
+                                        <UserChip login={issue.user.login} avatarUrl={issue.user.avatar_url} />
+                                        <span>opened {format(new Date(issue.created_at), 'MMM dd, yyyy')}</span>
+                                        <span className="flex items-center gap-1">
+                                            <MessageCircle className="w-4 h-4" />
+                                            {issue.comments}
+                                        </span>
+                                        <LinkButton href={issue.html_url} size="S">
+                                            View on GitHub
+                                        </LinkButton>
+                                    </div>
+                                </DialogDescription>
+                            </div>
+
+                            <IssueMetadata issue={issue} />
+
+                            <Divider />
+
+                            <IssueBody body={issue.body} owner={owner} repo={repo} />
+                            <ReactionSummary reactions={issue.reactions} />
+
+                            <Divider />
+
+                            {/* Activity feed: comments and timeline events */}
+                            <section className="space-y-3">
+                                <h3 className="typography-body-medium-semibold text-content-presentation-global-primary">
+                                    Activity
+                                </h3>
+
+                                {activityLoading && <DrawerSkeleton />}
+
+                                {activityError && (
+                                    <p className="typography-body-small-regular text-content-presentation-state-negative">
+                                        {activityError.message}
+                                    </p>
+                                )}
+
+                                {activity.map((item, index) => item.kind === 'comment' ? (
+                                    <CommentItem key={activityKey(item, index)} comment={item.comment} owner={owner} repo={repo} />
+                                ) : (
+                                    <TimelineEventItem key={activityKey(item, index)} event={item.event} />
+                                ))}
+
+                                {hasMoreActivity && (
+                                    <Button
+                                        variant="BorderStyle"
+                                        onClick={fetchMoreActivity}
+                                        disabled={isFetchingMoreActivity}
+                                    >
+                                        {isFetchingMoreActivity && <SpinLoading className="w-4 h-4 mr-2" />}
+                                        Load more activity
+                                    </Button>
+                                )}
+                            </section>
+                        </>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
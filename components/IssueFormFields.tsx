@@ -0,0 +1,187 @@
+'use client'
+
+import * as React from "react"
+import { useMemo } from "react"
+import { Control, FieldValues, Path } from "react-hook-form"
+
+import {
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "./Form"
+import { Checkbox } from "./Checkbox"
+import { InputField } from "./InputField"
+import { Markdown } from "./Markdown"
+import { TagPicker } from "./TagPicker"
+import { Tag } from "../hooks/useTagSelection"
+import { issueFormFieldKey } from "../utils/issueTemplates"
+import { IssueFormElement } from "../utils/types"
+import { cn } from "../utils/cn"
+
+interface IssueFormFieldsProps<TFieldValues extends FieldValues> {
+    owner: string
+    repo: string
+    elements: IssueFormElement[]
+    control: Control<TFieldValues>
+    // Form path the answers object lives under, e.g. "answers"
+    name: string
+}
+
+const textareaClassName = cn(
+    "w-full min-h-32 p-3 rounded-[6px] border resize-y outline-none",
+    "typography-body-small-regular text-content-presentation-global-primary",
+    "bg-background-presentation-form-field-primary border-border-presentation-action-primary",
+    "focus:border-border-presentation-state-focus"
+)
+
+/**
+ * Dropdown element as a tag picker; keeps its options stable for useTagSelection
+ */
+const DropdownField = ({
+    element,
+    value,
+    onChange,
+    onBlur,
+    error,
+    ...props
+}: {
+    element: Extract<IssueFormElement, { type: 'dropdown' }>
+    value: string[]
+    onChange: (value: string[]) => void
+    onBlur: () => void
+    error: boolean
+} & Omit<React.InputHTMLAttributes<HTMLInputElement>, "value" | "onChange" | "onBlur">) => {
+    // Only the initial selection matters, useTagSelection owns it afterwards
+    const initialValue = React.useRef(value).current
+    const tags = useMemo<Tag[]>(() => element.options.map(option => ({
+        id: option,
+        name: option,
+        isSelected: initialValue.includes(option)
+    })), [element.options, initialValue])
+
+    return (
+        <TagPicker
+            {...props}
+            tags={tags}
+            singleSelect={!element.multiple}
+            onChange={(selected) => onChange(selected.map(tag => tag.id))}
+            onBlur={onBlur}
+            placeholder={element.multiple ? "Select options" : "Select an option"}
+            error={error}
+        />
+    )
+}
+
+/**
+ * Issue Form Fields
+ *
+ * Renders the body of a YAML issue form (markdown, input, textarea, dropdown, checkboxes)
+ * as fields of the surrounding react-hook-form form. Validation comes from buildIssueFormSchema.
+ */
+export function IssueFormFields<TFieldValues extends FieldValues>({
+    owner,
+    repo,
+    elements,
+    control,
+    name
+}: IssueFormFieldsProps<TFieldValues>) {
+    return (
+        <>
+            {elements.map((element, index) => {
+                const key = element.id ?? issueFormFieldKey(index)
+
+                if (element.type === 'markdown') {
+                    return <Markdown key={key} owner={owner} repo={repo}>{element.value}</Markdown>
+                }
+
+                return (
+                    <FormField
+                        key={key}
+                        control={control}
+                        name={`${name}.${issueFormFieldKey(index)}` as Path<TFieldValues>}
+                        render={({ field, fieldState }) => (
+                            <FormItem>
+                                <FormLabel
+                                    label={element.label}
+                                    requiredLabel={element.required ? "*" : undefined}
+                                    size="M"
+                                />
+                                {element.description && (
+                                    <FormDescription className="text-content-presentation-global-secondary">
+                                        {element.description}
+                                    </FormDescription>
+                                )}
+
+                                {element.type === 'input' && (
+                                    <FormControl>
+                                        <InputField placeholder={element.placeholder} {...field} />
+                                    </FormControl>
+                                )}
+
+                                {element.type === 'textarea' && (
+                                    <FormControl>
+                                        <textarea
+                                            {...field}
+                                            placeholder={element.placeholder}
+                                            rows={element.render ? 6 : 4}
+                                            className={cn(textareaClassName, element.render && "font-mono")}
+                                        />
+                                    </FormControl>
+                                )}
+
+                                {element.type === 'dropdown' && (
+                                    <FormControl>
+                                        <DropdownField
+                                            element={element}
+                                            value={field.value}
+                                            onChange={field.onChange}
+                                            onBlur={field.onBlur}
+                                            error={!!fieldState.error}
+                                        />
+                                    </FormControl>
+                                )}
+
+                                {element.type === 'checkboxes' && (
+                                    <div className="space-y-2">
+                                        {element.options.map((option, optionIndex) => {
+                                            const checkboxId = `${key}-${optionIndex}`
+                                            const checked: boolean[] = field.value ?? []
+                                            return (
+                                                <label
+                                                    key={checkboxId}
+                                                    htmlFor={checkboxId}
+                                                    className="flex items-start gap-2 typography-body-small-regular text-content-presentation-global-primary"
+                                                >
+                                                    <Checkbox
+                                                        id={checkboxId}
+                                                        size="S"
+                                                        checked={!!checked[optionIndex]}
+                                                        onCheckedChange={(value) => field.onChange(
+                                                            element.options.map((_, i) => i === optionIndex ? value === true : !!checked[i])
+                                                        )}
+                                                        onBlur={field.onBlur}
+                                                    />
+                                                    <span>
+                                                        {option.label}
+                                                        {option.required && (
+                                                            <span className="text-content-presentation-state-negative"> *</span>
+                                                        )}
+                                                    </span>
+                                                </label>
+                                            )
+                                        })}
+                                    </div>
+                                )}
+
+                                <FormMessage className="text-content-presentation-state-negative" />
+                            </FormItem>
+                        )}
+                    />
+                )
+            })}
+        </>
+    )
+}
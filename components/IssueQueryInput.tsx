@@ -0,0 +1,157 @@
+'use client'
+
+import * as React from "react"
+import { useMemo, useRef, useState } from "react"
+import { Search } from "lucide-react"
+
+import { InputField } from "./InputField"
+import { PopoverItem } from "./Popover"
+import { SpinLoading } from "./SpinLoading"
+import { useRepoAssignees, useRepoLabels, useRepoMilestones } from "../hooks/useRepoMetadata"
+import { getQuerySuggestions, IssueQueryError } from "../utils/issueQuery"
+import { cn } from "../utils/cn"
+
+interface IssueQueryInputProps {
+    owner: string
+    repo: string
+    value: string
+    onChange: (value: string) => void
+    // Errors of the last parsed (debounced) query, with spans into parsedValue
+    errors: IssueQueryError[]
+    parsedValue: string
+    // Shows a spinner in place of the search icon
+    isSearching?: boolean
+}
+
+/**
+ * Issue Query Input
+ *
+ * Search box for the issue query language (`is:open label:bug author:octocat "phrase"`).
+ * Completes qualifier names and, for labels, users and milestones, their values from the
+ * repository. Parse errors are listed under the input with the offending term.
+ */
+export function IssueQueryInput({ owner, repo, value, onChange, errors, parsedValue, isSearching = false }: IssueQueryInputProps) {
+    const inputRef = useRef<HTMLInputElement>(null)
+    const [cursor, setCursor] = useState(0)
+    const [isFocused, setIsFocused] = useState(false)
+    const [isDismissed, setIsDismissed] = useState(false)
+    const [activeIndex, setActiveIndex] = useState(0)
+
+    // Repository data only matters once the user starts typing a query
+    const { data: labels = [] } = useRepoLabels(owner, repo, isFocused)
+    const { data: assignees = [] } = useRepoAssignees(owner, repo, isFocused)
+    const { data: milestones = [] } = useRepoMilestones(owner, repo, 'all', isFocused)
+
+    const suggestions = useMemo(() => getQuerySuggestions(value, cursor, {
+        labels: labels.map(label => label.name),
+        users: assignees.map(user => user.login),
+        milestones: milestones.map(milestone => milestone.title)
+    }), [value, cursor, labels, assignees, milestones])
+
+    const isOpen = isFocused && !isDismissed && suggestions.length > 0
+
+    const syncCursor = (input: HTMLInputElement) => setCursor(input.selectionStart ?? input.value.length)
+
+    const accept = (index: number) => {
+        const suggestion = suggestions[index]
+        if (!suggestion) return
+        const next = value.slice(0, suggestion.span.start) + suggestion.replacement + value.slice(suggestion.span.end)
+        const nextCursor = suggestion.span.start + suggestion.replacement.length
+        onChange(next)
+        setCursor(nextCursor)
+        setActiveIndex(0)
+        // Put the caret after the completion once React has updated the value
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor))
+    }
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!isOpen) return
+        if (event.key === 'ArrowDown') {
+            event.preventDefault()
+            setActiveIndex(index => (index + 1) % suggestions.length)
+        } else if (event.key === 'ArrowUp') {
+            event.preventDefault()
+            setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length)
+        } else if (event.key === 'Enter' || event.key === 'Tab') {
+            event.preventDefault()
+            accept(activeIndex)
+        } else if (event.key === 'Escape') {
+            event.preventDefault()
+            setIsDismissed(true)
+        }
+    }
+
+    return (
+        <div className="relative min-w-[320px] flex-1 space-y-1">
+            <InputField
+                ref={inputRef}
+                placeholder='Search issues, e.g. is:open label:bug author:octocat "exact phrase"'
+                aria-label="Search issues"
+                aria-invalid={errors.length > 0}
+                icon={isSearching ? <SpinLoading className="w-4 h-4" /> : <Search className="w-4 h-4" />}
+                value={value}
+                spellCheck={false}
+                autoComplete="off"
+                onChange={(event) => {
+                    onChange(event.target.value)
+                    syncCursor(event.target)
+                    setIsDismissed(false)
+                    setActiveIndex(0)
+                }}
+                onKeyDown={handleKeyDown}
+                onKeyUp={(event) => syncCursor(event.currentTarget)}
+                onClick={(event) => syncCursor(event.currentTarget)}
+                onFocus={(event) => {
+                    setIsFocused(true)
+                    syncCursor(event.currentTarget)
+                }}
+                onBlur={() => {
+                    setIsFocused(false)
+                    setIsDismissed(false)
+                }}
+            />
+
+            {isOpen && (
+                <ul
+                    role="listbox"
+                    aria-label="Query suggestions"
+                    className={cn(
+                        "absolute left-0 top-[44px] z-[1000] w-full max-h-64 overflow-y-auto p-1 rounded-[8px] border",
+                        "border-border-presentation-global-primary bg-background-presentation-form-base",
+                        "shadow-[0px_0px_10px_0px_rgba(0,0,0,0.4),0px_4px_4px_0px_rgba(0,0,0,0.2)]"
+                    )}
+                >
+                    {suggestions.map((suggestion, index) => (
+                        <li key={`${suggestion.label}-${index}`} role="option" aria-selected={index === activeIndex}>
+                            <PopoverItem
+                                variant="Default"
+                                size="S"
+                                active={index === activeIndex}
+                                // Keep focus in the input
+                                onMouseDown={(event: React.MouseEvent) => event.preventDefault()}
+                                onClick={() => accept(index)}
+                            >
+                                <span className="font-mono truncate">{suggestion.label}</span>
+                                {suggestion.description && (
+                                    <span className="ml-auto truncate text-content-presentation-global-secondary">
+                                        {suggestion.description}
+                                    </span>
+                                )}
+                            </PopoverItem>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {errors.length > 0 && (
+                <ul className="space-y-0.5 typography-body-small-regular text-content-presentation-state-negative">
+                    {errors.map(error => (
+                        <li key={`${error.span.start}-${error.message}`}>
+                            <code className="font-mono">{parsedValue.slice(error.span.start, error.span.end)}</code>: {error.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
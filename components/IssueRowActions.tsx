@@ -0,0 +1,323 @@
+'use client'
+
+import * as React from "react"
+import { useState } from "react"
+import { format } from 'date-fns'
+import {
+    CircleCheck,
+    CircleDot,
+    CircleSlash,
+    ExternalLink,
+    Lock,
+    LockOpen,
+    MoreHorizontal,
+    Pencil
+} from 'lucide-react'
+
+import {
+    DropdownMenu,
+    DropdownMenuTrigger,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuPortal,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger
+} from "./DropdownMenu"
+import {
+    Dialog,
+    DialogContent,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter
+} from "./Dialog"
+import { ActionButton } from "./ActionButton"
+import { Button } from "./Button"
+import { InputField } from "./InputField"
+import { toast } from "./Toast"
+import { useLockIssue, useReloadIssue, useUnlockIssue, useUpdateIssue } from "../hooks/useIssueMutations"
+import { UpdateIssueParams } from "../services/githubIssuesService"
+import { GitHubIssue, IssueLockReason, IssueStateReason } from "../utils/types"
+import { GitHubApiError, GitHubConflictError } from "../utils/githubApiError"
+
+interface IssueRowActionsProps {
+    owner: string
+    repo: string
+    issue: GitHubIssue
+}
+
+const lockReasons: { value: IssueLockReason; label: string }[] = [
+    { value: 'off-topic', label: 'Off-topic' },
+    { value: 'too heated', label: 'Too heated' },
+    { value: 'resolved', label: 'Resolved' },
+    { value: 'spam', label: 'Spam' }
+]
+
+/**
+ * Dialog for renaming an issue
+ */
+const EditTitleDialog = ({
+    issue,
+    open,
+    isSaving,
+    onOpenChange,
+    onSave
+}: {
+    issue: GitHubIssue
+    open: boolean
+    isSaving: boolean
+    onOpenChange: (open: boolean) => void
+    onSave: (title: string) => void
+}) => {
+    const [title, setTitle] = useState(issue.title)
+    const trimmed = title.trim()
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="w-full max-w-lg p-6 gap-4 items-stretch rounded-lg bg-background-system-body-primary border border-border-presentation-global-primary">
+                <DialogTitle>Edit title of #{issue.number}</DialogTitle>
+                <DialogDescription className="text-content-presentation-global-secondary">
+                    The new title is saved to GitHub.
+                </DialogDescription>
+                <form
+                    className="space-y-4"
+                    onSubmit={(event) => {
+                        event.preventDefault()
+                        if (trimmed && trimmed !== issue.title) onSave(trimmed)
+                    }}
+                >
+                    <InputField
+                        value={title}
+                        onChange={(event) => setTitle(event.target.value)}
+                        errorMessage={trimmed ? undefined : 'Title is required'}
+                        autoFocus
+                    />
+                    <DialogFooter>
+                        <Button type="button" variant="BorderStyle" onClick={() => onOpenChange(false)}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={!trimmed || trimmed === issue.title || isSaving}>
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+/**
+ * Shown when an edit was refused because the issue changed on GitHub in the meantime
+ */
+const ConflictDialog = ({
+    conflict,
+    onReload,
+    onOverwrite,
+    onCancel
+}: {
+    conflict: GitHubConflictError | null
+    onReload: () => void
+    onOverwrite: () => void
+    onCancel: () => void
+}) => (
+    <Dialog open={conflict !== null} onOpenChange={(open) => !open && onCancel()}>
+        <DialogContent className="w-full max-w-lg p-6 gap-4 items-stretch rounded-lg bg-background-system-body-primary border border-border-presentation-global-primary">
+            <DialogTitle>Issue changed on GitHub</DialogTitle>
+            {conflict && (
+                <DialogDescription className="text-content-presentation-global-secondary">
+                    #{conflict.remoteIssue.number} was edited on{' '}
+                    {format(new Date(conflict.remoteIssue.updated_at), 'MMM dd, yyyy HH:mm')} after you loaded it.
+                    Reload to see the latest version, or overwrite it with your change.
+                </DialogDescription>
+            )}
+            <DialogFooter>
+                <Button variant="BorderStyle" onClick={onCancel}>Cancel</Button>
+                <Button variant="BorderStyle" onClick={onReload}>Reload</Button>
+                <Button onClick={onOverwrite}>Overwrite</Button>
+            </DialogFooter>
+        </DialogContent>
+    </Dialog>
+)
+
+/**
+ * Issue Row Actions
+ *
+ * Per-row menu to close (completed / not planned), reopen, lock, unlock or rename an issue.
+ * Changes show immediately and roll back on failure; results are reported through toasts.
+ * Edits made on a stale copy of the issue open a reload / overwrite prompt instead of writing.
+ *
+ * @param owner - GitHub repository owner
+ * @param repo - GitHub repository name
+ * @param issue - Issue the actions apply to
+ */
+export function IssueRowActions({ owner, repo, issue }: IssueRowActionsProps) {
+    const [isEditingTitle, setIsEditingTitle] = useState(false)
+
+    const [conflict, setConflict] = useState<{ error: GitHubConflictError; updates: UpdateIssueParams; successMessage: string } | null>(null)
+
+    const updateIssue = useUpdateIssue(owner, repo)
+    const lockIssue = useLockIssue(owner, repo)
+    const unlockIssue = useUnlockIssue(owner, repo)
+    const reloadIssue = useReloadIssue(owner, repo)
+
+    const isPending = updateIssue.isPending || lockIssue.isPending || unlockIssue.isPending
+    const label = `#${issue.number}`
+
+    const showError = (error: GitHubApiError) => {
+        toast.error(`${label}: ${error.message}`)
+    }
+
+    const update = (updates: UpdateIssueParams, successMessage: string, base = issue, overwrite = false) => {
+        updateIssue.mutate(
+            { issue: base, updates, overwrite },
+            {
+                onSuccess: () => toast.success(successMessage),
+                onError: (error) => {
+                    if (error instanceof GitHubConflictError) {
+                        setConflict({ error, updates, successMessage })
+                    } else {
+                        showError(error)
+                    }
+                }
+            }
+        )
+    }
+
+    const changeState = (state: 'open' | 'closed', stateReason: IssueStateReason) => {
+        update(
+            { state, state_reason: stateReason },
+            state === 'open'
+                ? `Reopened ${label}`
+                : `Closed ${label} as ${stateReason === 'not_planned' ? 'not planned' : 'completed'}`
+        )
+    }
+
+    const saveTitle = (title: string) => {
+        setIsEditingTitle(false)
+        update({ title }, `Renamed ${label}`)
+    }
+
+    const lock = (lockReason?: IssueLockReason) => {
+        lockIssue.mutate(
+            { issue, lockReason },
+            { onSuccess: () => toast.success(`Locked ${label}`), onError: showError }
+        )
+    }
+
+    const unlock = () => {
+        unlockIssue.mutate(
+            { issue },
+            { onSuccess: () => toast.success(`Unlocked ${label}`), onError: showError }
+        )
+    }
+
+    const reloadAfterConflict = async () => {
+        if (!conflict) return
+        await reloadIssue(conflict.error.remoteIssue)
+        setConflict(null)
+        toast.success(`Reloaded ${label}`)
+    }
+
+    const overwriteAfterConflict = () => {
+        if (!conflict) return
+        update(conflict.updates, conflict.successMessage, conflict.error.remoteIssue, true)
+        setConflict(null)
+    }
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <ActionButton
+                        variant="BorderStyle"
+                        size="S"
+                        title={`Actions for ${label}`}
+                        disabled={isPending}
+                    >
+                        <MoreHorizontal className="w-4 h-4" />
+                    </ActionButton>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="z-[1000]">
+                    <DropdownMenuLabel>Issue {label}</DropdownMenuLabel>
+                    <DropdownMenuItem onSelect={() => setIsEditingTitle(true)}>
+                        <Pencil className="w-4 h-4" />
+                        Edit title
+                    </DropdownMenuItem>
+
+                    <DropdownMenuSeparator />
+                    {issue.state === 'open' ? (
+                        <>
+                            <DropdownMenuItem onSelect={() => changeState('closed', 'completed')}>
+                                <CircleCheck className="w-4 h-4" />
+                                Close as completed
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => changeState('closed', 'not_planned')}>
+                                <CircleSlash className="w-4 h-4" />
+                                Close as not planned
+                            </DropdownMenuItem>
+                        </>
+                    ) : (
+                        <DropdownMenuItem onSelect={() => changeState('open', 'reopened')}>
+                            <CircleDot className="w-4 h-4" />
+                            Reopen
+                        </DropdownMenuItem>
+                    )}
+
+                    <DropdownMenuSeparator />
+                    {issue.locked ? (
+                        <DropdownMenuItem onSelect={unlock}>
+                            <LockOpen className="w-4 h-4" />
+                            Unlock conversation
+                        </DropdownMenuItem>
+                    ) : (
+                        <DropdownMenuSub>
+                            <DropdownMenuSubTrigger>
+                                <span className="flex items-center gap-[8px]">
+                                    <Lock className="w-4 h-4" />
+                                    Lock conversation
+                                </span>
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuPortal>
+                                <DropdownMenuSubContent className="z-[1000]">
+                                    <DropdownMenuItem onSelect={() => lock()}>Without a reason</DropdownMenuItem>
+                                    {lockReasons.map(reason => (
+                                        <DropdownMenuItem key={reason.value} onSelect={() => lock(reason.value)}>
+                                            {reason.label}
+                                        </DropdownMenuItem>
+                                    ))}
+                                </DropdownMenuSubContent>
+                            </DropdownMenuPortal>
+                        </DropdownMenuSub>
+                    )}
+
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem asChild>
+                        <a href={issue.html_url} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-4 h-4" />
+                            Open on GitHub
+                        </a>
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <ConflictDialog
+                conflict={conflict?.error ?? null}
+                onReload={reloadAfterConflict}
+                onOverwrite={overwriteAfterConflict}
+                onCancel={() => setConflict(null)}
+            />
+
+            {isEditingTitle && (
+                <EditTitleDialog
+                    issue={issue}
+                    open={isEditingTitle}
+                    isSaving={updateIssue.isPending}
+                    onOpenChange={setIsEditingTitle}
+                    onSave={saveTitle}
+                />
+            )}
+        </>
+    )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import * as React from "react"
+import { useMemo } from "react"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./Select"
+import { TagPicker } from "./TagPicker"
+import { Tag } from "../hooks/useTagSelection"
+import { useRepoLabels } from "../hooks/useRepoMetadata"
+import { LabelMatchMode } from "../utils/types"
+
+interface LabelFilterProps {
+    owner: string
+    repo: string
+    selectedLabels: string[]
+    onSelectedLabelsChange: (labels: string[]) => void
+    matchMode: LabelMatchMode
+    onMatchModeChange: (mode: LabelMatchMode) => void
+}
+
+/**
+ * Label Filter
+ *
+ * Multi-select of the repository's labels shown as chips in their label color.
+ * "All of" narrows the server query (GitHub ANDs the `labels` parameter),
+ * "Any of" keeps the unfiltered query and matches loaded issues client-side.
+ */
+export function LabelFilter({
+    owner,
+    repo,
+    selectedLabels,
+    onSelectedLabelsChange,
+    matchMode,
+    onMatchModeChange
+}: LabelFilterProps) {
+    const { data: labels = [], isFetched } = useRepoLabels(owner, repo)
+
+    // useTagSelection reads isSelected only on mount; the picker remounts once labels arrive,
+    // so the selection is taken from the latest props then rather than tracked here
+    const selectedRef = React.useRef(selectedLabels)
+    selectedRef.current = selectedLabels
+    const tags = useMemo<Tag[]>(() => labels.map(label => ({
+        id: label.name,
+        name: label.name,
+        color: `#${label.color}`,
+        description: label.description,
+        isSelected: selectedRef.current.includes(label.name)
+    })), [labels])
+
+    return (
+        <div className="flex gap-2 min-w-[280px] flex-1">
+            <TagPicker
+                key={`${owner}/${repo}:${isFetched ? 'loaded' : 'loading'}`}
+                tags={tags}
+                onChange={(selected) => onSelectedLabelsChange(selected.map(tag => tag.id))}
+                renderIcon={(tag) => (
+                    <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+                )}
+                getChipColor={(tag) => tag.color}
+                placeholder="Filter by label..."
+                emptyMessage={isFetched ? "No labels" : "Loading labels..."}
+                aria-label="Filter by label"
+                className="min-h-[40px]"
+            />
+
+            <Select value={matchMode} onValueChange={(value) => onMatchModeChange(value as LabelMatchMode)}>
+                <SelectTrigger size="XL" aria-label="Label match mode">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="all">All of</SelectItem>
+                    <SelectItem value="any">Any of</SelectItem>
+                </SelectContent>
+            </Select>
+        </div>
+    )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import * as React from "react"
+import ReactMarkdown, { type Components, type ExtraProps, type Options } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import remarkEmoji from "remark-emoji"
+import rehypeRaw from "rehype-raw"
+import rehypeSanitize from "rehype-sanitize"
+
+import { cn } from "../utils/cn"
+import { remarkGitHubReferences } from "../utils/markdown"
+
+interface MarkdownProps {
+    children: string
+    // Repository that bare `#123` references resolve against
+    owner: string
+    repo: string
+    className?: string
+}
+
+type MarkdownElement = keyof React.JSX.IntrinsicElements
+
+/**
+ * Build a component map entry that renders `tag` with base classes,
+ * dropping react-markdown's `node` prop so it never reaches the DOM
+ */
+const styled = <T extends MarkdownElement>(Tag: T, baseClassName: string, extraProps?: React.ComponentProps<T>) => {
+    const StyledElement = ({ node, className, ...props }: React.ComponentProps<T> & ExtraProps) => {
+        void node
+        const Component = Tag as React.ElementType
+        return <Component className={cn(baseClassName, className)} {...extraProps} {...props} />
+    }
+    StyledElement.displayName = `Markdown.${Tag}`
+    return StyledElement
+}
+
+// Element styles mapped onto the project's typography and color tokens
+const components: Components = {
+    h1: styled("h1", "typography-headers-large-semibold text-content-presentation-global-primary mt-6 mb-3 pb-2 border-b border-border-presentation-global-primary first:mt-0"),
+    h2: styled("h2", "typography-headers-medium-semibold text-content-presentation-global-primary mt-6 mb-3 pb-2 border-b border-border-presentation-global-primary first:mt-0"),
+    h3: styled("h3", "typography-headers-small-semibold text-content-presentation-global-primary mt-5 mb-2 first:mt-0"),
+    h4: styled("h4", "typography-body-large-medium text-content-presentation-global-primary mt-4 mb-2 first:mt-0"),
+    h5: styled("h5", "typography-body-medium-semibold text-content-presentation-global-primary mt-4 mb-2 first:mt-0"),
+    h6: styled("h6", "typography-body-medium-semibold text-content-presentation-global-secondary mt-4 mb-2 first:mt-0"),
+    p: styled("p", "my-3 first:mt-0 last:mb-0"),
+    a: styled("a", "text-content-presentation-action-link hover:underline break-words", {
+        target: "_blank",
+        rel: "noopener noreferrer"
+    }),
+    // GFM task lists render their own checkboxes
+    ul: styled("ul", "my-3 pl-6 list-disc [&.contains-task-list]:list-none [&.contains-task-list]:pl-1"),
+    ol: styled("ol", "my-3 pl-6 list-decimal"),
+    li: styled("li", "my-1 [&>input]:mr-2 [&>input]:align-middle"),
+    blockquote: styled("blockquote", "my-3 pl-4 border-l-4 border-border-presentation-global-primary text-content-presentation-global-secondary"),
+    hr: styled("hr", "my-4 border-border-presentation-global-primary"),
+    pre: styled("pre", "my-3 p-3 rounded-lg overflow-x-auto bg-background-system-body-tertiary [&>code]:p-0 [&>code]:bg-transparent"),
+    // Fenced blocks keep their `language-*` class so a highlighter can pick them up
+    code: styled("code", "font-mono text-[0.875em] px-1 py-0.5 rounded bg-background-system-body-tertiary"),
+    table: styled("table", "my-3 block w-fit max-w-full overflow-x-auto border-collapse"),
+    th: styled("th", "px-3 py-1.5 border border-border-presentation-global-primary typography-body-small-semibold text-left"),
+    td: styled("td", "px-3 py-1.5 border border-border-presentation-global-primary"),
+    img: styled("img", "max-w-full inline-block", { alt: "", loading: "lazy" }),
+    details: styled("details", "my-3 [&>summary]:cursor-pointer"),
+}
+
+/**
+ * Markdown Component
+ *
+ * Renders GitHub-flavored markdown from issue bodies and comments: tables, task lists,
+ * fenced code, emoji shortcodes and autolinked `#123` / `@user` references.
+ * Raw HTML is allowed but sanitized with GitHub's allow-list, so user content cannot inject scripts.
+ *
+ * @param children - Markdown source
+ * @param owner - Repository owner for resolving `#123` references
+ * @param repo - Repository name for resolving `#123` references
+ */
+export function Markdown({ children, owner, repo, className }: MarkdownProps) {
+    const remarkPlugins = React.useMemo<Options['remarkPlugins']>(
+        () => [remarkGfm, remarkEmoji, [remarkGitHubReferences, { owner, repo }]],
+        [owner, repo]
+    )
+
+    return (
+        <div className={cn("typography-body-medium-regular text-content-presentation-global-primary break-words", className)}>
+            <ReactMarkdown
+                remarkPlugins={remarkPlugins}
+                // Sanitize must run after raw HTML is parsed into the tree
+                rehypePlugins={[rehypeRaw, rehypeSanitize]}
+                components={components}
+            >
+                {children}
+            </ReactMarkdown>
+        </div>
+    )
+}
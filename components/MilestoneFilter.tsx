@@ -0,0 +1,90 @@
+'use client'
+
+import * as React from "react"
+
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectLabel,
+    SelectSeparator,
+    SelectTrigger,
+    SelectValue
+} from "./Select"
+import { useRepoMilestones } from "../hooks/useRepoMetadata"
+import { MILESTONE_ANY, MILESTONE_NONE } from "../utils/issueFilters"
+
+interface MilestoneFilterProps {
+    owner: string
+    repo: string
+    // A milestone number, MILESTONE_NONE or MILESTONE_ANY; null when unset
+    value: string | null
+    onChange: (value: string | null) => void
+}
+
+// Radix Select items cannot have an empty value
+const NO_FILTER = 'all'
+
+/**
+ * Milestone Filter
+ *
+ * Single-select of a specific milestone (open ones first), issues without a milestone,
+ * or issues with any milestone. All three map onto the issues endpoint's `milestone` parameter.
+ */
+export function MilestoneFilter({ owner, repo, value, onChange }: MilestoneFilterProps) {
+    const { data: milestones = [], isFetched } = useRepoMilestones(owner, repo, 'all')
+
+    const openMilestones = milestones.filter(milestone => milestone.state === 'open')
+    const closedMilestones = milestones.filter(milestone => milestone.state === 'closed')
+
+    return (
+        <Select
+            value={value ?? NO_FILTER}
+            onValueChange={(next) => onChange(next === NO_FILTER ? null : next)}
+        >
+            <SelectTrigger size="XL" aria-label="Filter by milestone">
+                <SelectValue placeholder="Milestone" />
+            </SelectTrigger>
+            <SelectContent className="max-h-80">
+                <SelectItem value={NO_FILTER}>All milestones</SelectItem>
+                <SelectItem value={MILESTONE_NONE}>No milestone</SelectItem>
+                <SelectItem value={MILESTONE_ANY}>Any milestone</SelectItem>
+
+                {openMilestones.length > 0 && (
+                    <>
+                        <SelectSeparator />
+                        <SelectGroup>
+                            <SelectLabel>Open</SelectLabel>
+                            {openMilestones.map(milestone => (
+                                <SelectItem key={milestone.number} value={String(milestone.number)}>
+                                    {milestone.title}
+                                </SelectItem>
+                            ))}
+                        </SelectGroup>
+                    </>
+                )}
+
+                {closedMilestones.length > 0 && (
+                    <>
+                        <SelectSeparator />
+                        <SelectGroup>
+                            <SelectLabel>Closed</SelectLabel>
+                            {closedMilestones.map(milestone => (
+                                <SelectItem key={milestone.number} value={String(milestone.number)}>
+                                    {milestone.title}
+                                </SelectItem>
+                            ))}
+                        </SelectGroup>
+                    </>
+                )}
+
+                {!isFetched && (
+                    <p className="px-3 py-2 typography-body-small-regular text-content-presentation-global-secondary">
+                        Loading milestones...
+                    </p>
+                )}
+            </SelectContent>
+        </Select>
+    )
+}
@@ -202,7 +202,7 @@ TableCell.displayName = "TableCell";
 
 const TableCheckbox = React.forwardRef<
   HTMLButtonElement,
-  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+  Omit<React.ComponentPropsWithoutRef<typeof Checkbox>, "size"> & {
     id: string;
   }
 >(({ className, id, ...props }, ref) => {
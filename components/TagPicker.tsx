@@ -0,0 +1,137 @@
+'use client'
+
+import * as React from "react"
+import { useImperativeHandle, useRef } from "react"
+
+import { Popover, PopoverTrigger, PopoverContent, PopoverItem } from "./Popover"
+import { Group, Input } from "./Input"
+import { Badge } from "./Badge"
+import { Tag, useTagSelection } from "../hooks/useTagSelection"
+import { cn } from "../utils/cn"
+
+interface TagPickerProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, "onChange"> {
+    // Every option; the ones with isSelected start out selected
+    tags: Tag[]
+    onChange: (selectedTags: Tag[]) => void
+    singleSelect?: boolean
+    // Leading visual for an option (label color, avatar, ...)
+    renderIcon?: (tag: Tag) => React.ReactNode
+    // Background color for a selected tag's chip (e.g. a label color)
+    getChipColor?: (tag: Tag) => string | undefined
+    emptyMessage?: string
+    error?: boolean
+}
+
+/**
+ * Tag Picker
+ *
+ * Searchable multi- or single-select built on useTagSelection: selected tags show as
+ * removable chips in front of the search input, options in a popover below it.
+ * Keyboard: ↓ opens the list, ↑/↓ move, Enter selects, ←/→ walk the chips, Backspace removes.
+ */
+export const TagPicker = React.forwardRef<HTMLInputElement, TagPickerProps>(({
+    tags,
+    onChange,
+    singleSelect = false,
+    renderIcon,
+    getChipColor,
+    emptyMessage = "No matches",
+    error = false,
+    placeholder,
+    className,
+    ...inputProps
+}, ref) => {
+    const inputRef = useRef<HTMLInputElement>(null)
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement)
+
+    const {
+        selectedTagsStack,
+        searchTags,
+        filterTagsBySearch,
+        filteredTags,
+        handleSelectTag,
+        handleUnselectTag,
+        handleKeyDown,
+        focusedTagIndex,
+        focusedPopoverIndex,
+        isPopoverOpen,
+        setIsPopoverOpen
+    } = useTagSelection({ Tags: tags, onTagsChange: onChange, inputRef, singleSelect })
+
+    return (
+        <Popover open={isPopoverOpen} onOpenChange={setIsPopoverOpen}>
+            <PopoverTrigger asChild>
+                <Group
+                    size="S"
+                    error={error}
+                    className={cn("h-auto flex-wrap justify-start gap-1 py-1 cursor-text", className)}
+                    onClick={(event) => {
+                        // Keep the list open while typing instead of toggling on every click
+                        event.preventDefault()
+                        setIsPopoverOpen(true)
+                        inputRef.current?.focus()
+                    }}
+                    onKeyDown={handleKeyDown}
+                >
+                    {selectedTagsStack.map((tag, index) => {
+                        const color = getChipColor?.(tag)
+                        return (
+                            <Badge
+                                key={tag.id}
+                                label={tag.name}
+                                variant={color ? "highlight" : "gray"}
+                                size="S"
+                                isSelected
+                                onUnselect={() => handleUnselectTag(tag.id)}
+                                data-theme={color ? "dark" : undefined}
+                                style={color ? { backgroundColor: color } : undefined}
+                                className={cn(
+                                    color && "[&_div]:text-[#000]",
+                                    focusedTagIndex === index && "ring-2 ring-border-presentation-state-focus"
+                                )}
+                            />
+                        )
+                    })}
+                    <Input
+                        {...inputProps}
+                        ref={inputRef}
+                        value={searchTags}
+                        placeholder={selectedTagsStack.length === 0 ? placeholder : undefined}
+                        onChange={(event) => {
+                            filterTagsBySearch(event.target.value)
+                            setIsPopoverOpen(true)
+                        }}
+                        className="flex-1 min-w-[80px]"
+                    />
+                </Group>
+            </PopoverTrigger>
+            <PopoverContent
+                variant="PresentationStyle"
+                align="start"
+                className="z-[1000] w-[var(--radix-popover-trigger-width)] max-h-64 overflow-y-auto p-1"
+                onOpenAutoFocus={(event) => event.preventDefault()}
+            >
+                {filteredTags.length === 0 && (
+                    <p className="px-3 py-2 typography-body-small-regular text-content-presentation-global-secondary">
+                        {emptyMessage}
+                    </p>
+                )}
+                {filteredTags.map((tag, index) => (
+                    <PopoverItem
+                        key={tag.id}
+                        variant="Default"
+                        size="S"
+                        active={focusedPopoverIndex === index}
+                        // Keep focus in the search input
+                        onMouseDown={(event: React.MouseEvent) => event.preventDefault()}
+                        onClick={() => handleSelectTag(tag.id)}
+                    >
+                        {renderIcon?.(tag)}
+                        <span className="truncate">{tag.name}</span>
+                    </PopoverItem>
+                ))}
+            </PopoverContent>
+        </Popover>
+    )
+})
+TagPicker.displayName = "TagPicker"
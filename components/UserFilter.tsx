@@ -0,0 +1,193 @@
+'use client'
+
+import * as React from "react"
+import { useMemo, useState } from "react"
+import { ChevronDown, X } from "lucide-react"
+
+import { Popover, PopoverTrigger, PopoverContent, PopoverItem } from "./Popover"
+import { Avatar, AvatarImage, AvatarFallback } from "./Avatar"
+import { Button } from "./Button"
+import { InputField } from "./InputField"
+import { SpinLoading } from "./SpinLoading"
+import { useRepoAssignees } from "../hooks/useRepoMetadata"
+import { useUserSearch } from "../hooks/useUserSearch"
+import { cn } from "../utils/cn"
+
+export interface UserFilterOption {
+    value: string
+    label: string
+}
+
+interface UserFilterProps {
+    owner: string
+    repo: string
+    // Filter name shown on the trigger, e.g. "Author"
+    label: string
+    value: string | null
+    onChange: (value: string | null) => void
+    // Non-login values offered first, e.g. `none` / `*` for the assignee filter
+    specialOptions?: UserFilterOption[]
+}
+
+interface Candidate {
+    value: string
+    label: string
+    avatarUrl?: string
+}
+
+// Keep the list short; the search narrows it
+const MAX_CANDIDATES = 20
+
+const UserAvatar = ({ login, avatarUrl }: { login: string; avatarUrl?: string }) => (
+    <Avatar className="h-5 w-5">
+        <AvatarImage src={avatarUrl ?? `https://github.com/${login}.png?size=40`} alt={`@${login}`} />
+        <AvatarFallback className="text-xs">{login.slice(0, 2).toUpperCase()}</AvatarFallback>
+    </Avatar>
+)
+
+/**
+ * User Filter
+ *
+ * Single-login filter with avatars. Suggests the repository's assignable users first and
+ * autocompletes any other login through the users search API.
+ */
+export function UserFilter({
+    owner,
+    repo,
+    label,
+    value,
+    onChange,
+    specialOptions = []
+}: UserFilterProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [search, setSearch] = useState('')
+    const [activeIndex, setActiveIndex] = useState(0)
+
+    const { data: assignees = [] } = useRepoAssignees(owner, repo, isOpen)
+    const { data: searchResults = [], isSearching } = useUserSearch(search, isOpen)
+
+    const candidates = useMemo<Candidate[]>(() => {
+        const term = search.trim().toLowerCase()
+        const specials = specialOptions
+            .filter(option => !term || option.label.toLowerCase().includes(term))
+            .map(option => ({ value: option.value, label: option.label }))
+
+        const seen = new Set<string>()
+        const users = [...assignees.filter(user => user.login.toLowerCase().includes(term)), ...(term ? searchResults : [])]
+            .filter(user => {
+                const key = user.login.toLowerCase()
+                if (seen.has(key)) return false
+                seen.add(key)
+                return true
+            })
+            .slice(0, MAX_CANDIDATES)
+            .map(user => ({ value: user.login, label: user.login, avatarUrl: user.avatar_url }))
+
+        return [...specials, ...users]
+    }, [search, specialOptions, assignees, searchResults])
+
+    const selectedSpecial = specialOptions.find(option => option.value === value)
+    const selectedAvatar = assignees.find(user => user.login === value)?.avatar_url
+
+    const choose = (next: string | null) => {
+        onChange(next)
+        setIsOpen(false)
+        setSearch('')
+    }
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'ArrowDown') {
+            event.preventDefault()
+            setActiveIndex(index => candidates.length === 0 ? 0 : (index + 1) % candidates.length)
+        } else if (event.key === 'ArrowUp') {
+            event.preventDefault()
+            setActiveIndex(index => candidates.length === 0 ? 0 : (index - 1 + candidates.length) % candidates.length)
+        } else if (event.key === 'Enter') {
+            event.preventDefault()
+            const candidate = candidates[activeIndex]
+            // Fall back to the typed login so users outside the suggestions can be picked
+            if (candidate) choose(candidate.value)
+            else if (search.trim()) choose(search.trim())
+        }
+    }
+
+    return (
+        <Popover
+            open={isOpen}
+            onOpenChange={(open) => {
+                setIsOpen(open)
+                if (!open) setSearch('')
+            }}
+        >
+            <PopoverTrigger asChild>
+                <Button variant="BorderStyle" size="XL" className={cn(value && "pr-2")}>
+                    {value && !selectedSpecial && <UserAvatar login={value} avatarUrl={selectedAvatar} />}
+                    <span className={cn(value && "ml-2")}>
+                        {label}{value && `: ${selectedSpecial?.label ?? value}`}
+                    </span>
+                    {value ? (
+                        <span
+                            role="button"
+                            tabIndex={0}
+                            aria-label={`Clear ${label.toLowerCase()} filter`}
+                            className="ml-2 rounded-[2px] hover:bg-background-system-body-tertiary"
+                            onClick={(event) => {
+                                event.stopPropagation()
+                                choose(null)
+                            }}
+                            onKeyDown={(event) => {
+                                if (event.key === 'Enter' || event.key === ' ') {
+                                    event.preventDefault()
+                                    event.stopPropagation()
+                                    choose(null)
+                                }
+                            }}
+                        >
+                            <X className="w-4 h-4" />
+                        </span>
+                    ) : (
+                        <ChevronDown className="w-4 h-4 ml-2" />
+                    )}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent variant="PresentationStyle" align="start" className="z-[1000] w-72 p-2 space-y-2">
+                <InputField
+                    size="S"
+                    placeholder="Type a login..."
+                    value={search}
+                    autoFocus
+                    onChange={(event) => {
+                        setSearch(event.target.value)
+                        setActiveIndex(0)
+                    }}
+                    onKeyDown={handleKeyDown}
+                />
+                <div className="max-h-64 overflow-y-auto">
+                    {candidates.map((candidate, index) => (
+                        <PopoverItem
+                            key={candidate.value}
+                            variant="Default"
+                            size="S"
+                            active={index === activeIndex}
+                            className="w-full"
+                            onClick={() => choose(candidate.value)}
+                        >
+                            {candidate.avatarUrl && <UserAvatar login={candidate.value} avatarUrl={candidate.avatarUrl} />}
+                            <span className="truncate">{candidate.label}</span>
+                        </PopoverItem>
+                    ))}
+                    {isSearching && (
+                        <div className="flex justify-center py-2">
+                            <SpinLoading className="w-5 h-5" />
+                        </div>
+                    )}
+                    {!isSearching && candidates.length === 0 && (
+                        <p className="px-3 py-2 typography-body-small-regular text-content-presentation-global-secondary">
+                            {search.trim() ? `No users found. Press Enter to filter by "${search.trim()}".` : 'No suggestions'}
+                        </p>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
@@ -21,6 +21,7 @@ export const HomeDataTable = () => {
             />
 
             <ErrorBoundary>
+                {/* Remount per repository: rows, filters and the search index belong to one repository */}
                 <GitHubIssuesDataTable
                     key={`${owner}/${repo}`}
                     owner={owner}
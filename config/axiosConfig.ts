@@ -1,25 +1,45 @@
-import axios, { AxiosError, InternalAxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosHeaders, InternalAxiosRequestConfig, AxiosResponse } from 'axios';
+import { etagCache, getConditionalHeaders, mergeCachedHeaders } from './etagCache';
+import { rateLimitStore, parseRateLimitHeaders } from './rateLimitStore';
+import { retryStatusStore, RetryReason } from './retryStatusStore';
+import { isProxyNetworkError, isSecondaryRateLimit, parseRetryAfter } from '../utils/githubApiError';
 
 // Create axios instance with base configuration
+// Requests go through the server-side proxy (app/api/github) which injects the GitHub token
 export const apiClient = axios.create({
-    baseURL: 'https://api.github.com',
+    baseURL: '/api/github',
     timeout: 10000,
     headers: {
         'Accept': 'application/vnd.github.v3+json',
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.NEXT_PUBLIC_GITHUB_TOKEN}`
     },
+    // 304 Not Modified is a successful conditional response, served from the ETag cache
+    validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304,
 });
 
-// Request interceptor for adding auth tokens, logging, etc.
-apiClient.interceptors.request.use(
-    (config: InternalAxiosRequestConfig) => {
-        // Add GitHub token if available
-        const token = process.env.NEXT_PUBLIC_GITHUB_TOKEN;
-        if (token) {
-            config.headers.Authorization = `token ${token}`;
+/**
+ * Cache key for a request: path plus serialized query params (without the proxy base URL)
+ */
+export const getCacheKey = (config: Pick<InternalAxiosRequestConfig, 'url' | 'params'>): string => {
+    return axios.getUri({ url: config.url, params: config.params });
+};
+
+// Conditional request interceptor: attach If-None-Match / If-Modified-Since for cached GETs
+apiClient.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+    if (config.method?.toLowerCase() === 'get') {
+        const entry = etagCache.get(getCacheKey(config));
+        if (entry) {
+            Object.entries(getConditionalHeaders(entry)).forEach(([name, value]) => {
+                config.headers.set(name, value);
+            });
         }
+    }
+    return config;
+});
 
+// Request interceptor for logging, etc.
+apiClient.interceptors.request.use(
+    (config: InternalAxiosRequestConfig) => {
         // Log request in development
         if (process.env.NODE_ENV === 'development') {
             console.log(`🚀 API Request: ${config.method?.toUpperCase()} ${config.url}`);
@@ -33,6 +53,23 @@ apiClient.interceptors.request.use(
     }
 );
 
+// Rate-limit interceptor: feed x-ratelimit-* headers from every response into the store
+const recordRateLimit = (headers: Record<string, unknown> | undefined) => {
+    const info = parseRateLimitHeaders(headers);
+    if (info) rateLimitStore.update(info);
+};
+
+apiClient.interceptors.response.use(
+    (response: AxiosResponse) => {
+        recordRateLimit(response.headers);
+        return response;
+    },
+    (error: AxiosError) => {
+        recordRateLimit(error.response?.headers);
+        return Promise.reject(error);
+    }
+);
+
 // Response interceptor for error handling and logging
 apiClient.interceptors.response.use(
     (response: AxiosResponse) => {
@@ -41,6 +78,42 @@ apiClient.interceptors.response.use(
             console.log(`✅ API Response: ${response.status} ${response.config.url}`);
         }
 
+        if (response.config.method?.toLowerCase() !== 'get') {
+            return response;
+        }
+
+        const cacheKey = getCacheKey(response.config);
+
+        // Not modified: serve the cached body with fresh rate-limit headers
+        if (response.status === 304) {
+            const entry = etagCache.get(cacheKey);
+            if (!entry) {
+                // Entry was evicted while the request was in flight: refetch unconditionally
+                response.config.headers.delete('If-None-Match');
+                response.config.headers.delete('If-Modified-Since');
+                return apiClient.request(response.config);
+            }
+            return {
+                ...response,
+                status: 200,
+                statusText: 'OK',
+                data: entry.data,
+                headers: mergeCachedHeaders(entry, response.headers as AxiosHeaders),
+            };
+        }
+
+        // Store validators so the next request can be conditional
+        const etag = response.headers['etag'];
+        const lastModified = response.headers['last-modified'];
+        if (etag || lastModified) {
+            etagCache.set(cacheKey, {
+                etag,
+                lastModified,
+                data: response.data,
+                headers: AxiosHeaders.from(response.headers as AxiosHeaders).toJSON(true),
+            });
+        }
+
         return response;
     },
     (error: AxiosError) => {
@@ -68,41 +141,149 @@ apiClient.interceptors.response.use(
     }
 );
 
-// Retry logic for failed requests
-export const retryRequest = async <T>(
-    requestFn: () => Promise<T>,
-    maxRetries: number = 3,
-    delay: number = 1000
-): Promise<T> => {
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            return await requestFn();
-        } catch (error) {
-            const axiosError = error as AxiosError;
-
-            // Don't retry on client errors (4xx) except for rate limiting
-            if (axiosError.response?.status && axiosError.response.status >= 400 && axiosError.response.status < 500) {
-                if (axiosError.response.status !== 429) { // 429 is rate limit, should retry
-                    throw error;
-                }
-            }
+// ============================================================================
+// RETRY INTERCEPTOR
+// ============================================================================
 
-            if (attempt === maxRetries) {
-                console.error(`Request failed after ${maxRetries} attempts`);
-                throw error;
-            }
+export interface RetryOptions {
+    maxRetries: number;
+    // Base delay for exponential backoff
+    baseDelay: number;
+    // Upper bound for a single backoff delay
+    maxDelay: number;
+    // Give up once the accumulated wait would exceed this
+    maxTotalWait: number;
+}
 
-            // Exponential backoff delay
-            const backoffDelay = delay * Math.pow(2, attempt - 1);
-            console.warn(`Request attempt ${attempt} failed, retrying in ${backoffDelay}ms...`);
+interface RetryState {
+    id: number;
+    attempt: number;
+    totalWait: number;
+}
 
-            await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        }
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        // Per-request retry overrides, or false to disable retries
+        retry?: Partial<RetryOptions> | false;
+        retryState?: RetryState;
     }
+}
 
-    // This should never be reached, but TypeScript requires it
-    throw new Error('Unexpected error in retry logic');
+export const defaultRetryOptions: RetryOptions = {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30 * 1000,
+    maxTotalWait: 2 * 60 * 1000,
 };
 
+// Wait GitHub recommends when a secondary limit carries no Retry-After
+const SECONDARY_RATE_LIMIT_WAIT = 60 * 1000;
+
+let nextRetryId = 1;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Exponential backoff with jitter: a random delay between 50% and 100% of base * 2^(attempt - 1)
+ */
+export const getBackoffDelay = (attempt: number, options: RetryOptions = defaultRetryOptions): number => {
+    const exponential = Math.min(options.baseDelay * Math.pow(2, attempt - 1), options.maxDelay);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+/**
+ * Decide whether a failed request should be retried and how long to wait
+ * Returns null when the error is not retryable
+ */
+export const getRetryPlan = (
+    error: AxiosError,
+    attempt: number,
+    options: RetryOptions = defaultRetryOptions
+): { reason: RetryReason; delay: number } | null => {
+    const method = error.config?.method?.toLowerCase() || 'get';
+    const isIdempotent = IDEMPOTENT_METHODS.includes(method);
+
+    if (axios.isCancel(error)) return null;
+
+    // Network errors and timeouts
+    if (!error.response) {
+        return isIdempotent ? { reason: 'network', delay: getBackoffDelay(attempt, options) } : null;
+    }
+
+    const { status, data } = error.response;
+    const headers = (error.response.headers ?? {}) as Record<string, unknown>;
+    const message = (data as { message?: string } | undefined)?.message;
+
+    // The proxy answered, but GitHub itself was unreachable
+    if (isProxyNetworkError(headers)) {
+        return isIdempotent ? { reason: 'network', delay: getBackoffDelay(attempt, options) } : null;
+    }
+
+    // Secondary rate limit: honor Retry-After, never retry sooner than the backoff
+    if (isSecondaryRateLimit(status, headers, message)) {
+        const retryAfter = parseRetryAfter(headers['retry-after']) ?? SECONDARY_RATE_LIMIT_WAIT;
+        return { reason: 'secondary-rate-limit', delay: Math.max(retryAfter, getBackoffDelay(attempt, options)) };
+    }
+
+    // Primary rate limit: wait for x-ratelimit-reset (the total-wait cap decides if that is too long)
+    if ((status === 403 || status === 429) && String(headers['x-ratelimit-remaining']) === '0') {
+        const reset = parseInt(String(headers['x-ratelimit-reset'] ?? ''), 10);
+        if (isNaN(reset)) return null;
+        return { reason: 'rate-limited', delay: Math.max(0, reset * 1000 - Date.now()) + 1000 };
+    }
+
+    // Transient server errors
+    if (isIdempotent && [500, 502, 503, 504].includes(status)) {
+        const retryAfter = parseRetryAfter(headers['retry-after']);
+        return { reason: 'server', delay: Math.max(retryAfter ?? 0, getBackoffDelay(attempt, options)) };
+    }
+
+    return null;
+};
+
+apiClient.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config;
+    if (!config || config.retry === false) {
+        return Promise.reject(error);
+    }
+
+    const options: RetryOptions = { ...defaultRetryOptions, ...config.retry };
+    const state: RetryState = config.retryState ?? { id: nextRetryId++, attempt: 0, totalWait: 0 };
+    const attempt = state.attempt + 1;
+    const plan = getRetryPlan(error, attempt, options);
+
+    if (!plan || attempt > options.maxRetries || state.totalWait + plan.delay > options.maxTotalWait) {
+        retryStatusStore.remove(state.id);
+        if (plan) {
+            console.error(`Request failed after ${state.attempt + 1} attempts: ${config.url}`);
+        }
+        return Promise.reject(error);
+    }
+
+    console.warn(`Request attempt ${attempt} failed (${plan.reason}), retrying in ${plan.delay}ms...`);
+
+    // Report progress so the UI can show the pending retry
+    retryStatusStore.set({
+        id: state.id,
+        url: getCacheKey(config),
+        reason: plan.reason,
+        attempt,
+        maxRetries: options.maxRetries,
+        retryAt: Date.now() + plan.delay,
+    });
+
+    await new Promise(resolve => setTimeout(resolve, plan.delay));
+
+    config.retryState = { ...state, attempt, totalWait: state.totalWait + plan.delay };
+
+    try {
+        const response = await apiClient.request(config);
+        retryStatusStore.remove(state.id);
+        return response;
+    } catch (retryError) {
+        retryStatusStore.remove(state.id);
+        throw retryError;
+    }
+});
 
 export default apiClient; 
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { AxiosHeaders } from 'axios';
+
+export interface EtagCacheEntry {
+    etag?: string;
+    lastModified?: string;
+    data: unknown;
+    headers: Record<string, string>;
+    storedAt: number;
+}
+
+/**
+ * Per-URL cache of validators (ETag / Last-Modified) and response bodies.
+ * Lets apiClient send conditional requests and serve the cached body on 304,
+ * which GitHub does not count against the rate limit.
+ */
+class EtagCache {
+    private entries = new Map<string, EtagCacheEntry>();
+
+    constructor(private maxEntries: number = 200) { }
+
+    get(url: string): EtagCacheEntry | undefined {
+        const entry = this.entries.get(url);
+        if (entry) {
+            // Re-insert to keep the most recently used entries at the end
+            this.entries.delete(url);
+            this.entries.set(url, entry);
+        }
+        return entry;
+    }
+
+    set(url: string, entry: Omit<EtagCacheEntry, 'storedAt'>) {
+        this.entries.delete(url);
+        this.entries.set(url, { ...entry, storedAt: Date.now() });
+
+        // Evict least recently used entries
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey === undefined) break;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    /**
+     * Drop every entry whose URL starts with the given prefix
+     * e.g. invalidate('/repos/facebook/react/issues')
+     */
+    invalidate(urlPrefix: string) {
+        for (const key of Array.from(this.entries.keys())) {
+            if (key.startsWith(urlPrefix)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+    }
+
+    get size() {
+        return this.entries.size;
+    }
+}
+
+/**
+ * Build the request headers for a conditional request from a cache entry
+ */
+export const getConditionalHeaders = (entry: EtagCacheEntry): Record<string, string> => {
+    if (entry.etag) return { 'If-None-Match': entry.etag };
+    if (entry.lastModified) return { 'If-Modified-Since': entry.lastModified };
+    return {};
+};
+
+/**
+ * Merge cached headers with the fresh 304 headers (rate-limit info comes from the 304)
+ */
+export const mergeCachedHeaders = (entry: EtagCacheEntry, freshHeaders: AxiosHeaders): AxiosHeaders => {
+    return AxiosHeaders.concat(entry.headers, freshHeaders);
+};
+
+export const etagCache = new EtagCache();
+export default etagCache;
@@ -0,0 +1,130 @@
+export type RateLimitResource = 'core' | 'search' | 'graphql' | (string & {});
+
+export interface RateLimitInfo {
+    resource: RateLimitResource;
+    limit: number;
+    remaining: number;
+    used: number;
+    /** Reset time in epoch milliseconds */
+    resetAt: number;
+    updatedAt: number;
+}
+
+export type RateLimitSnapshot = Readonly<Record<string, RateLimitInfo>>;
+
+type HeaderSource = Record<string, unknown> | undefined;
+
+const readHeader = (headers: HeaderSource, name: string): string | undefined => {
+    if (!headers) return undefined;
+    // AxiosHeaders lookups are case-insensitive, plain objects are not
+    const value = typeof headers.get === 'function'
+        ? (headers.get as (name: string) => unknown).call(headers, name)
+        : headers[name];
+    return value === undefined || value === null ? undefined : String(value);
+};
+
+/**
+ * Parse GitHub's x-ratelimit-* headers
+ * Returns null when the response carries no rate-limit information
+ */
+export const parseRateLimitHeaders = (headers: HeaderSource): RateLimitInfo | null => {
+    const limit = readHeader(headers, 'x-ratelimit-limit');
+    const remaining = readHeader(headers, 'x-ratelimit-remaining');
+    const reset = readHeader(headers, 'x-ratelimit-reset');
+
+    if (limit === undefined || remaining === undefined || reset === undefined) {
+        return null;
+    }
+
+    const parsedLimit = parseInt(limit, 10);
+    const parsedRemaining = parseInt(remaining, 10);
+    const used = readHeader(headers, 'x-ratelimit-used');
+
+    return {
+        resource: readHeader(headers, 'x-ratelimit-resource') || 'core',
+        limit: parsedLimit,
+        remaining: parsedRemaining,
+        used: used !== undefined ? parseInt(used, 10) : parsedLimit - parsedRemaining,
+        resetAt: parseInt(reset, 10) * 1000,
+        updatedAt: Date.now(),
+    };
+};
+
+/**
+ * External store holding the latest rate-limit budget per resource.
+ * Fed by the apiClient response interceptor and read through useRateLimit.
+ */
+class RateLimitStore {
+    private snapshot: RateLimitSnapshot = {};
+    private listeners = new Set<() => void>();
+    private resetTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    subscribe = (listener: () => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    getSnapshot = (): RateLimitSnapshot => this.snapshot;
+
+    get(resource: RateLimitResource = 'core'): RateLimitInfo | undefined {
+        return this.snapshot[resource];
+    }
+
+    update(info: RateLimitInfo) {
+        const previous = this.snapshot[info.resource];
+
+        // Ignore out-of-order responses from an older window
+        if (previous && previous.resetAt === info.resetAt && previous.remaining < info.remaining) {
+            return;
+        }
+
+        this.snapshot = { ...this.snapshot, [info.resource]: info };
+        this.scheduleReset(info);
+        this.emit();
+    }
+
+    isExhausted(resource: RateLimitResource = 'core', now: number = Date.now()): boolean {
+        const info = this.snapshot[resource];
+        return !!info && info.remaining <= 0 && info.resetAt > now;
+    }
+
+    msUntilReset(resource: RateLimitResource = 'core', now: number = Date.now()): number {
+        const info = this.snapshot[resource];
+        return info ? Math.max(0, info.resetAt - now) : 0;
+    }
+
+    /**
+     * When the budget is exhausted, replenish it locally once the window resets
+     * so paused queries resume without waiting for another response
+     */
+    private scheduleReset(info: RateLimitInfo) {
+        const existing = this.resetTimers.get(info.resource);
+        if (existing) clearTimeout(existing);
+        this.resetTimers.delete(info.resource);
+
+        if (info.remaining > 0) return;
+
+        const delay = Math.max(0, info.resetAt - Date.now());
+        const timer = setTimeout(() => {
+            this.resetTimers.delete(info.resource);
+            const current = this.snapshot[info.resource];
+            if (!current || current.resetAt !== info.resetAt) return;
+
+            this.snapshot = {
+                ...this.snapshot,
+                [info.resource]: { ...current, remaining: current.limit, used: 0, updatedAt: Date.now() }
+            };
+            this.emit();
+        }, delay);
+        this.resetTimers.set(info.resource, timer);
+    }
+
+    private emit() {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const rateLimitStore = new RateLimitStore();
+export default rateLimitStore;
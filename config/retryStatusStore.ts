@@ -0,0 +1,48 @@
+export type RetryReason = 'secondary-rate-limit' | 'rate-limited' | 'server' | 'network';
+
+export interface RetryStatus {
+    id: number;
+    url: string;
+    reason: RetryReason;
+    /** Retry attempt about to run (1-based) */
+    attempt: number;
+    maxRetries: number;
+    /** Epoch ms when the retry will be sent */
+    retryAt: number;
+}
+
+/**
+ * External store of requests currently waiting to be retried by apiClient.
+ * Read through useRetryStatus to report retry progress in the UI.
+ */
+class RetryStatusStore {
+    private snapshot: readonly RetryStatus[] = [];
+    private listeners = new Set<() => void>();
+
+    subscribe = (listener: () => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    getSnapshot = (): readonly RetryStatus[] => this.snapshot;
+
+    set(status: RetryStatus) {
+        this.snapshot = [...this.snapshot.filter(item => item.id !== status.id), status];
+        this.emit();
+    }
+
+    remove(id: number) {
+        if (!this.snapshot.some(item => item.id === id)) return;
+        this.snapshot = this.snapshot.filter(item => item.id !== id);
+        this.emit();
+    }
+
+    private emit() {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export const retryStatusStore = new RetryStatusStore();
+export default retryStatusStore;
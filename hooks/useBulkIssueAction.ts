@@ -0,0 +1,111 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import { githubIssuesService } from '../services/githubIssuesService';
+import { toGitHubApiError } from '../utils/githubApiError';
+import { GitHubIssue, IssueStateReason } from '../utils/types';
+
+export type BulkIssueAction =
+    | { type: 'add-label'; label: string }
+    | { type: 'remove-label'; label: string }
+    | { type: 'assign'; assignee: string }
+    | { type: 'set-state'; state: 'open' | 'closed'; stateReason: IssueStateReason }
+    | { type: 'set-milestone'; milestone: { number: number; title: string } | null };
+
+export interface BulkIssueFailure {
+    issueNumber: number;
+    title: string;
+    message: string;
+}
+
+export interface BulkRunProgress {
+    action: BulkIssueAction;
+    total: number;
+    completed: number;
+    failures: BulkIssueFailure[];
+    isRunning: boolean;
+}
+
+/**
+ * Apply one bulk action to a single issue
+ */
+const applyAction = (owner: string, repo: string, issue: GitHubIssue, action: BulkIssueAction): Promise<unknown> => {
+    switch (action.type) {
+        case 'add-label':
+            return githubIssuesService.addLabels(owner, repo, issue.number, [action.label]);
+        case 'remove-label':
+            // Nothing to do for issues that never had the label
+            return issue.labels.some(label => label.name === action.label)
+                ? githubIssuesService.removeLabel(owner, repo, issue.number, action.label)
+                : Promise.resolve();
+        case 'assign':
+            return githubIssuesService.addAssignees(owner, repo, issue.number, [action.assignee]);
+        case 'set-state':
+            return githubIssuesService.updateIssue(owner, repo, issue.number, {
+                state: action.state,
+                state_reason: action.stateReason
+            });
+        case 'set-milestone':
+            return githubIssuesService.updateIssue(owner, repo, issue.number, {
+                milestone: action.milestone?.number ?? null
+            });
+    }
+};
+
+/**
+ * Hook for running an action over many issues.
+ * Issues are updated one at a time (GitHub's guidance for avoiding secondary rate limits),
+ * a failure on one issue does not stop the run, and every failure is collected for the summary.
+ */
+export function useBulkIssueAction(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+    const [progress, setProgress] = useState<BulkRunProgress | null>(null);
+
+    const mutation = useMutation<BulkRunProgress, never, { issues: GitHubIssue[]; action: BulkIssueAction }>({
+        mutationFn: async ({ issues, action }) => {
+            let current: BulkRunProgress = { action, total: issues.length, completed: 0, failures: [], isRunning: true };
+            setProgress(current);
+
+            for (const issue of issues) {
+                try {
+                    await applyAction(owner, repo, issue, action);
+                    current = { ...current, completed: current.completed + 1 };
+                } catch (error) {
+                    current = {
+                        ...current,
+                        completed: current.completed + 1,
+                        failures: [...current.failures, {
+                            issueNumber: issue.number,
+                            title: issue.title,
+                            message: toGitHubApiError(error).message
+                        }]
+                    };
+                }
+                setProgress(current);
+            }
+
+            current = { ...current, isRunning: false };
+            setProgress(current);
+            return current;
+        },
+        retry: false,
+        onSettled: () => Promise.all([
+            queryClient.invalidateQueries({ queryKey: ['github-issues', owner, repo] }),
+            queryClient.invalidateQueries({ queryKey: ['github-issue-count', owner, repo] }),
+            queryClient.invalidateQueries({ queryKey: ['github-issue', owner, repo] }),
+            queryClient.invalidateQueries({ queryKey: ['github-issue-timeline', owner, repo] }),
+            // The search index lags behind edits; refetch search pages only when next shown
+            queryClient.invalidateQueries({ queryKey: ['github-issue-search', owner, repo], refetchType: 'none' }),
+        ]),
+    });
+
+    const dismiss = useCallback(() => setProgress(null), []);
+
+    return {
+        run: mutation.mutateAsync,
+        progress,
+        isRunning: mutation.isPending,
+        dismiss
+    };
+}
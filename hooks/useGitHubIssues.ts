@@ -4,6 +4,15 @@ import { useQuery } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import { GitHubIssue, SortConfig, FilterConfig, PaginationConfig, ApiError } from '../utils/types';
 import { githubIssuesService, GitHubIssuesServiceResponse } from '../services/githubIssuesService';
+import { rateLimitStore } from '../config/rateLimitStore';
+import { PageCursor } from '../utils/linkHeader';
+import { useRateLimit } from './useRateLimit';
+import {
+    GitHubApiError,
+    GitHubRateLimitError,
+    GitHubSecondaryRateLimitError,
+    toGitHubApiError
+} from '../utils/githubApiError';
 
 interface UseGitHubIssuesParams {
     owner: string;
@@ -11,6 +20,8 @@ interface UseGitHubIssuesParams {
     sorting: SortConfig[];
     filters: FilterConfig;
     pagination: PaginationConfig;
+    // Cursor of the page to load (from a previous response's nextCursor); null for the first page
+    cursor?: PageCursor | null;
     enabled?: boolean;
 }
 
@@ -20,8 +31,12 @@ interface UseGitHubIssuesReturn {
     error: ApiError | null;
     refetch: () => void;
     totalCount: number;
+    isTotalCountExact: boolean;
+    hasNextPage: boolean;
+    nextCursor: PageCursor | null;
     isRefetching: boolean;
     isFetching: boolean;
+    isRateLimited: boolean;
 }
 
 export function useGitHubIssues({
@@ -30,6 +45,7 @@ export function useGitHubIssues({
     sorting,
     filters,
     pagination,
+    cursor = null,
     enabled = true
 }: UseGitHubIssuesParams): UseGitHubIssuesReturn {
     // Memoize the query key to prevent infinite re-renders
@@ -39,40 +55,54 @@ export function useGitHubIssues({
         repo,
         JSON.stringify(sorting),
         JSON.stringify(filters),
-        JSON.stringify(pagination)
-    ], [owner, repo, sorting, filters, pagination]);
+        JSON.stringify(pagination),
+        cursor
+    ], [owner, repo, sorting, filters, pagination, cursor]);
 
     // Memoize API parameters to prevent unnecessary rebuilds
     const apiParams = useMemo(() => {
-        return githubIssuesService.convertDataTableStateToParams(
-            owner,
-            repo,
-            sorting,
-            filters,
-            pagination
-        );
-    }, [owner, repo, sorting, filters, pagination]);
+        return {
+            ...githubIssuesService.convertDataTableStateToParams(
+                owner,
+                repo,
+                sorting,
+                filters,
+                pagination
+            ),
+            cursor
+        };
+    }, [owner, repo, sorting, filters, pagination, cursor]);
+
+    // Pause fetching while the core rate-limit budget is exhausted (resumes on reset)
+    const { isExhausted: isRateLimited } = useRateLimit('core');
 
     // Use TanStack Query for data fetching
-    const query = useQuery({
+    const query = useQuery<GitHubIssuesServiceResponse, GitHubApiError>({
         queryKey,
         queryFn: async (): Promise<GitHubIssuesServiceResponse> => {
             return await githubIssuesService.getIssues(apiParams);
         },
-        enabled,
+        enabled: enabled && !isRateLimited,
         // Stale time: 5 minutes (data is considered fresh for 5 minutes)
         staleTime: 5 * 60 * 1000,
         // Cache time: 10 minutes (data stays in cache for 10 minutes)
         gcTime: 10 * 60 * 1000,
         // Retry configuration
-        retry: (failureCount, error: any) => {
-            // Don't retry for 4xx errors (client errors)
-            if (error?.status >= 400 && error?.status < 500) {
-                return false;
+        retry: (_failureCount, error) => {
+            // Budget exhausted: wait for the reset instead of failing
+            if (rateLimitStore.isExhausted('core') || error instanceof GitHubRateLimitError) {
+                return true;
+            }
+            // Transient failures were already retried with backoff by apiClient,
+            // and not found, auth and validation errors won't change on retry
+            return false;
+        },
+        retryDelay: (_attemptIndex, error) => {
+            if (error instanceof GitHubRateLimitError) {
+                return Math.max(error.resetAt - Date.now(), rateLimitStore.msUntilReset('core')) + 1000;
             }
-            return failureCount < 3;
+            return rateLimitStore.msUntilReset('core') + 1000;
         },
-        retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
         // Network mode
         networkMode: 'online',
         // Refetch on window focus
@@ -83,12 +113,18 @@ export function useGitHubIssues({
     const transformedError: ApiError | null = useMemo(() => {
         if (!query.error) return null;
 
+        const error = toGitHubApiError(query.error);
         return {
-            message: (query.error as any)?.message || 'Failed to fetch issues',
-            status: (query.error as any)?.status || 500,
-            retry: query.failureCount < 3
+            kind: error.kind,
+            message: error.message || 'Failed to fetch issues',
+            status: error.status,
+            url: error.url,
+            documentationUrl: error.documentationUrl,
+            resetAt: error instanceof GitHubRateLimitError ? error.resetAt : undefined,
+            retryAfter: error instanceof GitHubSecondaryRateLimitError ? error.retryAfter : undefined,
+            retry: error.retryable
         };
-    }, [query.error, query.failureCount]);
+    }, [query.error]);
 
     return {
         data: query.data?.data || [],
@@ -96,7 +132,11 @@ export function useGitHubIssues({
         error: transformedError,
         refetch: () => query.refetch(),
         totalCount: query.data?.totalCount || 0,
+        isTotalCountExact: query.data?.isTotalCountExact ?? false,
+        hasNextPage: query.data?.hasNextPage ?? false,
+        nextCursor: query.data?.nextCursor ?? null,
         isRefetching: query.isRefetching,
         isFetching: query.isFetching,
+        isRateLimited,
     };
 } 
\ No newline at end of file
@@ -0,0 +1,85 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query';
+import { githubIssuesService } from '../services/githubIssuesService';
+import { GitHubApiError } from '../utils/githubApiError';
+import { DateRangeFilterValue, IssueTypeFilter, LabelMatchMode } from '../utils/types';
+
+interface UseIssueCountParams {
+    owner: string;
+    repo: string;
+    state: 'open' | 'closed' | 'all';
+    type?: IssueTypeFilter;
+    labels?: string[];
+    labelMatchMode?: LabelMatchMode;
+    assignee?: string;
+    creator?: string;
+    mentioned?: string;
+    // A milestone title, or MILESTONE_NONE / MILESTONE_ANY
+    milestone?: string;
+    created?: DateRangeFilterValue | null;
+    updated?: DateRangeFilterValue | null;
+    // Link-header estimate from the issues endpoint, used until (or if) the exact count is unavailable
+    estimatedCount: number;
+    isEstimateExact?: boolean;
+    enabled?: boolean;
+}
+
+interface UseIssueCountReturn {
+    totalCount: number;
+    isExact: boolean;
+    loading: boolean;
+}
+
+/**
+ * Exact issue count per filter from the search API's total_count
+ * Falls back to the Link-header estimate, labelled as approximate
+ */
+export function useIssueCount({
+    owner,
+    repo,
+    state,
+    type = 'issues',
+    labels = [],
+    labelMatchMode = 'all',
+    assignee,
+    creator,
+    mentioned,
+    milestone,
+    created,
+    updated,
+    estimatedCount,
+    isEstimateExact = false,
+    enabled = true
+}: UseIssueCountParams): UseIssueCountReturn {
+    const query = useQuery<number, GitHubApiError>({
+        queryKey: ['github-issue-count', owner, repo, state, type, { labels, labelMatchMode, assignee, creator, mentioned, milestone, created, updated }],
+        queryFn: () => githubIssuesService.getIssueCount(owner, repo, state, type, {
+            labels,
+            labelMatchMode,
+            assignee,
+            creator,
+            mentioned,
+            milestone,
+            created,
+            updated
+        }),
+        enabled,
+        // Counts change slowly and the search API allows only 30 requests/minute
+        staleTime: 10 * 60 * 1000,
+        gcTime: 30 * 60 * 1000,
+        // apiClient already retries transient failures; fall back to the estimate otherwise
+        retry: false,
+        refetchOnWindowFocus: false,
+    });
+
+    if (query.data !== undefined) {
+        return { totalCount: query.data, isExact: true, loading: false };
+    }
+
+    return {
+        totalCount: estimatedCount,
+        isExact: isEstimateExact,
+        loading: query.isLoading,
+    };
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { GitHubComment, GitHubIssue, GitHubTimelineEvent } from '../utils/types';
+import { githubIssuesService, GitHubPageResponse } from '../services/githubIssuesService';
+import { GitHubApiError } from '../utils/githubApiError';
+import { PageCursor } from '../utils/linkHeader';
+
+interface UseIssueDetailParams {
+    owner: string;
+    repo: string;
+    issueNumber: number | null;
+    // Row data already loaded by the table, shown while the full issue loads
+    initialIssue?: GitHubIssue;
+}
+
+export type IssueActivityItem =
+    | { kind: 'comment'; createdAt: string; comment: GitHubComment }
+    | { kind: 'event'; createdAt: string; event: GitHubTimelineEvent };
+
+interface UseIssueDetailReturn {
+    issue: GitHubIssue | undefined;
+    // Comments and timeline events in chronological order
+    activity: IssueActivityItem[];
+    loading: boolean;
+    error: GitHubApiError | null;
+    activityLoading: boolean;
+    activityError: GitHubApiError | null;
+    hasMoreActivity: boolean;
+    isFetchingMoreActivity: boolean;
+    fetchMoreActivity: () => void;
+}
+
+type PagedQueryKey = (string | number | null)[];
+
+const lastCreatedAt = (items: { created_at: string }[]) =>
+    items.length > 0 ? Date.parse(items[items.length - 1].created_at) : -Infinity;
+
+/**
+ * Hook for loading a single issue with its comments and timeline, merged into one feed.
+ * Both sources page independently, so the feed stops at the earliest point either source
+ * has not loaded past yet; fetchMoreActivity advances whichever source is behind.
+ */
+export function useIssueDetail({
+    owner,
+    repo,
+    issueNumber,
+    initialIssue
+}: UseIssueDetailParams): UseIssueDetailReturn {
+    const enabled = issueNumber !== null;
+
+    const issueQuery = useQuery<GitHubIssue, GitHubApiError>({
+        queryKey: ['github-issue', owner, repo, issueNumber],
+        queryFn: () => githubIssuesService.getIssue(owner, repo, issueNumber as number),
+        enabled,
+        placeholderData: initialIssue?.number === issueNumber ? initialIssue : undefined,
+        staleTime: 60 * 1000,
+        retry: false,
+    });
+
+    const commentsQuery = useInfiniteQuery<
+        GitHubPageResponse<GitHubComment>,
+        GitHubApiError,
+        { pages: GitHubPageResponse<GitHubComment>[] },
+        PagedQueryKey,
+        PageCursor | null
+    >({
+        queryKey: ['github-issue-comments', owner, repo, issueNumber],
+        queryFn: ({ pageParam }) => githubIssuesService.getComments(owner, repo, issueNumber as number, {
+            per_page: 50,
+            cursor: pageParam
+        }),
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled,
+        staleTime: 60 * 1000,
+        retry: false,
+    });
+
+    const timelineQuery = useInfiniteQuery<
+        GitHubPageResponse<GitHubTimelineEvent>,
+        GitHubApiError,
+        { pages: GitHubPageResponse<GitHubTimelineEvent>[] },
+        PagedQueryKey,
+        PageCursor | null
+    >({
+        queryKey: ['github-issue-timeline', owner, repo, issueNumber],
+        queryFn: async ({ pageParam }) => {
+            const getPage = (cursor: PageCursor | null) => githubIssuesService.getTimeline(owner, repo, issueNumber as number, {
+                per_page: 100,
+                cursor
+            });
+            // A page of only event kinds we do not render comes back empty and would not move the
+            // frontier, so follow the cursor until a page has an item or the timeline ends
+            let page = await getPage(pageParam);
+            while (page.data.length === 0 && page.nextCursor) {
+                page = await getPage(page.nextCursor);
+            }
+            return page;
+        },
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled,
+        staleTime: 60 * 1000,
+        retry: false,
+    });
+
+    const comments = useMemo(
+        () => commentsQuery.data?.pages.flatMap(page => page.data) ?? [],
+        [commentsQuery.data]
+    );
+    const events = useMemo(
+        () => timelineQuery.data?.pages.flatMap(page => page.data) ?? [],
+        [timelineQuery.data]
+    );
+
+    // Anything after a source's last loaded item may still have unseen items from that source before it
+    const commentsFrontier = commentsQuery.hasNextPage ? lastCreatedAt(comments) : Infinity;
+    const eventsFrontier = timelineQuery.hasNextPage ? lastCreatedAt(events) : Infinity;
+    const frontier = Math.min(commentsFrontier, eventsFrontier);
+
+    const activity = useMemo(() => {
+        const items: IssueActivityItem[] = [
+            ...comments.map(comment => ({ kind: 'comment' as const, createdAt: comment.created_at, comment })),
+            ...events.map(event => ({ kind: 'event' as const, createdAt: event.created_at, event }))
+        ];
+
+        return items
+            .filter(item => Date.parse(item.createdAt) <= frontier)
+            .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    }, [comments, events, frontier]);
+
+    const fetchMoreActivity = () => {
+        if (commentsQuery.hasNextPage && commentsFrontier <= eventsFrontier) {
+            commentsQuery.fetchNextPage();
+        } else if (timelineQuery.hasNextPage) {
+            timelineQuery.fetchNextPage();
+        }
+    };
+
+    return {
+        issue: issueQuery.data,
+        activity,
+        loading: issueQuery.isLoading,
+        error: issueQuery.error,
+        activityLoading: commentsQuery.isLoading || timelineQuery.isLoading,
+        activityError: commentsQuery.error ?? timelineQuery.error,
+        hasMoreActivity: !!commentsQuery.hasNextPage || !!timelineQuery.hasNextPage,
+        isFetchingMoreActivity: commentsQuery.isFetchingNextPage || timelineQuery.isFetchingNextPage,
+        fetchMoreActivity,
+    };
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { GitHubIssue, IssueLockReason } from '../utils/types';
+import {
+    CreateIssueParams,
+    githubIssuesService,
+    GitHubIssuesServiceResponse,
+    UpdateIssueParams
+} from '../services/githubIssuesService';
+import { GitHubApiError } from '../utils/githubApiError';
+import { patchCachedIssue } from '../providers/ReactQueryClient';
+import { matchesServerFilters } from '../utils/issueFilters';
+
+interface UpdateIssueVariables {
+    // The issue as shown when the edit started; its updated_at is checked for conflicts
+    issue: GitHubIssue;
+    updates: UpdateIssueParams;
+    // Skip the conflict check and write over remote changes
+    overwrite?: boolean;
+}
+
+interface LockIssueVariables {
+    issue: GitHubIssue;
+    lockReason?: IssueLockReason;
+}
+
+interface UnlockIssueVariables {
+    issue: GitHubIssue;
+}
+
+interface OptimisticContext {
+    rollback: () => void;
+}
+
+/**
+ * Apply the parts of an update that can be shown before GitHub answers.
+ * Labels, assignees and milestones need data only the server returns, so they wait for it.
+ */
+const applyUpdates = (issue: GitHubIssue, updates: UpdateIssueParams): GitHubIssue => ({
+    ...issue,
+    ...(updates.title !== undefined && { title: updates.title }),
+    ...(updates.body !== undefined && { body: updates.body }),
+    ...(updates.state !== undefined && {
+        state: updates.state,
+        state_reason: updates.state_reason ?? null,
+        closed_at: updates.state === 'closed' ? issue.closed_at ?? new Date().toISOString() : null
+    }),
+    ...(updates.milestone === null && { milestone: null })
+});
+
+/**
+ * Returns a callback that refetches every query showing data for an issue:
+ * the table pages, the exact counts and the issue's own detail/timeline
+ */
+function useInvalidateIssueQueries(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+
+    return useCallback((issueNumber: number) => Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['github-issues', owner, repo] }),
+        queryClient.invalidateQueries({ queryKey: ['github-issue-count', owner, repo] }),
+        queryClient.invalidateQueries({ queryKey: ['github-issue', owner, repo, issueNumber] }),
+        queryClient.invalidateQueries({ queryKey: ['github-issue-timeline', owner, repo, issueNumber] }),
+    ]), [queryClient, owner, repo]);
+}
+
+/**
+ * Returns a callback that reloads an issue into the cache (and every table row showing it),
+ * so later edits are checked against its latest updated_at
+ */
+export function useReloadIssue(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+
+    return useCallback(async (issue: GitHubIssue) => {
+        await patchCachedIssue(queryClient, owner, repo, issue, () => issue);
+    }, [queryClient, owner, repo]);
+}
+
+/**
+ * Mutation for opening a new issue.
+ * The created issue is put at the top of every cached first page whose filters it matches
+ * and seeded as its own detail entry, so it shows without a refetch.
+ */
+export function useCreateIssue(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+
+    return useMutation<GitHubIssue, GitHubApiError, CreateIssueParams>({
+        mutationFn: (issue) => githubIssuesService.createIssue(owner, repo, issue),
+        // Creating is not idempotent; never retry it
+        retry: false,
+        onSuccess: (created) => {
+            queryClient.setQueryData(['github-issue', owner, repo, created.number], created);
+            queryClient
+                .getQueriesData<GitHubIssuesServiceResponse>({ queryKey: ['github-issues', owner, repo] })
+                .forEach(([queryKey, page]) => {
+                    // Key: [scope, owner, repo, sorting, filters, pagination, cursor]
+                    const filters = JSON.parse(String(queryKey[4] ?? '{}'));
+                    const isFirstPage = queryKey[6] == null;
+                    if (!page || !isFirstPage || !matchesServerFilters(created, filters)) return;
+                    if (page.data.some(item => item.id === created.id)) return;
+                    queryClient.setQueryData<GitHubIssuesServiceResponse>(queryKey, {
+                        ...page,
+                        data: [created, ...page.data]
+                    });
+                });
+            return queryClient.invalidateQueries({ queryKey: ['github-issue-count', owner, repo] });
+        },
+    });
+}
+
+/**
+ * Mutation for editing an issue (title, body, state with close reason, labels, ...)
+ * The change shows immediately and is rolled back if GitHub rejects it.
+ * Fails with GitHubConflictError when the issue changed remotely, unless `overwrite` is set.
+ */
+export function useUpdateIssue(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+    const invalidate = useInvalidateIssueQueries(owner, repo);
+
+    return useMutation<GitHubIssue, GitHubApiError, UpdateIssueVariables, OptimisticContext>({
+        mutationFn: ({ issue, updates, overwrite }) =>
+            githubIssuesService.updateIssue(owner, repo, issue.number, updates, {
+                expectedUpdatedAt: overwrite ? undefined : issue.updated_at
+            }),
+        // apiClient already retries transient failures
+        retry: false,
+        onMutate: async ({ issue, updates }) => ({
+            rollback: await patchCachedIssue(queryClient, owner, repo, issue, (cached) => applyUpdates(cached, updates))
+        }),
+        onError: (_, __, context) => {
+            context?.rollback();
+        },
+        onSuccess: async (updated, { issue }) => {
+            await patchCachedIssue(queryClient, owner, repo, issue, () => updated);
+        },
+        onSettled: (_, __, { issue }) => invalidate(issue.number),
+    });
+}
+
+/**
+ * Mutation for locking an issue's conversation (optimistic)
+ */
+export function useLockIssue(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+    const invalidate = useInvalidateIssueQueries(owner, repo);
+
+    return useMutation<GitHubIssue, GitHubApiError, LockIssueVariables, OptimisticContext>({
+        mutationFn: async ({ issue, lockReason }) => {
+            await githubIssuesService.lockIssue(owner, repo, issue.number, lockReason);
+            // Locking moves updated_at; reload so the next edit is not flagged as a conflict
+            return githubIssuesService.getIssue(owner, repo, issue.number);
+        },
+        retry: false,
+        onMutate: async ({ issue, lockReason }) => ({
+            rollback: await patchCachedIssue(queryClient, owner, repo, issue, (cached) => ({
+                ...cached,
+                locked: true,
+                active_lock_reason: lockReason ?? null
+            }))
+        }),
+        onError: (_, __, context) => {
+            context?.rollback();
+        },
+        onSuccess: async (updated, { issue }) => {
+            await patchCachedIssue(queryClient, owner, repo, issue, () => updated);
+        },
+        onSettled: (_, __, { issue }) => invalidate(issue.number),
+    });
+}
+
+/**
+ * Mutation for unlocking an issue's conversation (optimistic)
+ */
+export function useUnlockIssue(owner: string, repo: string) {
+    const queryClient = useQueryClient();
+    const invalidate = useInvalidateIssueQueries(owner, repo);
+
+    return useMutation<GitHubIssue, GitHubApiError, UnlockIssueVariables, OptimisticContext>({
+        mutationFn: async ({ issue }) => {
+            await githubIssuesService.unlockIssue(owner, repo, issue.number);
+            return githubIssuesService.getIssue(owner, repo, issue.number);
+        },
+        retry: false,
+        onMutate: async ({ issue }) => ({
+            rollback: await patchCachedIssue(queryClient, owner, repo, issue, (cached) => ({
+                ...cached,
+                locked: false,
+                active_lock_reason: null
+            }))
+        }),
+        onError: (_, __, context) => {
+            context?.rollback();
+        },
+        onSuccess: async (updated, { issue }) => {
+            await patchCachedIssue(queryClient, owner, repo, issue, () => updated);
+        },
+        onSettled: (_, __, { issue }) => invalidate(issue.number),
+    });
+}
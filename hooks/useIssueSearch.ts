@@ -0,0 +1,121 @@
+'use client'
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { githubIssuesService, GitHubSearchIssuesResponse, IssueCountFilters } from '../services/githubIssuesService';
+import { rateLimitStore } from '../config/rateLimitStore';
+import { useRateLimit } from './useRateLimit';
+import { ApiError, GitHubIssue, IssueTypeFilter } from '../utils/types';
+import {
+    GitHubApiError,
+    GitHubRateLimitError,
+    GitHubSecondaryRateLimitError,
+    toGitHubApiError
+} from '../utils/githubApiError';
+
+interface UseIssueSearchParams {
+    owner: string;
+    repo: string;
+    // Search box text, passed through to the search API
+    text: string;
+    state: 'open' | 'closed' | 'all';
+    type: IssueTypeFilter;
+    filters: IssueCountFilters;
+    // Best match when omitted
+    sort?: 'created' | 'updated' | 'comments';
+    order?: 'asc' | 'desc';
+    page: number;
+    perPage: number;
+    enabled?: boolean;
+}
+
+interface UseIssueSearchReturn {
+    data: GitHubIssue[];
+    totalCount: number;
+    totalPages: number;
+    incompleteResults: boolean;
+    loading: boolean;
+    isFetching: boolean;
+    error: ApiError | null;
+    refetch: () => void;
+    isRateLimited: boolean;
+}
+
+/**
+ * Whole-repository search through the search API, one page per request
+ * The search API allows 30 requests a minute: results stay fresh for a while,
+ * the previous page stays on screen while the next loads, and queries pause
+ * while the search budget is exhausted.
+ */
+export function useIssueSearch({
+    owner,
+    repo,
+    text,
+    state,
+    type,
+    filters,
+    sort,
+    order = 'desc',
+    page,
+    perPage,
+    enabled = true
+}: UseIssueSearchParams): UseIssueSearchReturn {
+    const { isExhausted: isRateLimited } = useRateLimit('search');
+
+    const query = useQuery<GitHubSearchIssuesResponse, GitHubApiError>({
+        queryKey: ['github-issue-search', owner, repo, text.trim(), state, type, filters, sort, order, page, perPage],
+        queryFn: () => githubIssuesService.searchRepoIssues(owner, repo, text, state, type, filters, {
+            sort,
+            order,
+            page,
+            per_page: perPage
+        }),
+        enabled: enabled && !!owner && !!repo && !isRateLimited,
+        placeholderData: keepPreviousData,
+        staleTime: 5 * 60 * 1000,
+        gcTime: 10 * 60 * 1000,
+        retry: (_failureCount, error) => {
+            // Search budget exhausted: wait for the reset instead of failing
+            if (rateLimitStore.isExhausted('search') || error instanceof GitHubRateLimitError) {
+                return true;
+            }
+            // apiClient already retried transient failures
+            return false;
+        },
+        retryDelay: (_attemptIndex, error) => {
+            if (error instanceof GitHubRateLimitError) {
+                return Math.max(error.resetAt - Date.now(), rateLimitStore.msUntilReset('search')) + 1000;
+            }
+            return rateLimitStore.msUntilReset('search') + 1000;
+        },
+        refetchOnWindowFocus: false,
+    });
+
+    const transformedError: ApiError | null = useMemo(() => {
+        if (!query.error) return null;
+
+        const error = toGitHubApiError(query.error);
+        return {
+            kind: error.kind,
+            message: error.message || 'Failed to search issues',
+            status: error.status,
+            url: error.url,
+            documentationUrl: error.documentationUrl,
+            resetAt: error instanceof GitHubRateLimitError ? error.resetAt : undefined,
+            retryAfter: error instanceof GitHubSecondaryRateLimitError ? error.retryAfter : undefined,
+            retry: error.retryable
+        };
+    }, [query.error]);
+
+    return {
+        data: query.data?.data || [],
+        totalCount: query.data?.totalCount ?? 0,
+        totalPages: query.data?.totalPages ?? 0,
+        incompleteResults: query.data?.incompleteResults ?? false,
+        loading: query.isLoading,
+        isFetching: query.isFetching,
+        error: transformedError,
+        refetch: () => query.refetch(),
+        isRateLimited,
+    };
+}
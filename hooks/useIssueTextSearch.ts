@@ -0,0 +1,139 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { onCachedCommentsChange } from '../providers/ReactQueryClient';
+import { GitHubIssue } from '../utils/types';
+import {
+    IssueSearchHit,
+    IssueSearchRequest,
+    IssueSearchResponse,
+    MaxTypos,
+    SearchDocument,
+    SearchTerm
+} from '../utils/issueSearchIndex';
+
+interface UseIssueTextSearchReturn {
+    // Hits by issue number; null without terms, or when the index has not answered yet
+    hits: Map<number, IssueSearchHit> | null;
+    // Indexed words the hits matched, for highlighting; null alongside hits
+    matchedTerms: Set<string> | null;
+    // The worker has not answered the current query yet; any hits shown are from an earlier one
+    isSearching: boolean;
+}
+
+const toSearchDocument = (issue: GitHubIssue): SearchDocument => ({
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    labels: issue.labels.map(label => label.name),
+    author: issue.user.login
+});
+
+// Refetched pages bring new objects for unchanged issues; only reindex what the index reads
+const isSameDocument = (a: GitHubIssue, b: GitHubIssue) =>
+    a.title === b.title &&
+    a.body === b.body &&
+    a.user.login === b.user.login &&
+    a.labels.length === b.labels.length &&
+    a.labels.every((label, index) => label.name === b.labels[index].name);
+
+/**
+ * Full-text search over every issue fetched for the repository (title, body, labels, author
+ * and comment threads once loaded), indexed and queried in a Web Worker so typing stays
+ * responsive with tens of thousands of issues. Without Worker support hits stay null and
+ * callers fall back to matching on the main thread.
+ *
+ * @param issues - Issues to index; new and changed ones are sent to the worker as they arrive
+ * @param terms - Positive text terms of the search query
+ * @param maxTypos - Typo tolerance; 0 disables fuzzy matching
+ */
+export function useIssueTextSearch(
+    owner: string,
+    repo: string,
+    issues: GitHubIssue[],
+    terms: SearchTerm[],
+    maxTypos: MaxTypos = 0
+): UseIssueTextSearchReturn {
+    const queryClient = useQueryClient();
+    const workerRef = useRef<Worker | null>(null);
+    // What the worker has indexed, to send only new and changed issues
+    const indexedRef = useRef(new Map<number, GitHubIssue>());
+    const queryIdRef = useRef(0);
+    const [queryId, setQueryId] = useState(0);
+    const [result, setResult] = useState<{
+        queryId: number;
+        hits: Map<number, IssueSearchHit>;
+        matchedTerms: Set<string>;
+    } | null>(null);
+
+    // One index per repository
+    useEffect(() => {
+        if (typeof Worker === 'undefined') return;
+
+        const worker = new Worker(new URL('../utils/issueSearch.worker.ts', import.meta.url));
+        const post = (request: IssueSearchRequest) => worker.postMessage(request);
+        workerRef.current = worker;
+        indexedRef.current = new Map();
+        setResult(null);
+
+        worker.onmessage = (event: MessageEvent<IssueSearchResponse>) => {
+            setResult({
+                queryId: event.data.queryId,
+                hits: new Map(event.data.hits.map(hit => [hit.number, hit])),
+                matchedTerms: new Set(event.data.matchedTerms)
+            });
+        };
+
+        const unsubscribe = onCachedCommentsChange(queryClient, owner, repo, (issueNumber, comments) => {
+            post({ type: 'comments', number: issueNumber, comments: comments.map(comment => comment.body) });
+        });
+
+        return () => {
+            unsubscribe();
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, [queryClient, owner, repo]);
+
+    // Issues stay indexed when filters replace the loaded rows; callers only keep hits they show
+    useEffect(() => {
+        const worker = workerRef.current;
+        if (!worker) return;
+
+        const indexed = indexedRef.current;
+        const changed: SearchDocument[] = [];
+        for (const issue of issues) {
+            const previous = indexed.get(issue.number);
+            if (previous === issue) continue;
+            if (!previous || !isSameDocument(previous, issue)) changed.push(toSearchDocument(issue));
+            indexed.set(issue.number, issue);
+        }
+
+        if (changed.length > 0) {
+            const request: IssueSearchRequest = { type: 'upsert', documents: changed };
+            worker.postMessage(request);
+        }
+    }, [issues, owner, repo]);
+
+    const termsKey = JSON.stringify(terms);
+    useEffect(() => {
+        queryIdRef.current += 1;
+        setQueryId(queryIdRef.current);
+
+        const request: IssueSearchRequest = {
+            type: 'search',
+            queryId: queryIdRef.current,
+            terms: JSON.parse(termsKey),
+            maxTypos
+        };
+        workerRef.current?.postMessage(request);
+    }, [termsKey, maxTypos, owner, repo]);
+
+    const hasTerms = terms.length > 0;
+    return {
+        hits: hasTerms && result ? result.hits : null,
+        matchedTerms: hasTerms && result ? result.matchedTerms : null,
+        isSearching: hasTerms && typeof Worker !== 'undefined' && result?.queryId !== queryId
+    };
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { rateLimitStore, RateLimitInfo, RateLimitResource, RateLimitSnapshot } from '../config/rateLimitStore';
+
+const EMPTY_SNAPSHOT: RateLimitSnapshot = {};
+
+interface UseRateLimitReturn {
+    rateLimit: RateLimitInfo | null;
+    isExhausted: boolean;
+}
+
+/**
+ * Read the latest GitHub rate-limit budget for a resource ('core', 'search', ...)
+ * Re-renders only when a response updates the budget or the window resets
+ */
+export function useRateLimit(resource: RateLimitResource = 'core'): UseRateLimitReturn {
+    const snapshot = useSyncExternalStore(
+        rateLimitStore.subscribe,
+        rateLimitStore.getSnapshot,
+        () => EMPTY_SNAPSHOT
+    );
+
+    const rateLimit = snapshot[resource] ?? null;
+
+    return {
+        rateLimit,
+        isExhausted: !!rateLimit && rateLimit.remaining <= 0 && rateLimit.resetAt > Date.now(),
+    };
+}
+
+/**
+ * Live countdown (in milliseconds) to a timestamp, ticking every second
+ */
+export function useResetCountdown(resetAt: number | undefined): number {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!resetAt) return;
+
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [resetAt]);
+
+    return resetAt ? Math.max(0, resetAt - now) : 0;
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query';
+import { githubIssuesService } from '../services/githubIssuesService';
+import { GitHubApiError } from '../utils/githubApiError';
+import { GitHubMilestone, IssueTemplate } from '../utils/types';
+
+// Labels, assignees and milestones change rarely; share them across pickers for a while
+const METADATA_STALE_TIME = 10 * 60 * 1000;
+
+export type RepoLabel = Awaited<ReturnType<typeof githubIssuesService.getLabels>>[number];
+export type RepoAssignee = Awaited<ReturnType<typeof githubIssuesService.getAssignees>>[number];
+
+/**
+ * Hook for the repository's labels
+ */
+export function useRepoLabels(owner: string, repo: string, enabled = true) {
+    return useQuery<RepoLabel[], GitHubApiError>({
+        queryKey: ['github-labels', owner, repo],
+        queryFn: () => githubIssuesService.getLabels(owner, repo),
+        enabled: enabled && !!owner && !!repo,
+        staleTime: METADATA_STALE_TIME,
+        retry: false,
+    });
+}
+
+/**
+ * Hook for the users that can be assigned to issues in the repository
+ */
+export function useRepoAssignees(owner: string, repo: string, enabled = true) {
+    return useQuery<RepoAssignee[], GitHubApiError>({
+        queryKey: ['github-assignees', owner, repo],
+        queryFn: () => githubIssuesService.getAssignees(owner, repo),
+        enabled: enabled && !!owner && !!repo,
+        staleTime: METADATA_STALE_TIME,
+        retry: false,
+    });
+}
+
+/**
+ * Hook for the repository's milestones
+ */
+export function useRepoMilestones(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'open',
+    enabled = true
+) {
+    return useQuery<GitHubMilestone[], GitHubApiError>({
+        queryKey: ['github-milestones', owner, repo, state],
+        queryFn: () => githubIssuesService.getMilestones(owner, repo, state),
+        enabled: enabled && !!owner && !!repo,
+        staleTime: METADATA_STALE_TIME,
+        retry: false,
+    });
+}
+
+/**
+ * Hook for the repository's issue templates (.github/ISSUE_TEMPLATE)
+ */
+export function useIssueTemplates(owner: string, repo: string, enabled = true) {
+    return useQuery<IssueTemplate[], GitHubApiError>({
+        queryKey: ['github-issue-templates', owner, repo],
+        queryFn: () => githubIssuesService.getIssueTemplates(owner, repo),
+        enabled: enabled && !!owner && !!repo,
+        staleTime: METADATA_STALE_TIME,
+        retry: false,
+    });
+}
@@ -0,0 +1,18 @@
+'use client'
+
+import { useSyncExternalStore } from 'react';
+import { retryStatusStore, RetryStatus } from '../config/retryStatusStore';
+
+const EMPTY_SNAPSHOT: readonly RetryStatus[] = [];
+
+/**
+ * Read the requests apiClient is currently waiting to retry
+ * The most recently scheduled retry is last
+ */
+export function useRetryStatus(): readonly RetryStatus[] {
+    return useSyncExternalStore(
+        retryStatusStore.subscribe,
+        retryStatusStore.getSnapshot,
+        () => EMPTY_SNAPSHOT
+    );
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { githubIssuesService, GitHubUserSummary } from '../services/githubIssuesService';
+import { GitHubApiError } from '../utils/githubApiError';
+
+// The search API allows 30 requests/minute; wait for a pause in typing
+const SEARCH_DEBOUNCE_MS = 400;
+
+/**
+ * Hook for login autocomplete through the users search API.
+ * The query is debounced and trimmed; nothing is fetched for an empty query.
+ */
+export function useUserSearch(query: string, enabled = true) {
+    const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [query]);
+
+    const result = useQuery<GitHubUserSummary[], GitHubApiError>({
+        queryKey: ['github-user-search', debouncedQuery],
+        queryFn: () => githubIssuesService.searchUsers(debouncedQuery),
+        enabled: enabled && debouncedQuery.length > 0,
+        staleTime: 10 * 60 * 1000,
+        retry: false,
+    });
+
+    return {
+        ...result,
+        // True while typing ahead of the debounced query too
+        isSearching: result.isFetching || (enabled && query.trim() !== debouncedQuery)
+    };
+}
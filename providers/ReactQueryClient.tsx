@@ -1,8 +1,10 @@
 'use client'
 
 import React from 'react'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { InfiniteData, QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
+import { GitHubComment, GitHubIssue } from '../utils/types'
+import type { GitHubIssuesServiceResponse, GitHubPageResponse } from '../services/githubIssuesService'
 
 // Create a stable client instance
 let queryClient: QueryClient | undefined = undefined;
@@ -38,6 +40,115 @@ function getQueryClient() {
     }
 }
 
+/**
+ * Optimistically rewrite an issue everywhere it is cached: every `github-issues` and
+ * `github-issue-search` page that contains it and its own `github-issue` detail entry. Tables listening through
+ * onCachedIssueChange pick the change up too.
+ *
+ * @param issue - The issue as currently shown, used unless the cached detail entry is newer
+ * @returns Rollback that restores every entry it touched
+ */
+export async function patchCachedIssue(
+    client: QueryClient,
+    owner: string,
+    repo: string,
+    issue: GitHubIssue,
+    patch: (issue: GitHubIssue) => GitHubIssue
+): Promise<() => void> {
+    const listKey = ['github-issues', owner, repo]
+    // Search pages are patched but never invalidated: the search index lags behind edits,
+    // so a refetch right after a mutation would bring back the old values
+    const searchKey = ['github-issue-search', owner, repo]
+    const detailKey = ['github-issue', owner, repo, issue.number]
+
+    // Keep in-flight fetches from overwriting the optimistic value
+    await Promise.all([
+        client.cancelQueries({ queryKey: listKey }),
+        client.cancelQueries({ queryKey: searchKey }),
+        client.cancelQueries({ queryKey: detailKey }),
+    ])
+
+    const previousPages = [
+        ...client.getQueriesData<GitHubIssuesServiceResponse>({ queryKey: listKey }),
+        ...client.getQueriesData<GitHubIssuesServiceResponse>({ queryKey: searchKey }),
+    ]
+    // The detail entry can be older than the row the edit started from; patch whichever is newer
+    const cachedIssue = client.getQueryData<GitHubIssue>(detailKey)
+    const previousIssue = cachedIssue && cachedIssue.updated_at >= issue.updated_at ? cachedIssue : issue
+
+    const patchPage = (page: GitHubIssuesServiceResponse | undefined) => {
+        if (!page || !page.data.some(item => item.number === issue.number)) return page
+        return {
+            ...page,
+            data: page.data.map(item => item.number === issue.number ? patch(item) : item)
+        }
+    }
+    client.setQueriesData<GitHubIssuesServiceResponse>({ queryKey: listKey }, patchPage)
+    client.setQueriesData<GitHubIssuesServiceResponse>({ queryKey: searchKey }, patchPage)
+    client.setQueryData<GitHubIssue>(detailKey, patch(previousIssue))
+
+    return () => {
+        previousPages.forEach(([queryKey, page]) => client.setQueryData(queryKey, page))
+        client.setQueryData<GitHubIssue>(detailKey, previousIssue)
+    }
+}
+
+/**
+ * Listen for changes to any cached issue detail of a repository (optimistic patches,
+ * rollbacks and fresh fetches), e.g. to keep locally accumulated rows in sync
+ *
+ * @returns Unsubscribe function
+ */
+export function onCachedIssueChange(
+    client: QueryClient,
+    owner: string,
+    repo: string,
+    listener: (issue: GitHubIssue) => void
+): () => void {
+    return client.getQueryCache().subscribe((event) => {
+        if (event.type !== 'updated' || event.action.type !== 'success') return
+
+        const [scope, queryOwner, queryRepo] = event.query.queryKey
+        if (scope !== 'github-issue' || queryOwner !== owner || queryRepo !== repo) return
+
+        const issue = event.query.state.data as GitHubIssue | undefined
+        if (issue) listener(issue)
+    })
+}
+
+/**
+ * Listen for comment threads of a repository's issues as they load, e.g. to index them.
+ * Threads already in the cache are reported immediately.
+ *
+ * @returns Unsubscribe function
+ */
+export function onCachedCommentsChange(
+    client: QueryClient,
+    owner: string,
+    repo: string,
+    listener: (issueNumber: number, comments: GitHubComment[]) => void
+): () => void {
+    const commentsKey = ['github-issue-comments', owner, repo]
+    const report = (queryKey: readonly unknown[], data: InfiniteData<GitHubPageResponse<GitHubComment>> | undefined) => {
+        const issueNumber = queryKey[3]
+        if (typeof issueNumber === 'number' && data) {
+            listener(issueNumber, data.pages.flatMap(page => page.data))
+        }
+    }
+
+    client.getQueriesData<InfiniteData<GitHubPageResponse<GitHubComment>>>({ queryKey: commentsKey })
+        .forEach(([queryKey, data]) => report(queryKey, data))
+
+    return client.getQueryCache().subscribe((event) => {
+        if (event.type !== 'updated' || event.action.type !== 'success') return
+
+        const [scope, queryOwner, queryRepo] = event.query.queryKey
+        if (scope !== 'github-issue-comments' || queryOwner !== owner || queryRepo !== repo) return
+
+        report(event.query.queryKey, event.query.state.data as InfiniteData<GitHubPageResponse<GitHubComment>> | undefined)
+    })
+}
+
 interface ProvidersProps {
     children: React.ReactNode
 }
@@ -1,6 +1,10 @@
 import { apiClient } from '../config/axiosConfig';
 import { AxiosResponse } from 'axios';
-import { GitHubIssue, SortConfig, FilterConfig, PaginationConfig, GitHubIssuesResponse } from '../utils/types';
+import { GitHubIssue, GitHubComment, GitHubMilestone, GitHubTimelineEvent, GitHubTimelineEventKind, IssueLockReason, IssueStateReason, IssueTemplate, LabelMatchMode, DateRangeFilterValue, SortConfig, FilterConfig, PaginationConfig, GitHubIssuesResponse, IssueTypeFilter } from '../utils/types';
+import { GitHubApiError, GitHubConflictError, toGitHubApiError } from '../utils/githubApiError';
+import { PageCursor, PaginationLinks, parseLinkHeader, toPageCursor, getCursorParam } from '../utils/linkHeader';
+import { parseIssueTemplate } from '../utils/issueTemplates';
+import { ASSIGNEE_ANY, ASSIGNEE_NONE, MILESTONE_ANY, MILESTONE_NONE, toSearchDateQualifier } from '../utils/issueFilters';
 
 export interface GitHubIssuesParams {
     owner: string;
@@ -14,17 +18,125 @@ export interface GitHubIssuesParams {
     assignee?: string;
     creator?: string;
     mentioned?: string;
+    // A milestone number, or MILESTONE_NONE / MILESTONE_ANY
+    milestone?: string;
     since?: string;
+    // Opaque cursor from a previous response; when set, the other params are already encoded in it
+    cursor?: PageCursor | null;
 }
 
 export interface GitHubIssuesServiceResponse {
     data: GitHubIssue[];
     totalCount: number;
+    // false when totalCount is estimated from the Link header; either way it counts pull requests too
+    isTotalCountExact: boolean;
     currentPage: number;
     totalPages: number;
     perPage: number;
     hasNextPage: boolean;
     hasPreviousPage: boolean;
+    links: PaginationLinks;
+    // Cursor for the next page, null once rel="next" is absent
+    nextCursor: PageCursor | null;
+    prevCursor: PageCursor | null;
+}
+
+// Search API results; total_count is exact but only the first SEARCH_RESULT_LIMIT items are reachable
+export interface GitHubSearchIssuesResponse extends GitHubIssuesServiceResponse {
+    // GitHub timed out before finding every match
+    incompleteResults: boolean;
+}
+
+// The search API serves at most this many results per query, whatever total_count says
+export const SEARCH_RESULT_LIMIT = 1000;
+
+// Extra filters narrowing an exact issue count or a repository search
+export interface IssueCountFilters {
+    labels?: string[];
+    labelMatchMode?: LabelMatchMode;
+    // A login, or ASSIGNEE_NONE / ASSIGNEE_ANY
+    assignee?: string;
+    creator?: string;
+    mentioned?: string;
+    // A milestone title, or MILESTONE_NONE / MILESTONE_ANY
+    milestone?: string;
+    created?: DateRangeFilterValue | null;
+    updated?: DateRangeFilterValue | null;
+}
+
+// Items of GET /search/users
+export interface GitHubUserSummary {
+    login: string;
+    avatar_url: string;
+}
+
+// Fields accepted by PATCH /repos/{owner}/{repo}/issues/{issue_number}
+export interface UpdateIssueParams {
+    title?: string;
+    body?: string | null;
+    state?: 'open' | 'closed';
+    state_reason?: IssueStateReason | null;
+    labels?: string[];
+    assignees?: string[];
+    milestone?: number | null;
+}
+
+// Fields accepted by POST /repos/{owner}/{repo}/issues
+export interface CreateIssueParams {
+    title: string;
+    body?: string;
+    labels?: string[];
+    assignees?: string[];
+    milestone?: number | null;
+}
+
+// Entries of GET /repos/{owner}/{repo}/labels
+interface GitHubLabel {
+    name: string;
+    color: string;
+    description: string | null;
+}
+
+// Directory GitHub reads issue templates from
+const ISSUE_TEMPLATE_DIR = '.github/ISSUE_TEMPLATE';
+const ISSUE_TEMPLATE_FILE = /\.(md|ya?ml)$/i;
+
+// Entries of GET /repos/{owner}/{repo}/contents/{path}
+interface GitHubContentEntry {
+    name: string;
+    path: string;
+    type: 'file' | 'dir' | 'symlink' | 'submodule';
+}
+
+interface GitHubFileContent extends GitHubContentEntry {
+    content: string;
+    encoding: 'base64' | string;
+}
+
+/**
+ * Decode a base64 file body from the contents API as UTF-8
+ */
+const decodeBase64 = (content: string): string => {
+    const binary = atob(content.replace(/\s/g, ''));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const TIMELINE_EVENT_KINDS: ReadonlySet<string> = new Set<GitHubTimelineEventKind>([
+    'labeled',
+    'unlabeled',
+    'assigned',
+    'closed',
+    'reopened',
+    'cross-referenced',
+    'renamed',
+    'milestoned'
+]);
+
+export interface GitHubPageResponse<T> {
+    data: T[];
+    links: PaginationLinks;
+    hasNextPage: boolean;
+    nextCursor: PageCursor | null;
 }
 
 class GitHubIssuesService {
@@ -45,7 +157,9 @@ class GitHubIssuesService {
                 assignee,
                 creator,
                 mentioned,
-                since
+                milestone,
+                since,
+                cursor
             } = params;
 
             // Build query parameters
@@ -62,26 +176,34 @@ class GitHubIssuesService {
             if (assignee) queryParams.assignee = assignee;
             if (creator) queryParams.creator = creator;
             if (mentioned) queryParams.mentioned = mentioned;
+            if (milestone) queryParams.milestone = milestone;
             if (since) queryParams.since = since;
 
-            const response: AxiosResponse<GitHubIssue[]> = await apiClient.get(
-                `/repos/${owner}/${repo}/issues`,
-                { params: queryParams }
-            );
+            // Follow the cursor as-is, or build the first request from params
+            const response: AxiosResponse<GitHubIssue[]> = cursor
+                ? await apiClient.get(cursor)
+                : await apiClient.get(`/repos/${owner}/${repo}/issues`, { params: queryParams });
+
+            const currentPage = cursor ? getCursorParam(cursor, 'page') ?? page : page;
+            const perPage = cursor ? getCursorParam(cursor, 'per_page') ?? per_page : per_page;
 
             // Parse pagination info from Link header
-            const linkHeader = response.headers.link || '';
-            const totalCount = this.extractTotalCount(linkHeader, response.data.length, page, per_page);
-            const totalPages = Math.ceil(totalCount / per_page);
+            const links = parseLinkHeader(response.headers.link);
+            const { count: totalCount, isExact } = this.extractTotalCount(links, response.data.length, currentPage, perPage);
+            const totalPages = Math.ceil(totalCount / perPage);
 
             return {
                 data: response.data,
                 totalCount,
-                currentPage: page,
+                isTotalCountExact: isExact,
+                currentPage,
                 totalPages,
-                perPage: per_page,
-                hasNextPage: page < totalPages,
-                hasPreviousPage: page > 1
+                perPage,
+                hasNextPage: !!links.next,
+                hasPreviousPage: !!links.prev,
+                links,
+                nextCursor: toPageCursor(links.next),
+                prevCursor: toPageCursor(links.prev)
             };
         } catch (error) {
             console.error('Error fetching GitHub issues:', error);
@@ -105,7 +227,63 @@ class GitHubIssuesService {
     }
 
     /**
-     * Search issues with advanced query
+     * Get one page of comments for an issue
+     * Pass the previous page's nextCursor to continue the thread
+     */
+    async getComments(
+        owner: string,
+        repo: string,
+        issueNumber: number,
+        params: { per_page?: number; cursor?: PageCursor | null } = {}
+    ): Promise<GitHubPageResponse<GitHubComment>> {
+        try {
+            const { per_page = 30, cursor } = params;
+
+            const response: AxiosResponse<GitHubComment[]> = cursor
+                ? await apiClient.get(cursor)
+                : await apiClient.get(`/repos/${owner}/${repo}/issues/${issueNumber}/comments`, {
+                    params: { per_page }
+                });
+
+            return this.toPageResponse(response);
+        } catch (error) {
+            console.error(`Error fetching comments for issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Get one page of an issue's timeline, keeping only the event kinds we render
+     * Pass the previous page's nextCursor to continue
+     */
+    async getTimeline(
+        owner: string,
+        repo: string,
+        issueNumber: number,
+        params: { per_page?: number; cursor?: PageCursor | null } = {}
+    ): Promise<GitHubPageResponse<GitHubTimelineEvent>> {
+        try {
+            const { per_page = 100, cursor } = params;
+
+            const response: AxiosResponse<Array<{ event: string }>> = cursor
+                ? await apiClient.get(cursor)
+                : await apiClient.get(`/repos/${owner}/${repo}/issues/${issueNumber}/timeline`, {
+                    params: { per_page }
+                });
+
+            const page = this.toPageResponse(response);
+            return {
+                ...page,
+                data: page.data.filter((item): item is GitHubTimelineEvent => TIMELINE_EVENT_KINDS.has(item.event))
+            };
+        } catch (error) {
+            console.error(`Error fetching timeline for issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Search issues with advanced query; results come in best-match order unless sorted
      */
     async searchIssues(
         query: string,
@@ -115,10 +293,10 @@ class GitHubIssuesService {
             page?: number;
             per_page?: number;
         } = {}
-    ): Promise<GitHubIssuesServiceResponse> {
+    ): Promise<GitHubSearchIssuesResponse> {
         try {
             const {
-                sort = 'created',
+                sort,
                 order = 'desc',
                 page = 1,
                 per_page = 25
@@ -131,24 +309,29 @@ class GitHubIssuesService {
             }> = await apiClient.get('/search/issues', {
                 params: {
                     q: query,
-                    sort,
-                    order,
+                    ...(sort && { sort, order }),
                     page,
                     per_page
                 }
             });
 
             const totalCount = response.data.total_count;
-            const totalPages = Math.ceil(totalCount / per_page);
+            const totalPages = Math.ceil(Math.min(totalCount, SEARCH_RESULT_LIMIT) / per_page);
+            const links = parseLinkHeader(response.headers.link);
 
             return {
                 data: response.data.items,
                 totalCount,
+                isTotalCountExact: true,
+                incompleteResults: response.data.incomplete_results,
                 currentPage: page,
                 totalPages,
                 perPage: per_page,
                 hasNextPage: page < totalPages,
-                hasPreviousPage: page > 1
+                hasPreviousPage: page > 1,
+                links,
+                nextCursor: toPageCursor(links.next),
+                prevCursor: toPageCursor(links.prev)
             };
         } catch (error) {
             console.error('Error searching GitHub issues:', error);
@@ -157,12 +340,253 @@ class GitHubIssuesService {
     }
 
     /**
-     * Get repository labels for filtering
+     * Search API qualifiers for a repository and the table's filters
      */
-    async getLabels(owner: string, repo: string): Promise<Array<{ name: string; color: string; description: string | null }>> {
+    private buildSearchQualifiers(
+        owner: string,
+        repo: string,
+        state: 'open' | 'closed' | 'all',
+        type: IssueTypeFilter,
+        filters: IssueCountFilters
+    ): string[] {
+        const qualifiers = [`repo:${owner}/${repo}`];
+        if (type !== 'both') {
+            qualifiers.push(type === 'prs' ? 'is:pr' : 'is:issue');
+        }
+        if (state !== 'all') {
+            qualifiers.push(`is:${state}`);
+        }
+        if (filters.labels && filters.labels.length > 0) {
+            const quoted = filters.labels.map(label => `"${label.replace(/"/g, '')}"`);
+            // Repeated label: qualifiers must all match, a comma separated list matches any
+            if (filters.labelMatchMode === 'any') {
+                qualifiers.push(`label:${quoted.join(',')}`);
+            } else {
+                qualifiers.push(...quoted.map(label => `label:${label}`));
+            }
+        }
+        if (filters.assignee === ASSIGNEE_NONE) {
+            qualifiers.push('no:assignee');
+        } else if (filters.assignee === ASSIGNEE_ANY) {
+            qualifiers.push('-no:assignee');
+        } else if (filters.assignee) {
+            qualifiers.push(`assignee:${filters.assignee}`);
+        }
+        if (filters.creator) {
+            qualifiers.push(`author:${filters.creator}`);
+        }
+        if (filters.mentioned) {
+            qualifiers.push(`mentions:${filters.mentioned}`);
+        }
+        if (filters.milestone === MILESTONE_NONE) {
+            qualifiers.push('no:milestone');
+        } else if (filters.milestone === MILESTONE_ANY) {
+            qualifiers.push('-no:milestone');
+        } else if (filters.milestone) {
+            qualifiers.push(`milestone:"${filters.milestone.replace(/"/g, '')}"`);
+        }
+        for (const field of ['created', 'updated'] as const) {
+            const qualifier = toSearchDateQualifier(field, filters[field]);
+            if (qualifier) qualifiers.push(qualifier);
+        }
+        return qualifiers;
+    }
+
+    /**
+     * Get the exact number of issues and/or pull requests for a state filter
+     * Uses the search API, which reports total_count, with a single-item page
+     */
+    async getIssueCount(
+        owner: string,
+        repo: string,
+        state: 'open' | 'closed' | 'all' = 'all',
+        type: IssueTypeFilter = 'issues',
+        filters: IssueCountFilters = {}
+    ): Promise<number> {
+        const qualifiers = this.buildSearchQualifiers(owner, repo, state, type, filters);
+        const response = await this.searchIssues(qualifiers.join(' '), { per_page: 1 });
+        return response.totalCount;
+    }
+
+    /**
+     * Search a whole repository through the search API. `text` is passed through as typed,
+     * so free text and any search qualifiers in it apply on top of the filters.
+     */
+    async searchRepoIssues(
+        owner: string,
+        repo: string,
+        text: string,
+        state: 'open' | 'closed' | 'all' = 'all',
+        type: IssueTypeFilter = 'issues',
+        filters: IssueCountFilters = {},
+        params: Parameters<GitHubIssuesService['searchIssues']>[1] = {}
+    ): Promise<GitHubSearchIssuesResponse> {
+        const qualifiers = this.buildSearchQualifiers(owner, repo, state, type, filters);
+        const query = [text.trim(), ...qualifiers].filter(Boolean).join(' ');
+        return this.searchIssues(query, params);
+    }
+
+    /**
+     * Every match of a repository search, for acting on all of them at once.
+     * Pages through the results 100 at a time, so no more than SEARCH_RESULT_LIMIT come back.
+     */
+    async searchAllRepoIssues(
+        owner: string,
+        repo: string,
+        text: string,
+        state: 'open' | 'closed' | 'all' = 'all',
+        type: IssueTypeFilter = 'issues',
+        filters: IssueCountFilters = {}
+    ): Promise<GitHubIssue[]> {
+        const issues: GitHubIssue[] = [];
+        for (let page = 1; ; page++) {
+            const response = await this.searchRepoIssues(owner, repo, text, state, type, filters, { page, per_page: 100 });
+            issues.push(...response.data);
+            if (!response.hasNextPage) return issues;
+        }
+    }
+
+    /**
+     * Open a new issue. Labels, assignees and milestone are silently dropped by GitHub
+     * unless the token has push access to the repository.
+     */
+    async createIssue(owner: string, repo: string, issue: CreateIssueParams): Promise<GitHubIssue> {
         try {
-            const response = await apiClient.get(`/repos/${owner}/${repo}/labels`);
+            const response: AxiosResponse<GitHubIssue> = await apiClient.post(
+                `/repos/${owner}/${repo}/issues`,
+                issue
+            );
             return response.data;
+        } catch (error) {
+            console.error('Error creating issue:', error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Update an issue's title, body, state, labels, assignees or milestone
+     * Close with state 'closed' and a state_reason of 'completed' or 'not_planned'
+     *
+     * Pass expectedUpdatedAt (the updated_at the edit was based on) to refuse the write with a
+     * GitHubConflictError when someone else changed the issue since. GitHub has no conditional
+     * PATCH (If-Match) for issues, so this reads the issue and then writes it: an edit made on
+     * GitHub between the read and the write is still overwritten without warning.
+     */
+    async updateIssue(
+        owner: string,
+        repo: string,
+        issueNumber: number,
+        updates: UpdateIssueParams,
+        options: { expectedUpdatedAt?: string } = {}
+    ): Promise<GitHubIssue> {
+        if (options.expectedUpdatedAt) {
+            const remoteIssue = await this.getIssue(owner, repo, issueNumber);
+            if (remoteIssue.updated_at !== options.expectedUpdatedAt) {
+                throw new GitHubConflictError(
+                    `Issue #${issueNumber} was changed on GitHub after it was loaded`,
+                    {
+                        status: 409,
+                        url: `/repos/${owner}/${repo}/issues/${issueNumber}`,
+                        remoteIssue
+                    }
+                );
+            }
+        }
+
+        try {
+            const response: AxiosResponse<GitHubIssue> = await apiClient.patch(
+                `/repos/${owner}/${repo}/issues/${issueNumber}`,
+                updates
+            );
+            return response.data;
+        } catch (error) {
+            console.error(`Error updating issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Lock an issue's conversation so only collaborators can comment
+     */
+    async lockIssue(owner: string, repo: string, issueNumber: number, lockReason?: IssueLockReason): Promise<void> {
+        try {
+            await apiClient.put(
+                `/repos/${owner}/${repo}/issues/${issueNumber}/lock`,
+                lockReason ? { lock_reason: lockReason } : {}
+            );
+        } catch (error) {
+            console.error(`Error locking issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Unlock an issue's conversation
+     */
+    async unlockIssue(owner: string, repo: string, issueNumber: number): Promise<void> {
+        try {
+            await apiClient.delete(`/repos/${owner}/${repo}/issues/${issueNumber}/lock`);
+        } catch (error) {
+            console.error(`Error unlocking issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Add labels to an issue, keeping its existing ones
+     */
+    async addLabels(owner: string, repo: string, issueNumber: number, labels: string[]): Promise<void> {
+        try {
+            await apiClient.post(`/repos/${owner}/${repo}/issues/${issueNumber}/labels`, { labels });
+        } catch (error) {
+            console.error(`Error adding labels to issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Remove a single label from an issue
+     */
+    async removeLabel(owner: string, repo: string, issueNumber: number, label: string): Promise<void> {
+        try {
+            await apiClient.delete(
+                `/repos/${owner}/${repo}/issues/${issueNumber}/labels/${encodeURIComponent(label)}`
+            );
+        } catch (error) {
+            console.error(`Error removing label from issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Add assignees to an issue, keeping its existing ones
+     */
+    async addAssignees(owner: string, repo: string, issueNumber: number, assignees: string[]): Promise<void> {
+        try {
+            await apiClient.post(`/repos/${owner}/${repo}/issues/${issueNumber}/assignees`, { assignees });
+        } catch (error) {
+            console.error(`Error assigning issue #${issueNumber}:`, error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Get all repository labels for filtering, following rel="next" until the last page
+     */
+    async getLabels(owner: string, repo: string): Promise<GitHubLabel[]> {
+        try {
+            const labels: GitHubLabel[] = [];
+
+            let page = this.toPageResponse<GitHubLabel>(
+                await apiClient.get(`/repos/${owner}/${repo}/labels`, { params: { per_page: 100 } })
+            );
+            labels.push(...page.data);
+            while (page.nextCursor) {
+                page = this.toPageResponse<GitHubLabel>(await apiClient.get(page.nextCursor));
+                labels.push(...page.data);
+            }
+
+            return labels;
         } catch (error) {
             console.error('Error fetching repository labels:', error);
             throw this.handleApiError(error);
@@ -182,6 +606,86 @@ class GitHubIssuesService {
         }
     }
 
+    /**
+     * Find GitHub users whose login matches the query, for login autocomplete.
+     * Shares the search API's 30 requests/minute budget, so callers should debounce.
+     */
+    async searchUsers(query: string, per_page: number = 10): Promise<GitHubUserSummary[]> {
+        try {
+            const response: AxiosResponse<{ items: GitHubUserSummary[] }> = await apiClient.get('/search/users', {
+                params: { q: `${query} in:login`, per_page }
+            });
+            return response.data.items.map(({ login, avatar_url }) => ({ login, avatar_url }));
+        } catch (error) {
+            console.error('Error searching GitHub users:', error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Get repository milestones ordered by due date, following rel="next" until the last page
+     */
+    async getMilestones(owner: string, repo: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubMilestone[]> {
+        try {
+            const milestones: GitHubMilestone[] = [];
+
+            let page = this.toPageResponse<GitHubMilestone>(
+                await apiClient.get(`/repos/${owner}/${repo}/milestones`, {
+                    params: { state, sort: 'due_on', direction: 'asc', per_page: 100 }
+                })
+            );
+            milestones.push(...page.data);
+            while (page.nextCursor) {
+                page = this.toPageResponse<GitHubMilestone>(await apiClient.get(page.nextCursor));
+                milestones.push(...page.data);
+            }
+
+            return milestones;
+        } catch (error) {
+            console.error('Error fetching repository milestones:', error);
+            throw this.handleApiError(error);
+        }
+    }
+
+    /**
+     * Get the repository's issue templates (markdown templates and YAML issue forms),
+     * sorted by file name like GitHub's template chooser. Repositories without
+     * .github/ISSUE_TEMPLATE have no templates; unparsable files are skipped.
+     */
+    async getIssueTemplates(owner: string, repo: string): Promise<IssueTemplate[]> {
+        try {
+            let entries: GitHubContentEntry[];
+            try {
+                const response: AxiosResponse<GitHubContentEntry[]> = await apiClient.get(
+                    `/repos/${owner}/${repo}/contents/${ISSUE_TEMPLATE_DIR}`
+                );
+                entries = Array.isArray(response.data) ? response.data : [];
+            } catch (error) {
+                if (toGitHubApiError(error).kind === 'not-found') return [];
+                throw error;
+            }
+
+            const files = entries
+                .filter(entry => entry.type === 'file' && ISSUE_TEMPLATE_FILE.test(entry.name))
+                .sort((a, b) => a.name.localeCompare(b.name));
+
+            const templates = await Promise.all(files.map(async (file) => {
+                const response: AxiosResponse<GitHubFileContent> = await apiClient.get(
+                    `/repos/${owner}/${repo}/contents/${file.path.split('/').map(encodeURIComponent).join('/')}`
+                );
+                const source = response.data.encoding === 'base64'
+                    ? decodeBase64(response.data.content)
+                    : response.data.content;
+                return parseIssueTemplate(file.name, source);
+            }));
+
+            return templates.filter((template): template is IssueTemplate => template !== null);
+        } catch (error) {
+            console.error('Error fetching issue templates:', error);
+            throw this.handleApiError(error);
+        }
+    }
+
     /**
      * Convert datatable state to API parameters
      */
@@ -234,6 +738,9 @@ class GitHubIssuesService {
         if (filters.mentioned) {
             params.mentioned = filters.mentioned;
         }
+        if (filters.milestone) {
+            params.milestone = String(filters.milestone);
+        }
         if (filters.since) {
             params.since = filters.since;
         }
@@ -243,54 +750,44 @@ class GitHubIssuesService {
 
     /**
      * Extract total count from GitHub API response
-     * GitHub doesn't always provide total count, so we estimate it
+     * The issues endpoint has no total, so this is an estimate unless we are on the last page.
+     * It returns pull requests as well, so the count is of issues and pull requests together.
      */
-    private extractTotalCount(linkHeader: string, currentPageSize: number, currentPage: number, perPage: number): number {
-        // Try to extract from Link header
-        const lastPageMatch = linkHeader.match(/page=(\d+)[^>]*>;\s*rel="last"/);
-        if (lastPageMatch) {
-            return parseInt(lastPageMatch[1]) * perPage;
+    private extractTotalCount(links: PaginationLinks, currentPageSize: number, currentPage: number, perPage: number): { count: number; isExact: boolean } {
+        // Last page reached: everything before it was full, so the count is exact
+        if (!links.next) {
+            return { count: (currentPage - 1) * perPage + currentPageSize, isExact: true };
         }
 
-        // If no last page, estimate based on current page
-        if (currentPageSize < perPage) {
-            // This is likely the last page
-            return (currentPage - 1) * perPage + currentPageSize;
+        // Estimate from the last page number (the last page may be partially filled)
+        const lastCursor = toPageCursor(links.last);
+        const lastPage = lastCursor ? getCursorParam(lastCursor, 'page') : undefined;
+        if (lastPage) {
+            return { count: lastPage * perPage, isExact: false };
         }
 
-        // Conservative estimate - at least current page worth of data
-        return currentPage * perPage;
+        // Conservative estimate - at least current page worth of data plus one more
+        return { count: (currentPage + 1) * perPage, isExact: false };
+    }
+
+    /**
+     * Wrap a list response with its Link header pagination
+     */
+    private toPageResponse<T>(response: AxiosResponse<T[]>): GitHubPageResponse<T> {
+        const links = parseLinkHeader(response.headers.link);
+        return {
+            data: response.data,
+            links,
+            hasNextPage: !!links.next,
+            nextCursor: toPageCursor(links.next)
+        };
     }
 
     /**
      * Handle API errors with proper typing
      */
-    private handleApiError(error: any): Error {
-        if (error.response) {
-            // Server responded with error status
-            const status = error.response.status;
-            const message = error.response.data?.message || error.message;
-
-            switch (status) {
-                case 403:
-                    if (error.response.headers['x-ratelimit-remaining'] === '0') {
-                        return new Error('GitHub API rate limit exceeded. Please try again later.');
-                    }
-                    return new Error('Access forbidden. Please check your GitHub token permissions.');
-                case 404:
-                    return new Error('Repository or resource not found.');
-                case 422:
-                    return new Error('Invalid request parameters.');
-                default:
-                    return new Error(`GitHub API error (${status}): ${message}`);
-            }
-        } else if (error.request) {
-            // Network error
-            return new Error('Network error. Please check your internet connection.');
-        } else {
-            // Other error
-            return new Error(`Request error: ${error.message}`);
-        }
+    private handleApiError(error: unknown): GitHubApiError {
+        return toGitHubApiError(error);
     }
 }
 
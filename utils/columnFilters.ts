@@ -0,0 +1,119 @@
+import { endOfDay, format, isSameDay, startOfDay } from 'date-fns';
+import { ColumnFilters, ColumnFilterValue, GitHubIssue } from './types';
+import { isInDateRange } from './issueFilters';
+
+/**
+ * Values a column filter is matched against; multi-valued columns (labels) match if any value does
+ */
+export const getColumnFilterValues = (issue: GitHubIssue, columnId: string): string[] => {
+    switch (columnId) {
+        case 'user':
+            return [issue.user.login];
+        case 'labels':
+            return issue.labels.map(label => label.name);
+        case 'milestone':
+            return issue.milestone ? [issue.milestone.title] : [];
+        default: {
+            const value = (issue as unknown as Record<string, unknown>)[columnId];
+            return typeof value === 'string' || typeof value === 'number' ? [String(value)] : [];
+        }
+    }
+};
+
+/**
+ * Whether a regex filter pattern compiles
+ */
+export const isValidRegex = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Whether a column filter narrows anything; empty text, selections and ranges are ignored
+ */
+export const isColumnFilterActive = (filter: ColumnFilterValue): boolean => {
+    switch (filter.type) {
+        case 'text':
+            return filter.value.trim() !== '' && (filter.operator !== 'regex' || isValidRegex(filter.value));
+        case 'dropdown':
+            return filter.values.length > 0;
+        case 'date':
+            return true;
+        case 'dateRange':
+            return !!filter.range.from || !!filter.range.to;
+    }
+};
+
+/**
+ * Predicate for a single column filter. Regex patterns are compiled once here, not per row.
+ */
+const toColumnPredicate = (columnId: string, filter: ColumnFilterValue): ((issue: GitHubIssue) => boolean) => {
+    switch (filter.type) {
+        case 'text': {
+            const term = filter.value.trim().toLowerCase();
+            if (filter.operator === 'regex') {
+                const pattern = new RegExp(filter.value, 'i');
+                return (issue) => getColumnFilterValues(issue, columnId).some(value => pattern.test(value));
+            }
+            if (filter.operator === 'equals') {
+                return (issue) => getColumnFilterValues(issue, columnId).some(value => value.toLowerCase() === term);
+            }
+            return (issue) => getColumnFilterValues(issue, columnId).some(value => value.toLowerCase().includes(term));
+        }
+        case 'dropdown':
+            return (issue) => getColumnFilterValues(issue, columnId).some(value => filter.values.includes(value));
+        case 'date':
+            return (issue) => getColumnFilterValues(issue, columnId).some(value => {
+                const date = new Date(value);
+                if (filter.operator === 'before') return date < startOfDay(filter.date);
+                if (filter.operator === 'after') return date > endOfDay(filter.date);
+                return isSameDay(date, filter.date);
+            });
+        case 'dateRange':
+            return (issue) => getColumnFilterValues(issue, columnId).some(value => isInDateRange(value, filter.range));
+    }
+};
+
+/**
+ * Combined predicate for all active column filters (AND across columns)
+ *
+ * @returns null when no filter is active, so callers can skip the pass entirely
+ */
+export const buildColumnFiltersPredicate = (filters: ColumnFilters): ((issue: GitHubIssue) => boolean) | null => {
+    const predicates = Object.entries(filters)
+        .filter(([, filter]) => isColumnFilterActive(filter))
+        .map(([columnId, filter]) => toColumnPredicate(columnId, filter));
+
+    if (predicates.length === 0) return null;
+    return (issue) => predicates.every(predicate => predicate(issue));
+};
+
+const textOperatorLabels = { contains: 'contains', equals: 'is', regex: 'matches' } as const;
+
+/**
+ * Short description of a column filter for its chip, e.g. `contains "crash"` or `after Jan 01, 2024`
+ */
+export const describeColumnFilter = (filter: ColumnFilterValue): string => {
+    switch (filter.type) {
+        case 'text':
+            return filter.operator === 'regex'
+                ? `${textOperatorLabels.regex} /${filter.value}/`
+                : `${textOperatorLabels[filter.operator]} "${filter.value.trim()}"`;
+        case 'dropdown':
+            return filter.values.length > 2
+                ? `is ${filter.values.slice(0, 2).join(', ')} +${filter.values.length - 2}`
+                : `is ${filter.values.join(' or ')}`;
+        case 'date':
+            return `${filter.operator} ${format(filter.date, 'MMM dd, yyyy')}`;
+        case 'dateRange': {
+            const from = filter.range.from ? format(filter.range.from, 'MMM dd, yyyy') : null;
+            const to = filter.range.to ? format(filter.range.to, 'MMM dd, yyyy') : null;
+            if (from && to) return `${from} – ${to}`;
+            return from ? `from ${from}` : `until ${to}`;
+        }
+    }
+};
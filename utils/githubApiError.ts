@@ -0,0 +1,239 @@
+import axios, { AxiosError } from 'axios';
+import { GitHubApiErrorKind, GitHubIssue } from './types';
+
+interface GitHubErrorBody {
+    message?: string;
+    documentation_url?: string;
+    errors?: Array<{ resource?: string; field?: string; code?: string; message?: string }>;
+}
+
+interface GitHubApiErrorOptions {
+    status: number;
+    url?: string;
+    documentationUrl?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every failure coming out of the GitHub service layer
+ * Preserves the HTTP status, request URL and GitHub's documentation_url
+ */
+export class GitHubApiError extends Error {
+    readonly kind: GitHubApiErrorKind = 'unknown';
+    readonly status: number;
+    readonly url?: string;
+    readonly documentationUrl?: string;
+    readonly cause?: unknown;
+
+    constructor(message: string, { status, url, documentationUrl, cause }: GitHubApiErrorOptions) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.url = url;
+        this.documentationUrl = documentationUrl;
+        this.cause = cause;
+    }
+
+    /**
+     * Whether retrying the same request can succeed
+     */
+    get retryable(): boolean {
+        return this.status >= 500;
+    }
+}
+
+export class GitHubNotFoundError extends GitHubApiError {
+    readonly kind = 'not-found' as const;
+
+    get retryable() {
+        return false;
+    }
+}
+
+export class GitHubAuthError extends GitHubApiError {
+    readonly kind = 'auth' as const;
+
+    get retryable() {
+        return false;
+    }
+}
+
+export class GitHubValidationError extends GitHubApiError {
+    readonly kind = 'validation' as const;
+    readonly errors: NonNullable<GitHubErrorBody['errors']>;
+
+    constructor(message: string, options: GitHubApiErrorOptions & { errors?: GitHubErrorBody['errors'] }) {
+        super(message, options);
+        this.errors = options.errors ?? [];
+    }
+
+    get retryable() {
+        return false;
+    }
+}
+
+/**
+ * Primary rate limit: the hourly budget is exhausted until resetAt (epoch ms)
+ */
+export class GitHubRateLimitError extends GitHubApiError {
+    readonly kind = 'rate-limited' as const;
+    readonly resetAt: number;
+
+    constructor(message: string, options: GitHubApiErrorOptions & { resetAt: number }) {
+        super(message, options);
+        this.resetAt = options.resetAt;
+    }
+
+    get retryable() {
+        return true;
+    }
+}
+
+/**
+ * Secondary (abuse-detection) rate limit: retry after retryAfter milliseconds
+ */
+export class GitHubSecondaryRateLimitError extends GitHubApiError {
+    readonly kind = 'secondary-rate-limit' as const;
+    readonly retryAfter: number;
+
+    constructor(message: string, options: GitHubApiErrorOptions & { retryAfter: number }) {
+        super(message, options);
+        this.retryAfter = options.retryAfter;
+    }
+
+    get retryable() {
+        return true;
+    }
+}
+
+export class GitHubNetworkError extends GitHubApiError {
+    readonly kind = 'network' as const;
+
+    get retryable() {
+        return true;
+    }
+}
+
+export class GitHubServerError extends GitHubApiError {
+    readonly kind = 'server' as const;
+}
+
+/**
+ * An issue changed on GitHub after it was loaded (its updated_at moved on), so writing
+ * would silently overwrite someone else's edit. Carries the remote copy for reloading.
+ */
+export class GitHubConflictError extends GitHubApiError {
+    readonly kind = 'conflict' as const;
+    readonly remoteIssue: GitHubIssue;
+
+    constructor(message: string, options: GitHubApiErrorOptions & { remoteIssue: GitHubIssue }) {
+        super(message, options);
+        this.remoteIssue = options.remoteIssue;
+    }
+
+    get retryable() {
+        return false;
+    }
+}
+
+// Set by the /api/github proxy on its own failure responses, e.g. `network` when GitHub was unreachable
+export const PROXY_ERROR_HEADER = 'x-proxy-error';
+
+/**
+ * Whether a response is the proxy reporting that it could not reach GitHub
+ */
+export const isProxyNetworkError = (headers: Record<string, unknown>): boolean =>
+    headers[PROXY_ERROR_HEADER] === 'network';
+
+// Wait used when GitHub flags a secondary limit without a Retry-After header
+const DEFAULT_SECONDARY_RETRY_AFTER = 60 * 1000;
+
+/**
+ * Parse the Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(String(value));
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Whether an error response is one of GitHub's secondary rate limits
+ */
+export const isSecondaryRateLimit = (status: number, headers: Record<string, unknown>, message: string = ''): boolean => {
+    if (status !== 403 && status !== 429) return false;
+    return headers['retry-after'] !== undefined || /secondary rate limit|abuse/i.test(message);
+};
+
+/**
+ * Convert any error thrown by apiClient into a typed GitHubApiError
+ */
+export const toGitHubApiError = (error: unknown): GitHubApiError => {
+    if (error instanceof GitHubApiError) return error;
+
+    if (!axios.isAxiosError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        return new GitHubApiError(`Request error: ${message}`, { status: 0, cause: error });
+    }
+
+    const axiosError = error as AxiosError<GitHubErrorBody>;
+    const url = axiosError.config
+        ? axios.getUri({ url: axiosError.config.url, params: axiosError.config.params })
+        : undefined;
+
+    if (!axiosError.response || isProxyNetworkError((axiosError.response.headers ?? {}) as Record<string, unknown>)) {
+        return new GitHubNetworkError('Network error. Please check your internet connection.', {
+            status: 0,
+            url,
+            cause: error,
+        });
+    }
+
+    const { status, data } = axiosError.response;
+    const headers = (axiosError.response.headers ?? {}) as Record<string, unknown>;
+    const githubMessage = data?.message || axiosError.message;
+    const options: GitHubApiErrorOptions = {
+        status,
+        url,
+        documentationUrl: data?.documentation_url,
+        cause: error,
+    };
+
+    if (isSecondaryRateLimit(status, headers, githubMessage)) {
+        return new GitHubSecondaryRateLimitError(
+            'GitHub secondary rate limit triggered. Please slow down and try again shortly.',
+            { ...options, retryAfter: parseRetryAfter(headers['retry-after']) ?? DEFAULT_SECONDARY_RETRY_AFTER }
+        );
+    }
+
+    if ((status === 403 || status === 429) && String(headers['x-ratelimit-remaining']) === '0') {
+        const reset = parseInt(String(headers['x-ratelimit-reset'] ?? ''), 10);
+        return new GitHubRateLimitError('GitHub API rate limit exceeded. Please try again later.', {
+            ...options,
+            resetAt: isNaN(reset) ? Date.now() + 60 * 60 * 1000 : reset * 1000,
+        });
+    }
+
+    switch (status) {
+        case 401:
+            return new GitHubAuthError('Authentication failed. Please check the server GitHub token.', options);
+        case 403:
+            return new GitHubAuthError('Access forbidden. Please check your GitHub token permissions.', options);
+        case 404:
+            return new GitHubNotFoundError('Repository or resource not found.', options);
+        case 422:
+            return new GitHubValidationError(`Invalid request parameters: ${githubMessage}`, {
+                ...options,
+                errors: data?.errors,
+            });
+        default:
+            if (status >= 500) {
+                return new GitHubServerError(`GitHub API error (${status}): ${githubMessage}`, options);
+            }
+            return new GitHubApiError(`GitHub API error (${status}): ${githubMessage}`, options);
+    }
+};
@@ -0,0 +1,91 @@
+import { format } from 'date-fns';
+import { DateRangeFilterValue, FilterConfig, GitHubIssue } from './types';
+
+// Special assignee filter values understood by the issues endpoint
+export const ASSIGNEE_NONE = 'none';
+export const ASSIGNEE_ANY = '*';
+
+// Special milestone filter values understood by the issues endpoint
+export const MILESTONE_NONE = 'none';
+export const MILESTONE_ANY = '*';
+
+const sameLogin = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Whether an issue would be returned by the issues endpoint for these server-side filters.
+ * Used to place locally created issues without refetching; `mentioned` is approximated
+ * by looking for the @login in the body.
+ */
+export const matchesServerFilters = (issue: GitHubIssue, filters: FilterConfig): boolean => {
+    if (filters.state && filters.state !== 'all' && issue.state !== filters.state) return false;
+
+    const labels: string[] = filters.labels ?? [];
+    if (!labels.every(name => issue.labels.some(label => label.name === name))) return false;
+
+    if (filters.assignee === ASSIGNEE_NONE && issue.assignees.length > 0) return false;
+    if (filters.assignee === ASSIGNEE_ANY && issue.assignees.length === 0) return false;
+    if (
+        filters.assignee &&
+        filters.assignee !== ASSIGNEE_NONE &&
+        filters.assignee !== ASSIGNEE_ANY &&
+        !issue.assignees.some(assignee => sameLogin(assignee.login, filters.assignee))
+    ) {
+        return false;
+    }
+
+    if (filters.milestone === MILESTONE_NONE && issue.milestone) return false;
+    if (filters.milestone === MILESTONE_ANY && !issue.milestone) return false;
+    if (
+        filters.milestone &&
+        filters.milestone !== MILESTONE_NONE &&
+        filters.milestone !== MILESTONE_ANY &&
+        issue.milestone?.number !== Number(filters.milestone)
+    ) {
+        return false;
+    }
+
+    if (filters.since && new Date(issue.updated_at) < new Date(filters.since)) return false;
+
+    if (filters.creator && !sameLogin(issue.user.login, filters.creator)) return false;
+
+    if (filters.mentioned && !(issue.body ?? '').toLowerCase().includes(`@${String(filters.mentioned).toLowerCase()}`)) {
+        return false;
+    }
+
+    return true;
+};
+
+/**
+ * Whether an ISO timestamp falls inside an inclusive date range
+ */
+export const isInDateRange = (timestamp: string, range: DateRangeFilterValue | null | undefined): boolean => {
+    if (!range) return true;
+    const time = new Date(timestamp).getTime();
+    if (range.from && time < range.from.getTime()) return false;
+    if (range.to && time > range.to.getTime()) return false;
+    return true;
+};
+
+/**
+ * Search API qualifier for a date range, e.g. `created:2024-01-01..2024-03-31` or `updated:>=2024-01-01`
+ *
+ * @returns null when the range has no bounds
+ */
+export const toSearchDateQualifier = (
+    field: 'created' | 'updated',
+    range: DateRangeFilterValue | null | undefined
+): string | null => {
+    const from = range?.from ? format(range.from, 'yyyy-MM-dd') : null;
+    const to = range?.to ? format(range.to, 'yyyy-MM-dd') : null;
+
+    if (from && to) return `${field}:${from}..${to}`;
+    if (from) return `${field}:>=${from}`;
+    if (to) return `${field}:<=${to}`;
+    return null;
+};
+
+/**
+ * Whether an open milestone's due date has passed
+ */
+export const isMilestoneOverdue = (milestone: { state: 'open' | 'closed'; due_on: string | null }): boolean =>
+    milestone.state === 'open' && !!milestone.due_on && new Date(milestone.due_on).getTime() < Date.now();
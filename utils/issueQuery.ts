@@ -0,0 +1,532 @@
+import { addDays, endOfDay, format, isValid, parseISO, startOfDay, subDays } from 'date-fns';
+import { GitHubIssue } from './types';
+import { ASSIGNEE_ANY, ASSIGNEE_NONE, MILESTONE_ANY, MILESTONE_NONE } from './issueFilters';
+
+// ============================================================================
+// AST
+// ============================================================================
+
+// Character offsets into the query string, end exclusive
+export interface QuerySpan {
+    start: number;
+    end: number;
+}
+
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+
+// `comments:>10`, `created:2024-01-01..2024-03-31`; open-ended ranges (`*..b`) become `<=`/`>=`
+export type Comparison<T> =
+    | { operator: ComparisonOperator; value: T }
+    | { operator: 'range'; from: T; to: T };
+
+interface QueryNodeBase {
+    // Prefixed with `-`
+    negated: boolean;
+    span: QuerySpan;
+}
+
+export type IssueQueryNode = QueryNodeBase & (
+    | { type: 'text'; value: string; quoted: boolean }
+    | { type: 'is'; value: 'open' | 'closed' | 'issue' | 'pr' }
+    // `no:assignee`, also what `assignee:none` / `milestone:none` parse to
+    | { type: 'no'; value: 'label' | 'assignee' | 'milestone' }
+    | { type: 'label' | 'author' | 'assignee' | 'mentions' | 'milestone'; value: string }
+    | { type: 'comments'; comparison: Comparison<number> }
+    | { type: 'created' | 'updated'; comparison: Comparison<Date> }
+);
+
+export interface IssueQueryError {
+    message: string;
+    span: QuerySpan;
+}
+
+export interface IssueQuery {
+    // Only terms that parsed cleanly; invalid ones are reported in errors and ignored
+    nodes: IssueQueryNode[];
+    errors: IssueQueryError[];
+}
+
+// ============================================================================
+// QUALIFIERS
+// ============================================================================
+
+export interface QueryQualifier {
+    key: string;
+    description: string;
+}
+
+export const QUERY_QUALIFIERS: QueryQualifier[] = [
+    { key: 'is', description: 'open, closed, issue or pr' },
+    { key: 'label', description: 'Has the label' },
+    { key: 'author', description: 'Opened by a user' },
+    { key: 'assignee', description: 'Assigned to a user, or none' },
+    { key: 'mentions', description: 'Mentions a user' },
+    { key: 'milestone', description: 'In the milestone, or none' },
+    { key: 'no', description: 'Missing label, assignee or milestone' },
+    { key: 'comments', description: 'Comment count, e.g. >10' },
+    { key: 'created', description: 'Creation date, e.g. >2024-01-01' },
+    { key: 'updated', description: 'Last update, e.g. <2024-01-01' }
+];
+
+// `state:` is accepted as an alias of `is:` but not suggested
+const QUALIFIER_KEYS = new Set([...QUERY_QUALIFIERS.map(qualifier => qualifier.key), 'state']);
+
+const isValues = ['open', 'closed', 'issue', 'pr'] as const;
+const noValues = ['label', 'assignee', 'milestone'] as const;
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+interface RawToken {
+    text: string;
+    span: QuerySpan;
+    // Index in text of a quote left open at the end of the input
+    unterminatedQuote: number | null;
+}
+
+/**
+ * Split on whitespace outside double quotes, so `label:"good first issue"` stays one token
+ */
+const tokenize = (input: string): RawToken[] => {
+    const tokens: RawToken[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        if (/\s/.test(input[i])) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+        let inQuote = false;
+        let quoteAt = -1;
+        while (i < input.length && (inQuote || !/\s/.test(input[i]))) {
+            if (input[i] === '"') {
+                inQuote = !inQuote;
+                if (inQuote) quoteAt = i - start;
+            }
+            i++;
+        }
+
+        tokens.push({
+            text: input.slice(start, i),
+            span: { start, end: i },
+            unterminatedQuote: inQuote ? quoteAt : null
+        });
+    }
+
+    return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '');
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const parseDate = (value: string): Date | null => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const date = parseISO(value);
+    return isValid(date) ? date : null;
+};
+
+const parseNumber = (value: string): number | null => /^\d+$/.test(value) ? Number(value) : null;
+
+/**
+ * Parse `>=10`, `<2024-01-01`, `1..5` or `*..2024-01-01` with the given value parser
+ */
+const parseComparison = <T>(raw: string, parseValue: (value: string) => T | null): Comparison<T> | null => {
+    const rangeIndex = raw.indexOf('..');
+    if (rangeIndex !== -1) {
+        const fromRaw = raw.slice(0, rangeIndex);
+        const toRaw = raw.slice(rangeIndex + 2);
+        if (fromRaw === '*' && toRaw === '*') return null;
+        if (fromRaw === '*') {
+            const to = parseValue(toRaw);
+            return to === null ? null : { operator: '<=', value: to };
+        }
+        if (toRaw === '*') {
+            const from = parseValue(fromRaw);
+            return from === null ? null : { operator: '>=', value: from };
+        }
+        const from = parseValue(fromRaw);
+        const to = parseValue(toRaw);
+        return from === null || to === null ? null : { operator: 'range', from, to };
+    }
+
+    const match = /^(>=|<=|>|<)?(.*)$/.exec(raw);
+    const operator = (match?.[1] ?? '=') as ComparisonOperator;
+    const value = parseValue(match?.[2] ?? '');
+    return value === null ? null : { operator, value };
+};
+
+type QualifierResult =
+    | { node: IssueQueryNode }
+    | { error: string };
+
+const parseQualifier = (key: string, rawValue: string, negated: boolean, span: QuerySpan): QualifierResult => {
+    const value = unquote(rawValue);
+    const base = { negated, span };
+
+    if (!value) return { error: `Missing value for "${key}:"` };
+
+    switch (key) {
+        case 'is':
+        case 'state': {
+            const normalized = value.toLowerCase();
+            const allowed: readonly string[] = key === 'state' ? ['open', 'closed'] : isValues;
+            if (!allowed.includes(normalized)) {
+                return { error: `"${key}:" expects ${allowed.join(', ')}` };
+            }
+            return { node: { ...base, type: 'is', value: normalized as typeof isValues[number] } };
+        }
+        case 'no': {
+            const normalized = value.toLowerCase();
+            if (!(noValues as readonly string[]).includes(normalized)) {
+                return { error: `"no:" expects ${noValues.join(', ')}` };
+            }
+            return { node: { ...base, type: 'no', value: normalized as typeof noValues[number] } };
+        }
+        case 'assignee':
+        case 'milestone':
+            if (value.toLowerCase() === 'none') {
+                return { node: { ...base, type: 'no', value: key } };
+            }
+            return { node: { ...base, type: key, value } };
+        case 'label':
+        case 'author':
+        case 'mentions':
+            return { node: { ...base, type: key, value } };
+        case 'comments': {
+            const comparison = parseComparison(value, parseNumber);
+            return comparison
+                ? { node: { ...base, type: 'comments', comparison } }
+                : { error: `"comments:" expects a number, e.g. >10 or 5..20` };
+        }
+        case 'created':
+        case 'updated': {
+            const comparison = parseComparison(value, parseDate);
+            return comparison
+                ? { node: { ...base, type: key, comparison } }
+                : { error: `"${key}:" expects a YYYY-MM-DD date, e.g. >2024-01-01` };
+        }
+        default:
+            return { error: `Unknown qualifier "${key}:"` };
+    }
+};
+
+/**
+ * Parse a GitHub-style issue query, e.g.
+ * `is:open label:bug -label:wontfix author:gaearon assignee:none comments:>10 created:>2024-01-01 "exact phrase"`
+ *
+ * Terms are ANDed. Invalid terms are reported with their position and left out of the AST.
+ * Like on GitHub, `word:` with an unknown key (`TypeError:`, `https://…`) is plain text.
+ */
+export const parseIssueQuery = (input: string): IssueQuery => {
+    const nodes: IssueQueryNode[] = [];
+    const errors: IssueQueryError[] = [];
+
+    for (const token of tokenize(input)) {
+        const negated = token.text.length > 1 && token.text.startsWith('-');
+        const body = negated ? token.text.slice(1) : token.text;
+
+        if (token.unterminatedQuote !== null) {
+            errors.push({
+                message: 'Unterminated quote',
+                span: { start: token.span.start + token.unterminatedQuote, end: token.span.end }
+            });
+            continue;
+        }
+
+        // Quoted phrase
+        if (body.startsWith('"')) {
+            const value = unquote(body);
+            if (value) nodes.push({ type: 'text', value, quoted: true, negated, span: token.span });
+            continue;
+        }
+
+        const colon = body.indexOf(':');
+        const key = colon > 0 ? body.slice(0, colon) : '';
+        if (!QUALIFIER_KEYS.has(key.toLowerCase())) {
+            nodes.push({ type: 'text', value: body, quoted: false, negated, span: token.span });
+            continue;
+        }
+
+        const result = parseQualifier(key.toLowerCase(), body.slice(colon + 1), negated, token.span);
+        if ('node' in result) nodes.push(result.node);
+        else errors.push({ message: result.error, span: token.span });
+    }
+
+    return { nodes, errors };
+};
+
+// ============================================================================
+// SERVER / CLIENT SPLIT
+// ============================================================================
+
+// Parameters of the issues endpoint a query can set
+export interface IssueQueryServerFilters {
+    state?: 'open' | 'closed';
+    labels?: string[];
+    assignee?: string;
+    creator?: string;
+    mentioned?: string;
+    milestone?: string;
+    since?: string;
+}
+
+export interface IssueQueryPlan {
+    server: IssueQueryServerFilters;
+    // Terms the server cannot apply, evaluated over loaded rows
+    clientNodes: IssueQueryNode[];
+}
+
+type ServerParam = keyof IssueQueryServerFilters;
+
+/**
+ * Issues endpoint parameter and value a term translates to, if any
+ */
+const toServerParam = (node: IssueQueryNode): [ServerParam, string] | null => {
+    if (node.type === 'is' && !node.negated && (node.value === 'open' || node.value === 'closed')) {
+        return ['state', node.value];
+    }
+    if (node.type === 'no' && node.value === 'assignee') {
+        return ['assignee', node.negated ? ASSIGNEE_ANY : ASSIGNEE_NONE];
+    }
+    if (node.type === 'no' && node.value === 'milestone') {
+        return ['milestone', node.negated ? MILESTONE_ANY : MILESTONE_NONE];
+    }
+    if (node.negated) return null;
+
+    switch (node.type) {
+        case 'label':
+            return ['labels', node.value];
+        case 'author':
+            return ['creator', node.value];
+        case 'assignee':
+            return ['assignee', node.value];
+        case 'mentions':
+            return ['mentioned', node.value];
+        case 'updated':
+            // `since` is an inclusive lower bound on updated_at
+            if (node.comparison.operator === '>=') return ['since', startOfDay(node.comparison.value).toISOString()];
+            if (node.comparison.operator === '>') return ['since', startOfDay(addDays(node.comparison.value, 1)).toISOString()];
+            return null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Split a query into issues endpoint parameters and terms left for the client.
+ * A parameter is pushed only when one term sets it and the corresponding filter control
+ * has not (`taken`); labels are ANDed by the endpoint, so every label term is pushed.
+ */
+export const planIssueQuery = (
+    query: IssueQuery,
+    taken: Partial<Record<ServerParam, boolean>> = {}
+): IssueQueryPlan => {
+    const candidates = new Map<ServerParam, { node: IssueQueryNode; value: string }[]>();
+    for (const node of query.nodes) {
+        const param = toServerParam(node);
+        if (!param) continue;
+        candidates.set(param[0], [...(candidates.get(param[0]) ?? []), { node, value: param[1] }]);
+    }
+
+    const server: IssueQueryServerFilters = {};
+    const pushed = new Set<IssueQueryNode>();
+    candidates.forEach((entries, param) => {
+        if (taken[param]) return;
+        if (param === 'labels') {
+            server.labels = entries.map(entry => entry.value);
+        } else if (entries.length === 1) {
+            (server as Record<string, string>)[param] = entries[0].value;
+        } else {
+            return;
+        }
+        entries.forEach(entry => pushed.add(entry.node));
+    });
+
+    return { server, clientNodes: query.nodes.filter(node => !pushed.has(node)) };
+};
+
+/**
+ * Issue type a query asks for with `is:issue`/`is:pr` (or their negations), overriding the
+ * type filter control the way `is:open`/`is:closed` override the state filter.
+ * Undefined when the query sets no type or contradicting ones.
+ */
+export const getIssueQueryType = (query: IssueQuery): 'issues' | 'prs' | undefined => {
+    const types = new Set<'issues' | 'prs'>();
+    for (const node of query.nodes) {
+        if (node.type !== 'is' || (node.value !== 'issue' && node.value !== 'pr')) continue;
+        types.add((node.value === 'pr') !== node.negated ? 'prs' : 'issues');
+    }
+    return types.size === 1 ? [...types][0] : undefined;
+};
+
+// ============================================================================
+// CLIENT EVALUATION
+// ============================================================================
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const compare = <T>(comparison: Comparison<T>, actual: number, toLower: (value: T) => number, toUpper: (value: T) => number): boolean => {
+    switch (comparison.operator) {
+        case '=':
+            return actual >= toLower(comparison.value) && actual <= toUpper(comparison.value);
+        case '>':
+            return actual > toUpper(comparison.value);
+        case '>=':
+            return actual >= toLower(comparison.value);
+        case '<':
+            return actual < toLower(comparison.value);
+        case '<=':
+            return actual <= toUpper(comparison.value);
+        case 'range':
+            return actual >= toLower(comparison.from) && actual <= toUpper(comparison.to);
+    }
+};
+
+const compareCount = (comparison: Comparison<number>, actual: number) =>
+    compare(comparison, actual, value => value, value => value);
+
+// Dates compare by whole days, as on GitHub
+const compareDate = (comparison: Comparison<Date>, timestamp: string) =>
+    compare(comparison, new Date(timestamp).getTime(), value => startOfDay(value).getTime(), value => endOfDay(value).getTime());
+
+const matchesNode = (issue: GitHubIssue, node: IssueQueryNode): boolean => {
+    switch (node.type) {
+        case 'text': {
+            const term = node.value.toLowerCase();
+            return issue.title.toLowerCase().includes(term) ||
+                issue.user.login.toLowerCase().includes(term) ||
+                issue.labels.some(label => label.name.toLowerCase().includes(term));
+        }
+        case 'is':
+            if (node.value === 'pr') return !!issue.pull_request;
+            if (node.value === 'issue') return !issue.pull_request;
+            return issue.state === node.value;
+        case 'no':
+            if (node.value === 'label') return issue.labels.length === 0;
+            if (node.value === 'assignee') return issue.assignees.length === 0;
+            return !issue.milestone;
+        case 'label':
+            return issue.labels.some(label => sameText(label.name, node.value));
+        case 'author':
+            return sameText(issue.user.login, node.value);
+        case 'assignee':
+            return issue.assignees.some(assignee => sameText(assignee.login, node.value));
+        case 'mentions':
+            // Approximation: the issues payload has no mention list
+            return (issue.body ?? '').toLowerCase().includes(`@${node.value.toLowerCase()}`);
+        case 'milestone':
+            return !!issue.milestone && sameText(issue.milestone.title, node.value);
+        case 'comments':
+            return compareCount(node.comparison, issue.comments);
+        case 'created':
+            return compareDate(node.comparison, issue.created_at);
+        case 'updated':
+            return compareDate(node.comparison, issue.updated_at);
+    }
+};
+
+/**
+ * Whether an issue satisfies every term (negated terms must not match)
+ */
+export const matchesIssueQuery = (issue: GitHubIssue, nodes: IssueQueryNode[]): boolean =>
+    nodes.every(node => matchesNode(issue, node) !== node.negated);
+
+// ============================================================================
+// AUTOCOMPLETE
+// ============================================================================
+
+export interface QuerySuggestion {
+    label: string;
+    description?: string;
+    // Text replacing span in the query
+    replacement: string;
+    span: QuerySpan;
+}
+
+// Values offered for qualifiers that take repository data
+export interface QuerySuggestionSources {
+    labels: string[];
+    users: string[];
+    milestones: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) => /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+const valueSuggestions = (key: string, sources: QuerySuggestionSources): string[] => {
+    const day = (offset: number) => format(subDays(new Date(), offset), 'yyyy-MM-dd');
+    switch (key) {
+        case 'is':
+            return [...isValues];
+        case 'state':
+            return ['open', 'closed'];
+        case 'no':
+            return [...noValues];
+        case 'label':
+            return sources.labels;
+        case 'author':
+        case 'mentions':
+            return sources.users;
+        case 'assignee':
+            return ['none', ...sources.users];
+        case 'milestone':
+            return ['none', ...sources.milestones];
+        case 'comments':
+            return ['0', '>0', '>10', '>50'];
+        case 'created':
+        case 'updated':
+            return [`>${day(7)}`, `>${day(30)}`, `<${day(90)}`, `${day(30)}..${day(0)}`];
+        default:
+            return [];
+    }
+};
+
+/**
+ * Completions for the term ending at the cursor: qualifier names, then their values
+ */
+export const getQuerySuggestions = (
+    input: string,
+    cursor: number,
+    sources: QuerySuggestionSources
+): QuerySuggestion[] => {
+    const token = tokenize(input).find(candidate => candidate.span.start <= cursor && cursor <= candidate.span.end);
+    // Only complete at the end of a term (or in the gap between terms)
+    if (token && token.span.end !== cursor) return [];
+
+    const span = token ? token.span : { start: cursor, end: cursor };
+    const text = token ? token.text : '';
+    const prefix = text.startsWith('-') ? '-' : '';
+    const body = text.slice(prefix.length);
+    if (body.startsWith('"')) return [];
+
+    const colon = body.indexOf(':');
+    if (colon === -1) {
+        const partial = body.toLowerCase();
+        return QUERY_QUALIFIERS
+            .filter(qualifier => qualifier.key.startsWith(partial) && qualifier.key !== partial)
+            .map(qualifier => ({
+                label: `${qualifier.key}:`,
+                description: qualifier.description,
+                replacement: `${prefix}${qualifier.key}:`,
+                span
+            }));
+    }
+
+    const key = body.slice(0, colon).toLowerCase();
+    const partial = unquote(body.slice(colon + 1)).toLowerCase();
+    return valueSuggestions(key, sources)
+        .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(value => ({
+            label: value,
+            replacement: `${prefix}${key}:${quoteIfNeeded(value)} `,
+            span
+        }));
+};
@@ -0,0 +1,44 @@
+import { IssueSearchIndex, IssueSearchRequest, IssueSearchResponse, MaxTypos, SearchTerm } from './issueSearchIndex';
+
+/**
+ * Full-text search worker: keeps the inverted index of every issue fetched for the repository
+ * off the main thread.
+ * The latest query is re-run whenever the index changes, so results follow pages as they load.
+ */
+const index = new IssueSearchIndex();
+
+let lastQuery: { queryId: number; terms: SearchTerm[]; maxTypos: MaxTypos } | null = null;
+let scheduled: ReturnType<typeof setTimeout> | null = null;
+
+// Coalesce bursts of updates (a page of issues, several comment threads) into one search
+const scheduleSearch = () => {
+    if (scheduled !== null || !lastQuery) return;
+    scheduled = setTimeout(() => {
+        scheduled = null;
+        if (!lastQuery) return;
+
+        const response: IssueSearchResponse = {
+            type: 'results',
+            queryId: lastQuery.queryId,
+            ...index.search(lastQuery.terms, lastQuery.maxTypos)
+        };
+        self.postMessage(response);
+    }, 0);
+};
+
+self.onmessage = (event: MessageEvent<IssueSearchRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'upsert':
+            index.upsert(request.documents);
+            break;
+        case 'comments':
+            index.setComments(request.number, request.comments);
+            break;
+        case 'search':
+            // An empty query stops re-running searches on updates
+            lastQuery = request.terms.length > 0 ? request : null;
+            break;
+    }
+    scheduleSearch();
+};
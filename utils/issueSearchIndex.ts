@@ -0,0 +1,466 @@
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export type SearchField = 'title' | 'labels' | 'author' | 'body' | 'comments';
+
+// Field order doubles as the bit layout of packed term frequencies
+export const SEARCH_FIELDS: SearchField[] = ['title', 'labels', 'author', 'body', 'comments'];
+
+// A title hit outweighs the same word buried in a long body or comment thread
+export const SEARCH_FIELD_BOOSTS: Record<SearchField, number> = {
+    title: 4,
+    labels: 3,
+    author: 2,
+    body: 1,
+    comments: 0.5
+};
+
+// The parts of an issue the index reads; comments are added separately once loaded
+export interface SearchDocument {
+    number: number;
+    title: string;
+    body: string;
+    labels: string[];
+    author: string;
+}
+
+// One positive text term of the search query
+export interface SearchTerm {
+    text: string;
+    // Quoted phrases match their words in order; unquoted words also match as prefixes and, with
+    // typo tolerance, as close misspellings
+    quoted: boolean;
+}
+
+// Typo tolerance: edits (insertion, deletion, substitution, swap of neighbours) allowed per word
+export type MaxTypos = 0 | 1 | 2;
+
+export interface IssueSearchHit {
+    number: number;
+    score: number;
+    // Fields that matched, strongest boost first
+    fields: SearchField[];
+    // Excerpt around the first match when only the body or comments matched
+    snippet?: { field: 'body' | 'comments'; text: string };
+}
+
+export interface IssueSearchResult {
+    hits: IssueSearchHit[];
+    // Indexed words the query matched (exactly, by prefix or fuzzily), for highlighting
+    matchedTerms: string[];
+}
+
+// ============================================================================
+// WORKER PROTOCOL
+// ============================================================================
+
+export type IssueSearchRequest =
+    | { type: 'upsert'; documents: SearchDocument[] }
+    | { type: 'comments'; number: number; comments: string[] }
+    | { type: 'search'; queryId: number; terms: SearchTerm[]; maxTypos: MaxTypos };
+
+export interface IssueSearchResponse extends IssueSearchResult {
+    type: 'results';
+    queryId: number;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const DIACRITICS_PATTERN = /\p{M}/gu;
+
+/**
+ * Split text into lowercase words without diacritics, so `Café` and `cafe` match
+ */
+export const tokenize = (text: string): string[] =>
+    text.normalize('NFKD').replace(DIACRITICS_PATTERN, '').toLowerCase().match(WORD_PATTERN) ?? [];
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+/**
+ * Split text into runs, marking the words whose tokens are in terms (see IssueSearchResult.matchedTerms)
+ */
+export const highlightTerms = (text: string, terms: ReadonlySet<string>): HighlightSegment[] => {
+    const segments: HighlightSegment[] = [];
+    let last = 0;
+
+    for (const word of text.matchAll(WORD_PATTERN)) {
+        const start = word.index ?? 0;
+        if (!terms.has(tokenize(word[0]).join(''))) continue;
+
+        if (start > last) segments.push({ text: text.slice(last, start), match: false });
+        segments.push({ text: word[0], match: true });
+        last = start + word[0].length;
+    }
+
+    if (last < text.length) segments.push({ text: text.slice(last), match: false });
+    return segments;
+};
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+// Term frequencies are packed 4 bits per field; more than 15 occurrences adds nothing to the score
+const FREQUENCY_BITS = 4;
+const MAX_FREQUENCY = (1 << FREQUENCY_BITS) - 1;
+
+// Prefix expansion: single characters only match whole words, and very common prefixes are capped
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_EXPANSIONS = 64;
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+// Fuzzy matching: short words are too easy to mistype into another word, so they get fewer typos
+const MIN_FUZZY_LENGTH = 4;
+const TWO_TYPO_MIN_LENGTH = 8;
+const FUZZY_MATCH_WEIGHT = 0.4;
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 80;
+
+interface Postings {
+    numbers: number[];
+    frequencies: number[];
+}
+
+interface StoredDocument extends SearchDocument {
+    comments: string;
+    terms: string[];
+}
+
+const frequencyOf = (packed: number, fieldIndex: number) =>
+    (packed >>> (fieldIndex * FREQUENCY_BITS)) & MAX_FREQUENCY;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Optimal string alignment distance (Levenshtein plus swaps of neighbouring characters, so
+ * `hyrdation` is one typo from `hydration`), or null once it must exceed max
+ */
+export const editDistance = (a: string, b: string, max: number): number | null => {
+    if (Math.abs(a.length - b.length) > max) return null;
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const nextRow = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, previousRow[j - 2] + 1);
+            }
+            nextRow.push(distance);
+            rowMin = Math.min(rowMin, distance);
+        }
+        if (rowMin > max) return null;
+        previousRow = row;
+        row = nextRow;
+    }
+
+    return row[b.length] <= max ? row[b.length] : null;
+};
+
+// Typos allowed for a query word of this length under the user's tolerance
+const typosFor = (word: string, maxTypos: MaxTypos): number => {
+    if (word.length < MIN_FUZZY_LENGTH) return 0;
+    return word.length < TWO_TYPO_MIN_LENGTH ? Math.min(maxTypos, 1) : maxTypos;
+};
+
+/**
+ * Inverted index over issue title, body, labels, author and loaded comments
+ *
+ * Each word maps to the issues containing it with per-field frequencies. Queries AND their
+ * terms; a term matches a word exactly or, at lower weight, as a prefix or (when typos are
+ * tolerated) as a close misspelling. Hits are scored with field boosts and inverse document
+ * frequency, so rare words in titles rank first.
+ * Lives in a Web Worker (see issueSearch.worker.ts); nothing here touches the DOM.
+ */
+export class IssueSearchIndex {
+    private documents = new Map<number, StoredDocument>();
+    private postings = new Map<string, Postings>();
+    // Comments that arrived before their issue was indexed
+    private pendingComments = new Map<number, string>();
+    // Sorted vocabulary for prefix lookups, rebuilt on the first query after it changes
+    private sortedTerms: string[] | null = null;
+
+    upsert(documents: SearchDocument[]): void {
+        // Issue updates keep the comments already indexed
+        const comments = new Map<number, string>();
+        for (const document of documents) {
+            comments.set(document.number, this.documents.get(document.number)?.comments ?? this.pendingComments.get(document.number) ?? '');
+            this.pendingComments.delete(document.number);
+        }
+
+        this.removeMany(documents.filter(document => this.documents.has(document.number)).map(document => document.number));
+
+        for (const document of documents) {
+            this.add({ ...document, comments: comments.get(document.number) ?? '', terms: [] });
+        }
+    }
+
+    setComments(number: number, comments: string[]): void {
+        const text = comments.join('\n\n');
+        const document = this.documents.get(number);
+        if (!document) {
+            this.pendingComments.set(number, text);
+            return;
+        }
+        if (document.comments === text) return;
+
+        this.removeMany([number]);
+        this.add({ ...document, comments: text, terms: [] });
+    }
+
+    /**
+     * Issues matching every term, best match first
+     *
+     * @param maxTypos - Typo tolerance for unquoted words; 0 matches exact words and prefixes only
+     */
+    search(terms: SearchTerm[], maxTypos: MaxTypos = 0): IssueSearchResult {
+        let scores: Map<number, { score: number; fields: number }> | null = null;
+        const matchedTerms = new Set<string>();
+        const noMatch: IssueSearchResult = { hits: [], matchedTerms: [] };
+
+        for (const term of terms) {
+            const words = tokenize(term.text);
+            if (words.length === 0) continue;
+
+            for (const word of words) {
+                const expansions = this.expand(word, !term.quoted, term.quoted ? 0 : maxTypos);
+                expansions.forEach(expansion => matchedTerms.add(expansion.term));
+
+                const matches = this.matchWord(expansions);
+                scores = scores === null ? matches : intersect(scores, matches);
+                if (scores.size === 0) return noMatch;
+            }
+
+            if (term.quoted && words.length > 1) {
+                for (const number of [...scores!.keys()]) {
+                    if (!this.containsPhrase(number, words)) scores!.delete(number);
+                }
+            }
+        }
+
+        if (scores === null) return noMatch;
+
+        const snippetTerms = [...matchedTerms];
+        const hits: IssueSearchHit[] = [];
+        scores.forEach(({ score, fields }, number) => {
+            const matchedFields = SEARCH_FIELDS.filter((_, index) => fields & (1 << index));
+            hits.push({
+                number,
+                score,
+                fields: matchedFields,
+                snippet: this.snippetFor(number, matchedFields, snippetTerms)
+            });
+        });
+
+        return {
+            hits: hits.sort((a, b) => b.score - a.score || b.number - a.number),
+            matchedTerms: snippetTerms
+        };
+    }
+
+    private add(document: StoredDocument): void {
+        const counts = new Map<string, number>();
+
+        const fieldTexts: Record<SearchField, string> = {
+            title: document.title,
+            labels: document.labels.join(' '),
+            author: document.author,
+            body: document.body,
+            comments: document.comments
+        };
+
+        SEARCH_FIELDS.forEach((field, index) => {
+            for (const word of tokenize(fieldTexts[field])) {
+                const packed = counts.get(word) ?? 0;
+                if (frequencyOf(packed, index) < MAX_FREQUENCY) {
+                    counts.set(word, packed + (1 << (index * FREQUENCY_BITS)));
+                }
+            }
+        });
+
+        counts.forEach((packed, word) => {
+            let postings = this.postings.get(word);
+            if (!postings) {
+                postings = { numbers: [], frequencies: [] };
+                this.postings.set(word, postings);
+                this.sortedTerms = null;
+            }
+            postings.numbers.push(document.number);
+            postings.frequencies.push(packed);
+        });
+
+        document.terms = [...counts.keys()];
+        this.documents.set(document.number, document);
+    }
+
+    // Batched so replacing many issues rewrites each affected postings list once
+    private removeMany(numbers: number[]): void {
+        if (numbers.length === 0) return;
+
+        const removed = new Set(numbers);
+        const affectedTerms = new Set<string>();
+        for (const number of numbers) {
+            this.documents.get(number)?.terms.forEach(term => affectedTerms.add(term));
+            this.documents.delete(number);
+        }
+
+        affectedTerms.forEach(term => {
+            const postings = this.postings.get(term);
+            if (!postings) return;
+
+            const kept: Postings = { numbers: [], frequencies: [] };
+            postings.numbers.forEach((number, index) => {
+                if (!removed.has(number)) {
+                    kept.numbers.push(number);
+                    kept.frequencies.push(postings.frequencies[index]);
+                }
+            });
+
+            if (kept.numbers.length === 0) {
+                this.postings.delete(term);
+                this.sortedTerms = null;
+            } else {
+                this.postings.set(term, kept);
+            }
+        });
+    }
+
+    private getSortedTerms(): string[] {
+        if (!this.sortedTerms) {
+            this.sortedTerms = [...this.postings.keys()].sort();
+        }
+        return this.sortedTerms;
+    }
+
+    // Indexed words a query word matches, with how much each match counts
+    private expand(word: string, allowPrefix: boolean, maxTypos: MaxTypos): { term: string; weight: number }[] {
+        const expansions = new Map<string, number>();
+        if (this.postings.has(word)) expansions.set(word, 1);
+
+        if (allowPrefix && word.length >= MIN_PREFIX_LENGTH) {
+            // Binary search for the first term >= word; prefix matches follow it contiguously
+            const terms = this.getSortedTerms();
+            let low = 0;
+            let high = terms.length;
+            while (low < high) {
+                const middle = (low + high) >>> 1;
+                if (terms[middle] < word) low = middle + 1;
+                else high = middle;
+            }
+
+            let prefixCount = 0;
+            for (let index = low; index < terms.length && terms[index].startsWith(word); index++) {
+                if (terms[index] !== word) {
+                    expansions.set(terms[index], PREFIX_MATCH_WEIGHT * (word.length / terms[index].length));
+                }
+                if (++prefixCount >= MAX_PREFIX_EXPANSIONS) break;
+            }
+        }
+
+        const typos = typosFor(word, maxTypos);
+        if (typos > 0) {
+            this.postings.forEach((_, term) => {
+                if (expansions.has(term)) return;
+                const distance = editDistance(word, term, typos);
+                if (distance !== null) {
+                    expansions.set(term, FUZZY_MATCH_WEIGHT * (1 - distance / word.length));
+                }
+            });
+        }
+
+        return [...expansions].map(([term, weight]) => ({ term, weight }));
+    }
+
+    // Best score per issue for one query word across its exact, prefix and fuzzy matches
+    private matchWord(expansions: { term: string; weight: number }[]): Map<number, { score: number; fields: number }> {
+        const matches = new Map<number, { score: number; fields: number }>();
+        const documentCount = this.documents.size;
+
+        for (const { term, weight } of expansions) {
+            const postings = this.postings.get(term)!;
+            const idf = Math.log(1 + documentCount / postings.numbers.length);
+
+            postings.numbers.forEach((number, postingIndex) => {
+                const packed = postings.frequencies[postingIndex];
+                let score = 0;
+                let fields = 0;
+                SEARCH_FIELDS.forEach((field, fieldIndex) => {
+                    const frequency = frequencyOf(packed, fieldIndex);
+                    if (frequency > 0) {
+                        score += SEARCH_FIELD_BOOSTS[field] * (1 + Math.log(frequency));
+                        fields |= 1 << fieldIndex;
+                    }
+                });
+                score *= idf * weight;
+
+                const previous = matches.get(number);
+                if (!previous) {
+                    matches.set(number, { score, fields });
+                } else {
+                    matches.set(number, { score: Math.max(previous.score, score), fields: previous.fields | fields });
+                }
+            });
+        }
+
+        return matches;
+    }
+
+    private containsPhrase(number: number, words: string[]): boolean {
+        const document = this.documents.get(number);
+        if (!document) return false;
+
+        const phrase = words.join(' ');
+        return [document.title, document.labels.join(' '), document.body, document.comments]
+            .some(text => tokenize(text).join(' ').includes(phrase));
+    }
+
+    private snippetFor(number: number, fields: SearchField[], words: string[]): IssueSearchHit['snippet'] {
+        if (fields.includes('title')) return undefined;
+
+        const document = this.documents.get(number);
+        if (!document) return undefined;
+
+        for (const field of ['body', 'comments'] as const) {
+            if (!fields.includes(field)) continue;
+
+            const text = document[field];
+            const lower = text.toLowerCase();
+            const position = words
+                .map(word => lower.indexOf(word))
+                .filter(index => index >= 0)
+                .reduce((first, index) => Math.min(first, index), Infinity);
+            if (position === Infinity) continue;
+
+            const start = Math.max(0, position - SNIPPET_BEFORE);
+            const end = Math.min(text.length, position + SNIPPET_AFTER);
+            return {
+                field,
+                text: `${start > 0 ? '…' : ''}${collapseWhitespace(text.slice(start, end))}${end < text.length ? '…' : ''}`
+            };
+        }
+        return undefined;
+    }
+}
+
+const intersect = (
+    current: Map<number, { score: number; fields: number }>,
+    next: Map<number, { score: number; fields: number }>
+): Map<number, { score: number; fields: number }> => {
+    const result = new Map<number, { score: number; fields: number }>();
+    current.forEach((match, number) => {
+        const other = next.get(number);
+        if (other) result.set(number, { score: match.score + other.score, fields: match.fields | other.fields });
+    });
+    return result;
+};
@@ -0,0 +1,252 @@
+import { parse as parseYaml } from 'yaml';
+import * as z from 'zod';
+import { IssueFormElement, IssueTemplate } from './types';
+
+// Answer to one issue form field: text, selected dropdown options or one flag per checkbox
+export type IssueFormAnswer = string | string[] | boolean[];
+
+export type IssueFormAnswers = Record<string, IssueFormAnswer>;
+
+// Front matter block at the very start of a markdown template
+const FRONT_MATTER_PATTERN = /^---\s*\r?\n([\s\S]*?)\r?\n---[^\S\r\n]*(?:\r?\n|$)/;
+
+// Written by GitHub for fields left empty
+const NO_RESPONSE = '_No response_';
+
+type YamlRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is YamlRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string =>
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+
+/**
+ * Labels and assignees may be a YAML list or a comma separated string
+ */
+const asList = (value: unknown): string[] => {
+    const items = Array.isArray(value) ? value.map(asString) : asString(value).split(',');
+    return items.map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * Normalize one `body` entry of an issue form; unknown types are dropped
+ */
+const parseFormElement = (raw: unknown): IssueFormElement | null => {
+    if (!isRecord(raw)) return null;
+
+    const attributes = isRecord(raw.attributes) ? raw.attributes : {};
+    const validations = isRecord(raw.validations) ? raw.validations : {};
+    const id = raw.id !== undefined ? asString(raw.id) : undefined;
+    const field = {
+        id,
+        label: asString(attributes.label),
+        description: attributes.description !== undefined ? asString(attributes.description) : undefined,
+        required: validations.required === true
+    };
+
+    switch (raw.type) {
+        case 'markdown':
+            return { type: 'markdown', id, value: asString(attributes.value) };
+        case 'input':
+            return {
+                ...field,
+                type: 'input',
+                placeholder: attributes.placeholder !== undefined ? asString(attributes.placeholder) : undefined,
+                value: attributes.value !== undefined ? asString(attributes.value) : undefined
+            };
+        case 'textarea':
+            return {
+                ...field,
+                type: 'textarea',
+                placeholder: attributes.placeholder !== undefined ? asString(attributes.placeholder) : undefined,
+                value: attributes.value !== undefined ? asString(attributes.value) : undefined,
+                render: attributes.render !== undefined ? asString(attributes.render) : undefined
+            };
+        case 'dropdown':
+            return {
+                ...field,
+                type: 'dropdown',
+                options: Array.isArray(attributes.options) ? attributes.options.map(asString) : [],
+                multiple: attributes.multiple === true,
+                default: typeof attributes.default === 'number' ? attributes.default : undefined
+            };
+        case 'checkboxes':
+            return {
+                ...field,
+                type: 'checkboxes',
+                options: Array.isArray(attributes.options)
+                    ? attributes.options.filter(isRecord).map(option => ({
+                        label: asString(option.label),
+                        required: option.required === true
+                    }))
+                    : []
+            };
+        default:
+            return null;
+    }
+};
+
+/**
+ * Parse a file from .github/ISSUE_TEMPLATE into a template.
+ * `.md` files are front matter plus a body, `.yml`/`.yaml` files are issue forms.
+ *
+ * @returns null for files that are not templates (e.g. config.yml) or cannot be parsed
+ */
+export const parseIssueTemplate = (fileName: string, source: string): IssueTemplate | null => {
+    const extension = fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+
+    try {
+        if (extension === 'md') {
+            const match = source.match(FRONT_MATTER_PATTERN);
+            const meta: unknown = match ? parseYaml(match[1]) : {};
+            if (!isRecord(meta)) return null;
+
+            return {
+                kind: 'markdown',
+                fileName,
+                name: asString(meta.name) || fileName.replace(/\.md$/i, ''),
+                about: asString(meta.about),
+                title: asString(meta.title),
+                labels: asList(meta.labels),
+                assignees: asList(meta.assignees),
+                body: match ? source.slice(match[0].length) : source
+            };
+        }
+
+        if (extension === 'yml' || extension === 'yaml') {
+            const form: unknown = parseYaml(source);
+            // config.yml and other non-form YAML has no body list
+            if (!isRecord(form) || !Array.isArray(form.body)) return null;
+
+            return {
+                kind: 'form',
+                fileName,
+                name: asString(form.name) || fileName,
+                about: asString(form.description),
+                title: asString(form.title),
+                labels: asList(form.labels),
+                assignees: asList(form.assignees),
+                body: form.body
+                    .map(parseFormElement)
+                    .filter((element): element is IssueFormElement => element !== null)
+            };
+        }
+    } catch (error) {
+        console.warn(`Skipping issue template ${fileName}:`, error);
+    }
+
+    return null;
+};
+
+/**
+ * Form field name of an issue form element; ids are optional, positions are not
+ */
+export const issueFormFieldKey = (index: number): string => `field_${index}`;
+
+/**
+ * Initial answers for an issue form, honoring each field's `value` and dropdown `default`
+ */
+export const defaultIssueFormAnswers = (elements: IssueFormElement[]): IssueFormAnswers => {
+    const answers: IssueFormAnswers = {};
+
+    elements.forEach((element, index) => {
+        const key = issueFormFieldKey(index);
+        switch (element.type) {
+            case 'input':
+            case 'textarea':
+                answers[key] = element.value ?? '';
+                break;
+            case 'dropdown': {
+                const defaultOption = element.default !== undefined ? element.options[element.default] : undefined;
+                answers[key] = defaultOption !== undefined ? [defaultOption] : [];
+                break;
+            }
+            case 'checkboxes':
+                answers[key] = element.options.map(() => false);
+                break;
+        }
+    });
+
+    return answers;
+};
+
+/**
+ * Zod schema for an issue form's answers, enforcing `validations.required`
+ * and required checkbox options
+ */
+export const buildIssueFormSchema = (elements: IssueFormElement[]) => {
+    const shape: Record<string, z.ZodTypeAny> = {};
+
+    elements.forEach((element, index) => {
+        const key = issueFormFieldKey(index);
+        switch (element.type) {
+            case 'input':
+            case 'textarea':
+                shape[key] = element.required
+                    ? z.string().trim().min(1, 'This field is required')
+                    : z.string();
+                break;
+            case 'dropdown':
+                shape[key] = element.required
+                    ? z.array(z.string()).min(1, 'Please select an option')
+                    : z.array(z.string());
+                break;
+            case 'checkboxes':
+                shape[key] = z.array(z.boolean()).refine(
+                    checked => element.options.every((option, optionIndex) => !option.required || checked[optionIndex]),
+                    'Please check every required box'
+                );
+                break;
+        }
+    });
+
+    return z.object(shape);
+};
+
+/**
+ * Serialize issue form answers into an issue body the way GitHub does:
+ * a `### Label` section per field, `_No response_` for empty fields,
+ * `render` textareas fenced as code and checkboxes as a task list. Markdown elements are omitted.
+ */
+export const serializeIssueForm = (elements: IssueFormElement[], answers: IssueFormAnswers): string => {
+    const sections: string[] = [];
+
+    elements.forEach((element, index) => {
+        const answer = answers[issueFormFieldKey(index)];
+        let value: string;
+
+        switch (element.type) {
+            case 'markdown':
+                return;
+            case 'input':
+            case 'textarea': {
+                const text = typeof answer === 'string' ? answer.trim() : '';
+                if (!text) {
+                    value = NO_RESPONSE;
+                } else if (element.type === 'textarea' && element.render) {
+                    value = `\`\`\`${element.render}\n${text}\n\`\`\``;
+                } else {
+                    value = text;
+                }
+                break;
+            }
+            case 'dropdown': {
+                const selected = Array.isArray(answer) ? (answer as string[]) : [];
+                value = selected.length > 0 ? selected.join(', ') : NO_RESPONSE;
+                break;
+            }
+            case 'checkboxes': {
+                const checked = Array.isArray(answer) ? (answer as boolean[]) : [];
+                value = element.options
+                    .map((option, optionIndex) => `- [${checked[optionIndex] ? 'X' : ' '}] ${option.label}`)
+                    .join('\n');
+                break;
+            }
+        }
+
+        sections.push(`### ${element.label}\n\n${value}`);
+    });
+
+    return sections.join('\n\n');
+};
@@ -0,0 +1,62 @@
+export type LinkRel = 'next' | 'prev' | 'first' | 'last';
+
+export type PaginationLinks = Partial<Record<LinkRel, string>>;
+
+/**
+ * Opaque pagination cursor. Consumers must only pass it back to the service,
+ * never build or inspect it: it may be a page URL today and an `after=` cursor tomorrow.
+ */
+export type PageCursor = string & { readonly __brand: 'PageCursor' };
+
+/**
+ * Parse a GitHub Link header into its rel URLs
+ * e.g. `<https://api.github.com/repositories/1/issues?page=2>; rel="next", <...>; rel="last"`
+ */
+export const parseLinkHeader = (header: string | null | undefined): PaginationLinks => {
+    const links: PaginationLinks = {};
+    if (!header) return links;
+
+    header.split(',').forEach((part) => {
+        const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+        if (!match) return;
+
+        const [, url, rels] = match;
+        // A single link can carry several space separated rels
+        rels.split(/\s+/).forEach((rel) => {
+            if (rel === 'next' || rel === 'prev' || rel === 'first' || rel === 'last') {
+                links[rel] = url;
+            }
+        });
+    });
+
+    return links;
+};
+
+/**
+ * Turn an absolute GitHub API URL into a cursor relative to the API root,
+ * so it can be replayed through the proxy
+ */
+export const toPageCursor = (url: string | undefined): PageCursor | null => {
+    if (!url) return null;
+
+    try {
+        const parsed = new URL(url);
+        // GitHub Enterprise serves the REST API under /api/v3
+        const path = parsed.pathname.replace(/^\/api\/v3(?=\/)/, '');
+        return `${path}${parsed.search}` as PageCursor;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Read a numeric query parameter (e.g. page) from a cursor, if it has one
+ */
+export const getCursorParam = (cursor: PageCursor, name: string): number | undefined => {
+    const query = cursor.split('?')[1];
+    if (!query) return undefined;
+
+    const value = new URLSearchParams(query).get(name);
+    const parsed = value === null ? NaN : parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+};
@@ -0,0 +1,53 @@
+import { findAndReplace } from 'mdast-util-find-and-replace';
+
+type MdastRoot = Parameters<typeof findAndReplace>[0];
+
+export interface GitHubReferenceOptions {
+    owner: string;
+    repo: string;
+}
+
+const GITHUB_URL = 'https://github.com';
+
+// owner/repo#123 (cross-repository reference)
+const CROSS_REPO_ISSUE_PATTERN = /(?<![\w/.-])([\w.-]+)\/([\w.-]+)#(\d+)\b/g;
+// #123, not part of a word, path or HTML entity
+const ISSUE_PATTERN = /(?<![\w/&#])#(\d+)\b/g;
+// @user, not part of an email address or path; logins are 1-39 chars, single inner hyphens
+const MENTION_PATTERN = /(?<![\w/@.])@([a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38})(?![\w-])/gi;
+
+const link = (url: string, text: string) => ({
+    type: 'link' as const,
+    url,
+    children: [{ type: 'text' as const, value: text }]
+});
+
+/**
+ * Remark plugin that autolinks `#123`, `owner/repo#123` and `@user` like GitHub does.
+ * Bare issue numbers resolve against the repository being viewed; text inside links and code is left alone.
+ */
+export function remarkGitHubReferences({ owner, repo }: GitHubReferenceOptions) {
+    return (tree: MdastRoot) => {
+        findAndReplace(
+            tree,
+            [
+                [
+                    CROSS_REPO_ISSUE_PATTERN,
+                    (value: string, refOwner: string, refRepo: string, number: string) =>
+                        link(`${GITHUB_URL}/${refOwner}/${refRepo}/issues/${number}`, value)
+                ],
+                [
+                    ISSUE_PATTERN,
+                    (value: string, number: string) =>
+                        link(`${GITHUB_URL}/${owner}/${repo}/issues/${number}`, value)
+                ],
+                [
+                    MENTION_PATTERN,
+                    (value: string, login: string) => link(`${GITHUB_URL}/${login}`, value)
+                ]
+            ],
+            { ignore: ['link', 'linkReference'] }
+        );
+    };
+}
+
@@ -11,6 +11,10 @@ export type ButtonVariant =
     | "RedContStyle";
 
 // GitHub Issues API Types
+export type IssueStateReason = 'completed' | 'not_planned' | 'reopened';
+
+export type IssueLockReason = 'off-topic' | 'too heated' | 'resolved' | 'spam';
+
 export interface GitHubIssue {
     id: number;
     node_id: string;
@@ -18,7 +22,9 @@ export interface GitHubIssue {
     title: string;
     body: string | null;
     state: 'open' | 'closed';
+    state_reason?: IssueStateReason | null;
     locked: boolean;
+    active_lock_reason?: IssueLockReason | null;
     created_at: string;
     updated_at: string;
     closed_at: string | null;
@@ -52,9 +58,13 @@ export interface GitHubIssue {
     }>;
     milestone: {
         id: number;
+        number: number;
         title: string;
         description: string | null;
         state: 'open' | 'closed';
+        open_issues: number;
+        closed_issues: number;
+        html_url: string;
         created_at: string;
         updated_at: string;
         due_on: string | null;
@@ -62,6 +72,14 @@ export interface GitHubIssue {
     comments: number;
     html_url: string;
     author_association: string;
+    // Present only when the item is a pull request (the issues endpoint returns both)
+    pull_request?: {
+        url: string;
+        html_url: string;
+        diff_url: string;
+        patch_url: string;
+        merged_at: string | null;
+    };
     reactions: {
         total_count: number;
         '+1': number;
@@ -75,6 +93,93 @@ export interface GitHubIssue {
     };
 }
 
+export interface GitHubMilestone {
+    id: number;
+    number: number;
+    title: string;
+    description: string | null;
+    state: 'open' | 'closed';
+    open_issues: number;
+    closed_issues: number;
+    due_on: string | null;
+    html_url: string;
+}
+
+export interface GitHubComment {
+    id: number;
+    node_id: string;
+    body: string;
+    created_at: string;
+    updated_at: string;
+    html_url: string;
+    author_association: string;
+    user: {
+        id: number;
+        login: string;
+        avatar_url: string;
+        html_url: string;
+        type: string;
+    } | null;
+    reactions?: GitHubIssue['reactions'];
+}
+
+interface GitHubTimelineEventBase {
+    // Absent on cross-referenced events
+    id?: number;
+    node_id?: string;
+    actor: {
+        id: number;
+        login: string;
+        avatar_url: string;
+        html_url: string;
+    } | null;
+    created_at: string;
+}
+
+// Issue timeline events shown in the detail view; other event kinds are dropped by the service
+export type GitHubTimelineEvent = GitHubTimelineEventBase & (
+    | { event: 'labeled' | 'unlabeled'; label: { name: string; color: string } }
+    | { event: 'assigned'; assignee: { login: string; avatar_url: string } }
+    | { event: 'closed'; state_reason?: IssueStateReason | null; commit_id: string | null }
+    | { event: 'reopened' }
+    | { event: 'cross-referenced'; source: { type: 'issue'; issue: GitHubIssue & { repository?: { full_name: string } } } }
+    | { event: 'renamed'; rename: { from: string; to: string } }
+    | { event: 'milestoned'; milestone: { title: string } }
+);
+
+export type GitHubTimelineEventKind = GitHubTimelineEvent['event'];
+
+// Issue form (.github/ISSUE_TEMPLATE/*.yml) body elements, normalized by utils/issueTemplates
+interface IssueFormFieldBase {
+    id?: string;
+    label: string;
+    description?: string;
+    required: boolean;
+}
+
+export type IssueFormElement =
+    | { type: 'markdown'; id?: string; value: string }
+    | IssueFormFieldBase & { type: 'input'; placeholder?: string; value?: string }
+    | IssueFormFieldBase & { type: 'textarea'; placeholder?: string; value?: string; render?: string }
+    | IssueFormFieldBase & { type: 'dropdown'; options: string[]; multiple: boolean; default?: number }
+    | IssueFormFieldBase & { type: 'checkboxes'; options: { label: string; required: boolean }[] };
+
+interface IssueTemplateBase {
+    // File name inside .github/ISSUE_TEMPLATE, unique per repository
+    fileName: string;
+    name: string;
+    about: string;
+    title: string;
+    labels: string[];
+    assignees: string[];
+}
+
+// Markdown templates prefill the body; issue forms are filled in field by field
+export type IssueTemplate = IssueTemplateBase & (
+    | { kind: 'markdown'; body: string }
+    | { kind: 'form'; body: IssueFormElement[] }
+);
+
 // Datatable Configuration Types
 export interface ColumnConfig {
     id: string;
@@ -86,6 +191,34 @@ export interface ColumnConfig {
     width?: number;
 }
 
+export type TextFilterOperator = 'contains' | 'equals' | 'regex';
+
+export type DateFilterOperator = 'on' | 'before' | 'after';
+
+// Filter set from a column header menu; its shape follows the column's filterType
+export type ColumnFilterValue =
+    | { type: 'text'; operator: TextFilterOperator; value: string }
+    | { type: 'dropdown'; values: string[] }
+    | { type: 'date'; operator: DateFilterOperator; date: Date }
+    | { type: 'dateRange'; range: DateRangeFilterValue };
+
+// Active column filters keyed by column id
+export type ColumnFilters = Record<string, ColumnFilterValue>;
+
+export type IssueTypeFilter = 'issues' | 'prs' | 'both';
+
+// 'loaded': the search box narrows pages already fetched; 'repo': it queries the search API
+export type SearchMode = 'loaded' | 'repo';
+
+// 'all': issues carrying every selected label (server-side); 'any': at least one of them (client-side)
+export type LabelMatchMode = 'all' | 'any';
+
+// Inclusive date range filter; a missing bound leaves that side open
+export interface DateRangeFilterValue {
+    from?: Date;
+    to?: Date;
+}
+
 export interface SortConfig {
     id: string;
     desc: boolean;
@@ -117,9 +250,27 @@ export interface GitHubIssuesResponse {
     total_pages: number;
 }
 
+export type GitHubApiErrorKind =
+    | 'not-found'
+    | 'rate-limited'
+    | 'secondary-rate-limit'
+    | 'auth'
+    | 'validation'
+    | 'network'
+    | 'server'
+    | 'conflict'
+    | 'unknown';
+
 export interface ApiError {
+    kind: GitHubApiErrorKind;
     message: string;
     status: number;
+    url?: string;
+    documentationUrl?: string;
+    // Epoch ms when the primary rate limit resets (rate-limited only)
+    resetAt?: number;
+    // Milliseconds to wait before retrying (secondary-rate-limit only)
+    retryAfter?: number;
     retry?: boolean;
 }
 
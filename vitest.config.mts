@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig leaves JSX to Next.js; compile it for component tests
+  oxc: {
+    jsx: { runtime: "automatic" },
+  },
+});